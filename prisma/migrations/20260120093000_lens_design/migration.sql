@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "LensProduct" ADD COLUMN "design" TEXT NOT NULL DEFAULT 'single-vision';
+
+-- CreateIndex
+CREATE INDEX "LensProduct_design_idx" ON "LensProduct"("design");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "RankingProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "inStockWeight" REAL NOT NULL DEFAULT 5,
+    "stockQuantityWeight" REAL NOT NULL DEFAULT 0,
+    "indexWeight" REAL NOT NULL DEFAULT 4,
+    "featureWeight" REAL NOT NULL DEFAULT 2,
+    "coatingWeight" REAL NOT NULL DEFAULT 2,
+    "rangeWeight" REAL NOT NULL DEFAULT 1,
+    "preferredBrands" TEXT NOT NULL DEFAULT '[]',
+    "brandWeight" REAL NOT NULL DEFAULT 0,
+    "priceBand" TEXT,
+    "priceWeight" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Store" (
+    "code" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "rankingProfileId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Store_rankingProfileId_fkey" FOREIGN KEY ("rankingProfileId") REFERENCES "RankingProfile" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankingProfile_name_key" ON "RankingProfile"("name");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "InventoryMovement" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "inventoryId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "quantityAfter" INTEGER NOT NULL,
+    "user" TEXT,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "InventoryMovement_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "InventoryItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_inventoryId_createdAt_idx" ON "InventoryMovement"("inventoryId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_type_idx" ON "InventoryMovement"("type");
+
+-- Opening balance: one adjustment per existing stock line so the ledger matches the current quantities.
+INSERT INTO "InventoryMovement" ("id", "inventoryId", "type", "delta", "quantityAfter", "user", "reason", "createdAt")
+SELECT 'mig' || lower(hex(randomblob(10))), "id", 'adjustment', "quantity", "quantity", 'migration', 'Solde initial', CURRENT_TIMESTAMP
+FROM "InventoryItem"
+WHERE "quantity" <> 0;
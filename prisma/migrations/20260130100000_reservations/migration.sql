@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Reservation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "inventoryId" TEXT NOT NULL,
+    "chatId" TEXT,
+    "customerName" TEXT,
+    "customerPhone" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "expiresAt" DATETIME NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Reservation_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "InventoryItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Reservation_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "ChatSession" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Reservation_status_expiresAt_idx" ON "Reservation"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "Reservation_inventoryId_idx" ON "Reservation"("inventoryId");
+
+-- CreateIndex
+CREATE INDEX "Reservation_chatId_idx" ON "Reservation"("chatId");
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "LensProduct" ADD COLUMN "lowStockThreshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "DemandSignal" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lensId" TEXT NOT NULL,
+    "chatId" TEXT,
+    "kind" TEXT NOT NULL,
+    "quantity" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DemandSignal_lensId_fkey" FOREIGN KEY ("lensId") REFERENCES "LensProduct" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "StockAlert" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lensId" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "quantity" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "surfacedCount" INTEGER NOT NULL DEFAULT 0,
+    "availabilityCount" INTEGER NOT NULL DEFAULT 0,
+    "missedCount" INTEGER NOT NULL DEFAULT 0,
+    "notifiedAt" DATETIME,
+    "notifyError" TEXT,
+    "acknowledgedBy" TEXT,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "StockAlert_lensId_fkey" FOREIGN KEY ("lensId") REFERENCES "LensProduct" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DemandSignal_lensId_createdAt_idx" ON "DemandSignal"("lensId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DemandSignal_createdAt_idx" ON "DemandSignal"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockAlert_status_idx" ON "StockAlert"("status");
+
+-- CreateIndex
+CREATE INDEX "StockAlert_lensId_status_idx" ON "StockAlert"("lensId", "status");
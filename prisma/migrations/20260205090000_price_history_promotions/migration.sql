@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "InventoryPrice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "inventoryId" TEXT NOT NULL,
+    "priceCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "effectiveFrom" DATETIME NOT NULL,
+    "appliedAt" DATETIME,
+    "user" TEXT,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "InventoryPrice_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "InventoryItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "currency" TEXT,
+    "scope" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "startsAt" DATETIME NOT NULL,
+    "endsAt" DATETIME NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryPrice_inventoryId_effectiveFrom_idx" ON "InventoryPrice"("inventoryId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "InventoryPrice_appliedAt_effectiveFrom_idx" ON "InventoryPrice"("appliedAt", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "Promotion_isActive_startsAt_endsAt_idx" ON "Promotion"("isActive", "startsAt", "endsAt");
+
+-- Opening price: one applied entry per existing stock line.
+INSERT INTO "InventoryPrice" ("id", "inventoryId", "priceCents", "currency", "effectiveFrom", "appliedAt", "user", "reason", "createdAt")
+SELECT 'mig' || lower(hex(randomblob(10))), "id", "priceCents", "currency", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, 'migration', 'Prix initial', CURRENT_TIMESTAMP
+FROM "InventoryItem";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Store" ADD COLUMN "currency" TEXT;
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "Supplier" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "contactName" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "notes" TEXT,
+    "defaultLeadTimeDays" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "SupplierProduct" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "supplierId" TEXT NOT NULL,
+    "lensId" TEXT NOT NULL,
+    "supplierSku" TEXT,
+    "leadTimeDays" INTEGER,
+    "minOrderQuantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SupplierProduct_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SupplierProduct_lensId_fkey" FOREIGN KEY ("lensId") REFERENCES "LensProduct" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- One supplier per distinct free-text supplier name.
+INSERT INTO "Supplier" ("id", "name", "createdAt", "updatedAt")
+SELECT 'mig' || lower(hex(randomblob(10))), "name", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT trim("supplier") AS "name" FROM "InventoryItem" WHERE trim(coalesce("supplier", '')) <> '');
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_InventoryItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lensId" TEXT NOT NULL,
+    "supplierId" TEXT,
+    "priceCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'DZD',
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "InventoryItem_lensId_fkey" FOREIGN KEY ("lensId") REFERENCES "LensProduct" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "InventoryItem_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_InventoryItem" ("id", "lensId", "supplierId", "priceCents", "currency", "quantity", "isActive", "updatedAt")
+SELECT i."id", i."lensId", s."id", i."priceCents", i."currency", i."quantity", i."isActive", i."updatedAt"
+FROM "InventoryItem" i
+LEFT JOIN "Supplier" s ON s."name" = trim(i."supplier");
+DROP TABLE "InventoryItem";
+ALTER TABLE "new_InventoryItem" RENAME TO "InventoryItem";
+CREATE INDEX "InventoryItem_lensId_idx" ON "InventoryItem"("lensId");
+CREATE INDEX "InventoryItem_isActive_idx" ON "InventoryItem"("isActive");
+CREATE INDEX "InventoryItem_supplierId_idx" ON "InventoryItem"("supplierId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Supplier_name_key" ON "Supplier"("name");
+
+-- CreateIndex
+CREATE INDEX "SupplierProduct_lensId_idx" ON "SupplierProduct"("lensId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SupplierProduct_supplierId_lensId_key" ON "SupplierProduct"("supplierId", "lensId");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "LlmProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "baseUrl" TEXT,
+    "apiKeyEnv" TEXT,
+    "temperature" REAL,
+    "streaming" BOOLEAN,
+    "toolCalls" BOOLEAN,
+    "jsonMode" BOOLEAN,
+    "maxContextTokens" INTEGER,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmProfile_name_key" ON "LlmProfile"("name");
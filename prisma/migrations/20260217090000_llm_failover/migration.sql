@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN "metadata" TEXT;
+
+-- AlterTable
+ALTER TABLE "LlmProfile" ADD COLUMN "timeoutMs" INTEGER;
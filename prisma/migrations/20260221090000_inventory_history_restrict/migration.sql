@@ -0,0 +1,65 @@
+-- Stock ledger, price history and reservations outlive their stock line: deleting a line (or its
+-- product) that has any of them is refused instead of erasing the history.
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_InventoryMovement" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "inventoryId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "quantityAfter" INTEGER NOT NULL,
+    "user" TEXT,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "InventoryMovement_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "InventoryItem" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_InventoryMovement" ("id", "inventoryId", "type", "delta", "quantityAfter", "user", "reason", "createdAt")
+SELECT "id", "inventoryId", "type", "delta", "quantityAfter", "user", "reason", "createdAt" FROM "InventoryMovement";
+DROP TABLE "InventoryMovement";
+ALTER TABLE "new_InventoryMovement" RENAME TO "InventoryMovement";
+CREATE INDEX "InventoryMovement_inventoryId_createdAt_idx" ON "InventoryMovement"("inventoryId", "createdAt");
+CREATE INDEX "InventoryMovement_type_idx" ON "InventoryMovement"("type");
+CREATE TABLE "new_InventoryPrice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "inventoryId" TEXT NOT NULL,
+    "priceCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "effectiveFrom" DATETIME NOT NULL,
+    "appliedAt" DATETIME,
+    "user" TEXT,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "InventoryPrice_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "InventoryItem" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_InventoryPrice" ("id", "inventoryId", "priceCents", "currency", "effectiveFrom", "appliedAt", "user", "reason", "createdAt")
+SELECT "id", "inventoryId", "priceCents", "currency", "effectiveFrom", "appliedAt", "user", "reason", "createdAt" FROM "InventoryPrice";
+DROP TABLE "InventoryPrice";
+ALTER TABLE "new_InventoryPrice" RENAME TO "InventoryPrice";
+CREATE INDEX "InventoryPrice_inventoryId_effectiveFrom_idx" ON "InventoryPrice"("inventoryId", "effectiveFrom");
+CREATE INDEX "InventoryPrice_appliedAt_effectiveFrom_idx" ON "InventoryPrice"("appliedAt", "effectiveFrom");
+CREATE TABLE "new_Reservation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "inventoryId" TEXT NOT NULL,
+    "chatId" TEXT,
+    "customerName" TEXT,
+    "customerPhone" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "expiresAt" DATETIME NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Reservation_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "InventoryItem" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Reservation_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "ChatSession" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Reservation" ("id", "inventoryId", "chatId", "customerName", "customerPhone", "quantity", "status", "expiresAt", "createdBy", "createdAt", "updatedAt")
+SELECT "id", "inventoryId", "chatId", "customerName", "customerPhone", "quantity", "status", "expiresAt", "createdBy", "createdAt", "updatedAt" FROM "Reservation";
+DROP TABLE "Reservation";
+ALTER TABLE "new_Reservation" RENAME TO "Reservation";
+CREATE INDEX "Reservation_status_expiresAt_idx" ON "Reservation"("status", "expiresAt");
+CREATE INDEX "Reservation_inventoryId_idx" ON "Reservation"("inventoryId");
+CREATE INDEX "Reservation_chatId_idx" ON "Reservation"("chatId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
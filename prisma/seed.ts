@@ -48,6 +48,8 @@ type SeedLens = {
   index: number;
   material?: string;
   isAspheric?: boolean;
+  design?: "single-vision" | "progressive" | "office" | "bifocal";
+  rxRange?: RxRange;
   photochromic?: boolean;
   photochromicTech?: string;
   blueCut?: boolean;
@@ -59,6 +61,22 @@ type SeedLens = {
   supplier?: string;
 };
 
+type RxRange = {
+  minSph: number;
+  maxSph: number;
+  minCyl: number;
+  maxCyl: number;
+};
+
+// Sample manufacturing ranges per index (minus-cylinder form), used when a lens has no explicit range.
+const RX_RANGE_BY_INDEX: Record<string, RxRange> = {
+  "1.5": { minSph: -6, maxSph: 6, minCyl: -4, maxCyl: 0 },
+  "1.56": { minSph: -8, maxSph: 6, minCyl: -4, maxCyl: 0 },
+  "1.6": { minSph: -10, maxSph: 8, minCyl: -4, maxCyl: 0 },
+  "1.67": { minSph: -12, maxSph: 8, minCyl: -6, maxCyl: 0 },
+  "1.74": { minSph: -16, maxSph: 10, minCyl: -6, maxCyl: 0 },
+};
+
 const PHOTOCHROMIC_TECH = [
   {
     name: "Photochromic (générique)",
@@ -94,6 +112,15 @@ const COATINGS = [
 
 const BRANDS = ["Zeiss", "Essilor", "Crizal", "Hoya", "Distributeur"] as const;
 
+// Default lead times (days) quoted by the chat for out-of-stock lenses.
+const SUPPLIERS: Array<{ name: string; defaultLeadTimeDays: number }> = [
+  { name: "Zeiss", defaultLeadTimeDays: 10 },
+  { name: "Essilor/Crizal", defaultLeadTimeDays: 7 },
+  { name: "Hoya", defaultLeadTimeDays: 7 },
+  { name: "Distributeur", defaultLeadTimeDays: 3 },
+  { name: "OptiLens Store", defaultLeadTimeDays: 2 },
+];
+
 const LENSES: SeedLens[] = [
   {
     sku: "ZEISS-AR-150",
@@ -210,6 +237,87 @@ const LENSES: SeedLens[] = [
     quantity: 0,
     supplier: "OptiLens Store",
   },
+  {
+    sku: "ESSILOR-VARILUX-160",
+    brand: "Essilor",
+    family: "Varilux Comfort",
+    index: 1.6,
+    material: "Organic",
+    isAspheric: true,
+    design: "progressive",
+    coatings: ["AR", "HARD", "HYDRO"],
+    description: "Progressif (loin/intermédiaire/près) pour presbytes, champs de vision confortables.",
+    priceCents: 2200000,
+    currency: "DZD",
+    quantity: 4,
+    supplier: "Essilor/Crizal",
+  },
+  {
+    sku: "HOYA-PROG-167-BLUE",
+    brand: "Hoya",
+    family: "Hoyalux",
+    index: 1.67,
+    material: "Organic",
+    isAspheric: true,
+    design: "progressive",
+    blueCut: true,
+    coatings: ["AR", "BLUECUT", "HARD", "HYDRO"],
+    description: "Progressif fin (1.67) + BlueCut, pour presbytes avec forte correction et usage écrans.",
+    priceCents: 2650000,
+    currency: "DZD",
+    quantity: 2,
+    supplier: "OptiLens Store",
+  },
+  {
+    sku: "ZEISS-OFFICE-150",
+    brand: "Zeiss",
+    family: "Officelens",
+    index: 1.5,
+    material: "Organic",
+    design: "office",
+    rxRange: { minSph: -4, maxSph: 4, minCyl: -2, maxCyl: 0 },
+    coatings: ["AR", "HARD", "HYDRO"],
+    description: "Dégressif bureau: vision de près et intermédiaire (écran) élargie, pas pour la conduite.",
+    priceCents: 1400000,
+    currency: "DZD",
+    quantity: 3,
+    supplier: "Zeiss",
+  },
+  {
+    sku: "DIST-BIFOCAL-150",
+    brand: "Distributeur",
+    family: "Bifocal D28",
+    index: 1.5,
+    material: "Organic",
+    design: "bifocal",
+    coatings: ["HARD"],
+    description: "Bifocal économique avec segment de près visible.",
+    priceCents: 550000,
+    currency: "DZD",
+    quantity: 6,
+    supplier: "Distributeur",
+  },
+];
+
+// Example ranking strategies (none is default: the built-in weights apply until a store picks one).
+const RANKING_PROFILES = [
+  {
+    name: "marque-maison",
+    description: "Met en avant les verres Distributeur (marque maison).",
+    preferredBrands: ["Distributeur"],
+    brandWeight: 4,
+  },
+  {
+    name: "marge",
+    description: "Privilégie le haut de gamme parmi les verres adaptés.",
+    priceBand: "high",
+    priceWeight: 3,
+  },
+  {
+    name: "rotation-stock",
+    description: "Écoule en priorité les références avec le plus de stock.",
+    stockQuantityWeight: 4,
+  },
 ];
 
 async function main() {
@@ -258,6 +366,17 @@ async function main() {
     coatingMap.set(record.code, record.id);
   }
 
+  // Suppliers
+  const supplierMap = new Map<string, string>();
+  for (const { name, defaultLeadTimeDays } of SUPPLIERS) {
+    const supplier = await prisma.supplier.upsert({
+      where: { name },
+      update: { defaultLeadTimeDays },
+      create: { name, defaultLeadTimeDays },
+    });
+    supplierMap.set(name, supplier.id);
+  }
+
   // Lenses
   for (const lens of LENSES) {
     const brandId = brandMap.get(lens.brand);
@@ -267,6 +386,8 @@ async function main() {
       ? techMap.get(lens.photochromicTech)
       : undefined;
 
+    const rxRange = lens.rxRange ?? RX_RANGE_BY_INDEX[String(lens.index)];
+
     const product = await prisma.lensProduct.upsert({
       where: { sku: lens.sku },
       update: {
@@ -275,6 +396,11 @@ async function main() {
         index: lens.index,
         material: lens.material,
         isAspheric: lens.isAspheric ?? false,
+        design: lens.design ?? "single-vision",
+        minSph: rxRange?.minSph ?? null,
+        maxSph: rxRange?.maxSph ?? null,
+        minCyl: rxRange?.minCyl ?? null,
+        maxCyl: rxRange?.maxCyl ?? null,
         photochromic: lens.photochromic ?? false,
         photochromicTechId: photochromicTechId ?? null,
         blueCut: lens.blueCut ?? false,
@@ -287,6 +413,11 @@ async function main() {
         index: lens.index,
         material: lens.material,
         isAspheric: lens.isAspheric ?? false,
+        design: lens.design ?? "single-vision",
+        minSph: rxRange?.minSph ?? null,
+        maxSph: rxRange?.maxSph ?? null,
+        minCyl: rxRange?.minCyl ?? null,
+        maxCyl: rxRange?.maxCyl ?? null,
         photochromic: lens.photochromic ?? false,
         photochromicTechId: photochromicTechId ?? null,
         blueCut: lens.blueCut ?? false,
@@ -294,14 +425,17 @@ async function main() {
       },
     });
 
+    const supplierId = lens.supplier ? supplierMap.get(lens.supplier) : undefined;
+    if (lens.supplier && !supplierId) throw new Error(`Unknown supplier: ${lens.supplier}`);
+
     // Upsert inventory
-    await prisma.inventoryItem.upsert({
+    const item = await prisma.inventoryItem.upsert({
       where: {
         // synthetic unique key not present; fallback: delete+create approach
         id: product.id,
       },
       update: {
-        supplier: lens.supplier,
+        supplierId,
         priceCents: lens.priceCents,
         currency: lens.currency ?? "DZD",
         quantity: lens.quantity,
@@ -311,7 +445,7 @@ async function main() {
       create: {
         id: product.id,
         lensId: product.id,
-        supplier: lens.supplier,
+        supplierId,
         priceCents: lens.priceCents,
         currency: lens.currency ?? "DZD",
         quantity: lens.quantity,
@@ -319,6 +453,44 @@ async function main() {
       },
     });
 
+    // Keep the stock ledger in line with the seeded quantity.
+    const ledger = await prisma.inventoryMovement.aggregate({ where: { inventoryId: item.id }, _sum: { delta: true } });
+    const delta = item.quantity - (ledger._sum.delta ?? 0);
+    if (delta !== 0) {
+      await prisma.inventoryMovement.create({
+        data: { inventoryId: item.id, type: "adjustment", delta, quantityAfter: item.quantity, user: "seed", reason: "Seed" },
+      });
+    }
+
+    // Same for the price history: the latest applied price is the seeded one.
+    const lastPrice = await prisma.inventoryPrice.findFirst({
+      where: { inventoryId: item.id, appliedAt: { not: null } },
+      orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+    });
+    if (lastPrice?.priceCents !== item.priceCents || lastPrice.currency !== item.currency) {
+      const now = new Date();
+      await prisma.inventoryPrice.create({
+        data: {
+          inventoryId: item.id,
+          priceCents: item.priceCents,
+          currency: item.currency,
+          effectiveFrom: now,
+          appliedAt: now,
+          user: "seed",
+          reason: "Seed",
+        },
+      });
+    }
+
+    // The line's supplier can deliver the lens (lead time = the supplier's default).
+    if (supplierId) {
+      await prisma.supplierProduct.upsert({
+        where: { supplierId_lensId: { supplierId, lensId: product.id } },
+        update: {},
+        create: { supplierId, lensId: product.id },
+      });
+    }
+
     // Link coatings (reset for determinism)
     await prisma.lensCoating.deleteMany({ where: { lensId: product.id } });
     for (const code of lens.coatings) {
@@ -332,6 +504,16 @@ async function main() {
       });
     }
   }
+
+  // Ranking profiles (weights not listed keep the schema defaults)
+  for (const { preferredBrands, ...profile } of RANKING_PROFILES) {
+    const data = { ...profile, preferredBrands: JSON.stringify(preferredBrands ?? []) };
+    await prisma.rankingProfile.upsert({
+      where: { name: profile.name },
+      update: data,
+      create: data,
+    });
+  }
 }
 
 main()
@@ -0,0 +1,20 @@
+import "dotenv/config";
+
+import { prisma } from "../src/lib/db";
+import { evaluateStockAlerts } from "../src/lib/stockAlerts";
+
+// Cron-friendly low-stock evaluation (notifiers from ALERT_NOTIFIERS).
+async function main() {
+  const result = await evaluateStockAlerts();
+  console.log(`Alerts: ${result.created} created, ${result.escalated} escalated, ${result.resolved} resolved`);
+  console.log(`Notifiers ok: ${result.notified}`);
+  for (const err of result.notifyErrors) console.error(`Notifier error: ${err}`);
+
+  await prisma.$disconnect().catch(() => {});
+  if (result.notifyErrors.length > 0) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
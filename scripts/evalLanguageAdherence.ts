@@ -3,6 +3,8 @@ import "dotenv/config";
 import fs from "node:fs";
 import path from "node:path";
 
+import { resolveLlmProvider, type LlmProvider } from "../src/lib/llmProviders";
+
 type ExpectedLang = "fr" | "en" | "ar" | "dz";
 
 type PromptCase = {
@@ -38,11 +40,6 @@ function getArgBoolean(name: string): boolean {
   return process.argv.includes(`--${name}`);
 }
 
-function normalizeBaseUrl(raw: string): string {
-  const trimmed = raw.replace(/\/+$/, "");
-  return trimmed.endsWith("/v1") ? trimmed : `${trimmed}/v1`;
-}
-
 function detectLang(text: string): ExpectedLang {
   const t = text.trim();
   if (!t) return "fr";
@@ -65,44 +62,18 @@ function isOk(expected: ExpectedLang, detected: ExpectedLang): boolean {
   return expected === detected;
 }
 
-async function callOpenAICompat(params: {
-  baseUrl: string;
-  apiKey?: string;
-  model: string;
-  user: string;
-  temperature: number;
-}): Promise<string> {
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (params.apiKey) headers.Authorization = `Bearer ${params.apiKey}`;
-
-  const res = await fetch(`${params.baseUrl}/chat/completions`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
-      model: params.model,
-      stream: false,
-      temperature: params.temperature,
-      messages: [
-        {
-          role: "system",
-          content:
-            "LANGUAGE RULE (highest priority): Answer in the same language as the user's message. If French -> French, Arabic -> Arabic, English -> English, Darija -> Darija.",
-        },
-        { role: "user", content: params.user },
-      ],
-    }),
+async function callModel(llm: LlmProvider, user: string, temperature: number): Promise<string> {
+  return llm.chat({
+    temperature,
+    messages: [
+      {
+        role: "system",
+        content:
+          "LANGUAGE RULE (highest priority): Answer in the same language as the user's message. If French -> French, Arabic -> Arabic, English -> English, Darija -> Darija.",
+      },
+      { role: "user", content: user },
+    ],
   });
-
-  if (!res.ok) {
-    const body = await res.text().catch(() => "");
-    throw new Error(`HTTP ${res.status}: ${body}`);
-  }
-
-  const data = (await res.json()) as {
-    choices?: Array<{ message?: { content?: string } }>;
-  };
-
-  return data.choices?.[0]?.message?.content ?? "";
 }
 
 async function main() {
@@ -113,9 +84,9 @@ async function main() {
   const temperature = Number(getArg("temperature") ?? "0.2");
   const verbose = getArgBoolean("verbose");
 
-  const baseUrl = normalizeBaseUrl(process.env.OPENAI_COMPAT_BASE_URL ?? "http://127.0.0.1:8000");
-  const model = process.env.OPENAI_COMPAT_MODEL ?? "Qwen/Qwen2.5-7B-Instruct";
-  const apiKey = process.env.OPENAI_COMPAT_API_KEY;
+  // --profile <name>: LLM model profile (src/lib/llmProviders.ts), else the default one.
+  const llm = await resolveLlmProvider(getArg("profile"));
+  console.log(`Profile ${llm.profile} (${llm.kind}, ${llm.model})`);
 
   const inputPath = path.resolve(process.cwd(), inFile);
   const raw = fs.readFileSync(inputPath, "utf8");
@@ -143,13 +114,7 @@ async function main() {
 
       const p = prompts[i];
       try {
-        const answer = await callOpenAICompat({
-          baseUrl,
-          apiKey,
-          model,
-          user: p.user,
-          temperature: Number.isFinite(temperature) ? temperature : 0.2,
-        });
+        const answer = await callModel(llm, p.user, Number.isFinite(temperature) ? temperature : 0.2);
 
         const detectedLang = detectLang(answer) as ExpectedLang;
         const ok = isOk(p.expectedLang, detectedLang);
@@ -0,0 +1,36 @@
+import "dotenv/config";
+
+import fs from "node:fs";
+import path from "node:path";
+
+import { prisma } from "../src/lib/db";
+import { catalogToCsv, exportCatalog, exportFilename } from "../src/lib/catalogExport";
+
+function getArg(name: string): string | undefined {
+  const idx = process.argv.indexOf(`--${name}`);
+  if (idx === -1) return undefined;
+  return process.argv[idx + 1];
+}
+
+async function main() {
+  const format = getArg("format") === "json" ? "json" : "csv";
+  const delimiter = getArg("delimiter") === "," ? "," : ";";
+  const outArg = getArg("out") ?? path.join("exports", exportFilename(format));
+
+  const products = await exportCatalog({ includeInactive: process.argv.includes("--include-inactive") });
+  const body = format === "json" ? JSON.stringify({ products }, null, 2) + "\n" : catalogToCsv(products, delimiter);
+
+  const outPath = path.resolve(process.cwd(), outArg);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, body, "utf8");
+
+  const lines = products.reduce((n, p) => n + Math.max(1, p.inventory.length), 0);
+  console.log(`Wrote ${products.length} products (${lines} lines) to ${outArg}`);
+
+  await prisma.$disconnect().catch(() => {});
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
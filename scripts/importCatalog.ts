@@ -0,0 +1,73 @@
+import "dotenv/config";
+
+import fs from "node:fs";
+import path from "node:path";
+
+import { prisma } from "../src/lib/db";
+import { applyCatalogImport, importReport, planCatalogImport } from "../src/lib/catalogImport";
+import { readSpreadsheet } from "../src/lib/spreadsheet";
+
+function getArg(name: string): string | undefined {
+  const idx = process.argv.indexOf(`--${name}`);
+  if (idx === -1) return undefined;
+  return process.argv[idx + 1];
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+async function main() {
+  const fileArg = getArg("file");
+  if (!fileArg) {
+    console.error(
+      "Usage: npm run catalog:import -- --file tarifs.xlsx [--commit] [--deactivate-missing] [--supplier nom] [--json] [--user nom]",
+    );
+    process.exit(1);
+  }
+
+  const filePath = path.resolve(process.cwd(), fileArg);
+  const rows = readSpreadsheet(fs.readFileSync(filePath), filePath);
+  const plan = await planCatalogImport({
+    rows,
+    deactivateMissing: hasFlag("deactivate-missing"),
+    supplier: getArg("supplier"),
+  });
+
+  if (hasFlag("json")) {
+    console.log(JSON.stringify(importReport(plan), null, 2));
+  } else {
+    for (const e of plan.errors) {
+      console.log(`ERREUR ligne ${e.line}${e.column ? ` [${e.column}]` : ""}: ${e.message}`);
+    }
+    for (const entry of plan.entries) {
+      if (entry.action === "create") console.log(`+ ${entry.sku} (ligne ${entry.line})`);
+      if (entry.action === "update") {
+        const changes = entry.changes.map((c) => `${c.field}: ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)}`);
+        console.log(`~ ${entry.sku} (ligne ${entry.line}) ${changes.join(", ")}`);
+      }
+    }
+    for (const d of plan.deactivated) console.log(`- ${d.sku} (${d.supplier ?? "sans fournisseur"}) désactivé`);
+    const s = plan.summary;
+    console.log(
+      `\n${s.created} créé(s), ${s.updated} modifié(s), ${s.unchanged} inchangé(s), ${s.deactivated} désactivé(s), ${s.errors} erreur(s)`,
+    );
+  }
+
+  if (!hasFlag("commit")) {
+    console.error("Simulation uniquement (ajoute --commit pour appliquer).");
+  } else if (plan.errors.length > 0) {
+    console.error("Import annulé: corrige les erreurs ci-dessus.");
+    process.exitCode = 1;
+  } else {
+    await applyCatalogImport(plan, { user: getArg("user") ?? "catalog:import" });
+    console.error("Import appliqué.");
+  }
+
+  await prisma.$disconnect().catch(() => {});
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,22 @@
+import "dotenv/config";
+
+import { createMockLlmServer } from "../src/lib/mockLlm";
+
+// Standalone mock LLM (see src/lib/mockLlm.ts) for `npm run dev` without a model. Point the app at
+// it with LLM_PROVIDER=mock + MOCK_LLM_BASE_URL, or as a fake Ollama / OpenAI-compatible server
+// (OLLAMA_BASE_URL / OPENAI_COMPAT_BASE_URL). Scripted replies: MOCK_LLM_SCRIPT=<rules.json>.
+function getArg(name: string): string | undefined {
+  const idx = process.argv.indexOf(`--${name}`);
+  if (idx === -1) return undefined;
+  return process.argv[idx + 1];
+}
+
+const port = Number(getArg("port") ?? process.env.MOCK_LLM_PORT ?? 11435);
+
+createMockLlmServer().listen(port, "127.0.0.1", () => {
+  const url = `http://127.0.0.1:${port}`;
+  console.log(`Mock LLM on ${url}`);
+  console.log(`- Ollama (NDJSON):            POST ${url}/api/chat`);
+  console.log(`- OpenAI-compatible (SSE):    POST ${url}/v1/chat/completions`);
+  console.log(`- Recorded requests:          GET ${url}/mock/requests (DELETE to clear)`);
+});
@@ -0,0 +1,17 @@
+import "dotenv/config";
+
+import { prisma } from "../src/lib/db";
+import { releaseExpiredReservations } from "../src/lib/reservations";
+
+// Cron-friendly: expired holds are also released lazily by the app, this makes it punctual.
+async function main() {
+  const released = await releaseExpiredReservations();
+  console.log(`Released ${released} expired reservation(s)`);
+
+  await prisma.$disconnect().catch(() => {});
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
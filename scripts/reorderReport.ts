@@ -0,0 +1,53 @@
+import "dotenv/config";
+
+import { prisma } from "../src/lib/db";
+import { buildReorderReport } from "../src/lib/suppliers";
+
+function getArg(name: string): string | undefined {
+  const idx = process.argv.indexOf(`--${name}`);
+  if (idx === -1) return undefined;
+  return process.argv[idx + 1];
+}
+
+function numberArg(name: string): number | undefined {
+  const value = Number(getArg(name));
+  return Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+// Reorder suggestions per supplier, as text or JSON (--json) for a purchasing spreadsheet.
+async function main() {
+  const report = await buildReorderReport({
+    windowDays: numberArg("window"),
+    coverDays: numberArg("cover"),
+    supplierId: getArg("supplier"),
+  });
+
+  if (process.argv.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (report.groups.length === 0) {
+    console.log("Rien à commander.");
+  } else {
+    console.log(`Ventes sur ${report.windowDays} j, commande pour ${report.coverDays} j de ventes`);
+    for (const group of report.groups) {
+      const s = group.supplier;
+      const contact = s ? [s.contactName, s.email, s.phone].filter(Boolean).join(", ") : "";
+      console.log(`\n${s?.name ?? "Sans fournisseur"}${contact ? ` (${contact})` : ""}`);
+      for (const l of group.lines) {
+        const lead = l.leadTimeDays !== null ? `${l.leadTimeDays} j` : "délai inconnu";
+        const alert = l.alertLevel ? ` [alerte ${l.alertLevel}]` : "";
+        console.log(
+          `- ${l.sku}${l.supplierSku ? ` (réf. ${l.supplierSku})` : ""} ${l.label}: commander ${l.suggestedQuantity}` +
+            ` — stock ${l.available} (+${l.reserved} réservé), point de commande ${l.reorderPoint},` +
+            ` ${l.dailyDemand}/j, ${lead}${alert}`,
+        );
+      }
+    }
+  }
+
+  await prisma.$disconnect().catch(() => {});
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,9 +1,11 @@
 import "dotenv/config";
 
 // Smoke-test the /api/chat handler without starting Next.js.
-// This helps validate Prisma (SQLite) + Ollama connectivity.
+// This helps validate Prisma (SQLite) + Ollama connectivity (LLM_PROVIDER=mock runs it without a model).
 
 import { POST } from "../src/app/api/chat/route";
+import { resolveModelProfile } from "../src/lib/llmProviders";
+import { mockLlmRequests } from "../src/lib/mockLlm";
 
 function parseArgs(argv: string[]) {
   const args: Record<string, string> = {};
@@ -25,27 +27,25 @@ function parseArgs(argv: string[]) {
 async function main() {
   const args = parseArgs(process.argv.slice(2));
 
-  if (args.provider) process.env.LLM_PROVIDER = args.provider;
-  if (args.baseUrl) process.env.OLLAMA_BASE_URL = args.baseUrl;
-  if (args.model) process.env.OLLAMA_MODEL = args.model;
-
-  const provider = process.env.LLM_PROVIDER ?? "ollama";
-  const model = process.env.OLLAMA_MODEL ?? "qwen2.5:7b-instruct";
-  const baseUrl = process.env.OLLAMA_BASE_URL ?? "http://127.0.0.1:11434";
+  // --profile <name>: LLM model profile (src/lib/llmProviders.ts), else the default one.
+  const profile = await resolveModelProfile(args.profile);
 
   const prompt =
     args.prompt ??
     "Bonjour. SPH -2.50 CYL -1.25. Je veux blue cut pour écrans et un bon antireflet.";
 
-  console.log("provider", provider);
-  if (provider === "ollama") {
-    console.log("ollama", { baseUrl, model });
-  }
+  console.log("profile", {
+    name: profile.name,
+    provider: profile.provider,
+    model: profile.model,
+    baseUrl: profile.baseUrl,
+  });
 
   const req = new Request("http://localhost:3000/api/chat", {
     method: "POST",
     headers: { "content-type": "application/json" },
     body: JSON.stringify({
+      llmProfile: profile.name,
       messages: [
         {
           role: "user",
@@ -60,6 +60,11 @@ async function main() {
 
   console.log("status", res.status);
   console.log(text);
+
+  // --showPrompt with the mock provider: the exact messages the model received.
+  if (args.showPrompt) {
+    for (const r of mockLlmRequests()) console.log(`\n=== mock ${r.wire} request ===\n${JSON.stringify(r.messages, null, 2)}`);
+  }
 }
 
 main().catch((e) => {
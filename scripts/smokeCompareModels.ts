@@ -1,15 +1,16 @@
 import "dotenv/config";
 
-// Compare base model vs fine-tuned model through the real /api/chat logic.
-// This does NOT require starting Next.js.
+// Compare two LLM model profiles (e.g. base vs fine-tuned) through the real /api/chat logic.
+// This does NOT require starting Next.js. Profiles come from src/lib/llmProviders.ts
+// (env, LLM_PROFILES_FILE or the LlmProfile table).
 
 import { POST } from "../src/app/api/chat/route";
+import { resolveModelProfile } from "../src/lib/llmProviders";
 
 type Args = {
-  baseModel: string;
-  ftModel: string;
+  base: string;
+  ft: string;
   prompt: string;
-  baseUrl?: string;
 };
 
 function parseArgs(argv: string[]): Partial<Args> {
@@ -28,21 +29,18 @@ function parseArgs(argv: string[]): Partial<Args> {
   }
 
   return {
-    baseModel: args.baseModel,
-    ftModel: args.ftModel,
+    base: args.base,
+    ft: args.ft,
     prompt: args.prompt,
-    baseUrl: args.baseUrl,
   };
 }
 
-async function callOnce(model: string, prompt: string): Promise<{ status: number; text: string }> {
-  process.env.LLM_PROVIDER = "ollama";
-  process.env.OLLAMA_MODEL = model;
-
+async function callOnce(llmProfile: string, prompt: string): Promise<{ status: number; text: string }> {
   const req = new Request("http://localhost:3000/api/chat", {
     method: "POST",
     headers: { "content-type": "application/json" },
     body: JSON.stringify({
+      llmProfile,
       messages: [{ role: "user", content: prompt }],
     }),
   });
@@ -55,35 +53,33 @@ async function callOnce(model: string, prompt: string): Promise<{ status: number
 async function main() {
   const args = parseArgs(process.argv.slice(2));
 
-  const baseModel = args.baseModel ?? process.env.SMOKE_BASE_MODEL ?? "qwen2.5:7b-instruct";
-  const ftModel = args.ftModel ?? process.env.SMOKE_FT_MODEL;
+  // Default profile when --base is omitted.
+  const base = await resolveModelProfile(args.base ?? process.env.SMOKE_BASE_PROFILE);
+  const ftName = args.ft ?? process.env.SMOKE_FT_PROFILE;
 
-  if (!ftModel) {
+  if (!ftName) {
     throw new Error(
-      "Missing fine-tuned model. Provide --ftModel <name> or set SMOKE_FT_MODEL env var. Example: npx tsx scripts/smokeCompareModels.ts --ftModel optilens-qwen2.5-7b"
+      "Missing fine-tuned profile. Provide --ft <profile> or set SMOKE_FT_PROFILE env var. Example: npx tsx scripts/smokeCompareModels.ts --base ollama --ft optilens-ft"
     );
   }
-
-  if (args.baseUrl) process.env.OLLAMA_BASE_URL = args.baseUrl;
+  const ft = await resolveModelProfile(ftName);
 
   const prompt =
     args.prompt ??
     "Bonjour. SPH -2.50 CYL -1.25. Beaucoup d’écrans. Je veux blue cut + antireflet. Pose-moi les questions manquantes puis propose 2 options.";
 
-  console.log("ollama", {
-    baseUrl: process.env.OLLAMA_BASE_URL ?? "http://127.0.0.1:11434",
-    baseModel,
-    ftModel,
-  });
+  for (const p of [base, ft]) {
+    console.log("profile", { name: p.name, provider: p.provider, model: p.model, baseUrl: p.baseUrl });
+  }
 
-  const base = await callOnce(baseModel, prompt);
-  const ft = await callOnce(ftModel, prompt);
+  const baseResult = await callOnce(base.name, prompt);
+  const ftResult = await callOnce(ft.name, prompt);
 
-  console.log("\n=== BASE (", baseModel, ") status", base.status, "===\n");
-  console.log(base.text);
+  console.log("\n=== BASE (", base.name, base.model, ") status", baseResult.status, "===\n");
+  console.log(baseResult.text);
 
-  console.log("\n=== FINE-TUNED (", ftModel, ") status", ft.status, "===\n");
-  console.log(ft.text);
+  console.log("\n=== FINE-TUNED (", ft.name, ft.model, ") status", ftResult.status, "===\n");
+  console.log(ftResult.text);
 }
 
 main().catch((e) => {
@@ -0,0 +1,9 @@
+import CatalogAdmin from "@/components/CatalogAdmin";
+
+export default function AdminPage() {
+  return (
+    <div className="ol-page p-6">
+      <CatalogAdmin />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { prisma } from "@/lib/db";
+import {
+  ModelProfileInputSchema,
+  modelProfileFromRow,
+  modelProfileToData,
+  serializeModelProfile,
+} from "@/lib/llmProviders";
+
+export const runtime = "nodejs";
+
+// DB profiles only: env and file profiles are edited where they are defined.
+const ParamsSchema = z.object({
+  profileId: z.string().min(1),
+});
+
+const PatchProfileSchema = ModelProfileInputSchema.partial().extend({
+  isDefault: z.boolean().optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ profileId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const row = await prisma.llmProfile.findUnique({ where: { id: params.profileId } });
+  if (!row) return NextResponse.json({ error: "Profil introuvable" }, { status: 404 });
+
+  return NextResponse.json({ profile: serializeModelProfile(modelProfileFromRow(row)) });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ profileId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchProfileSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Profil LLM invalide", details: parsed.error.issues }, { status: 400 });
+  }
+  const { isDefault, ...input } = parsed.data;
+
+  const existing = await prisma.llmProfile.findUnique({ where: { id: params.profileId } });
+  if (!existing) return NextResponse.json({ error: "Profil introuvable" }, { status: 404 });
+  if (input.name && input.name !== existing.name) {
+    const clash = await prisma.llmProfile.findUnique({ where: { name: input.name } });
+    if (clash) return NextResponse.json({ error: "Un profil porte déjà ce nom" }, { status: 409 });
+  }
+
+  const row = await prisma.$transaction(async (tx) => {
+    if (isDefault) {
+      await tx.llmProfile.updateMany({
+        where: { isDefault: true, id: { not: params.profileId } },
+        data: { isDefault: false },
+      });
+    }
+    return tx.llmProfile.update({
+      where: { id: params.profileId },
+      data: { ...modelProfileToData(input), isDefault },
+    });
+  });
+
+  return NextResponse.json({ profile: serializeModelProfile(modelProfileFromRow(row)) });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ profileId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const existing = await prisma.llmProfile.findUnique({ where: { id: params.profileId } });
+  if (!existing) return NextResponse.json({ error: "Profil introuvable" }, { status: 404 });
+
+  await prisma.llmProfile.delete({ where: { id: params.profileId } });
+
+  return NextResponse.json({ ok: true });
+}
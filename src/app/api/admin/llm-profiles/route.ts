@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { prisma } from "@/lib/db";
+import {
+  listModelProfiles,
+  llmProviderKinds,
+  ModelProfileInputSchema,
+  modelProfileFromRow,
+  modelProfileToData,
+  resolveModelProfile,
+  serializeModelProfile,
+} from "@/lib/llmProviders";
+
+export const runtime = "nodejs";
+
+const CreateProfileSchema = ModelProfileInputSchema.extend({
+  isDefault: z.boolean().optional(),
+});
+
+// Every profile (env, file and DB), the one used by default and the registered provider kinds.
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const [profiles, active] = await Promise.all([listModelProfiles(), resolveModelProfile()]);
+
+  return NextResponse.json({
+    profiles: profiles.map(serializeModelProfile),
+    defaultProfile: active.name,
+    providers: llmProviderKinds(),
+  });
+}
+
+// Creates a DB profile (it overrides a file/env profile with the same name).
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateProfileSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Profil LLM invalide", details: parsed.error.issues }, { status: 400 });
+  }
+  const { isDefault, ...input } = parsed.data;
+
+  const existing = await prisma.llmProfile.findUnique({ where: { name: input.name } });
+  if (existing) return NextResponse.json({ error: "Un profil porte déjà ce nom" }, { status: 409 });
+
+  const row = await prisma.$transaction(async (tx) => {
+    // Only one default profile at a time.
+    if (isDefault) await tx.llmProfile.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    return tx.llmProfile.create({ data: { ...modelProfileToData(input), isDefault: isDefault ?? false } });
+  });
+
+  return NextResponse.json({ profile: serializeModelProfile(modelProfileFromRow(row)) }, { status: 201 });
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { prisma } from "@/lib/db";
+import {
+  BUILTIN_PROFILE_NAME,
+  RankingWeightsInputSchema,
+  rankingWeightsToData,
+  serializeRankingProfile,
+} from "@/lib/rankingProfiles";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  profileId: z.string().min(1),
+});
+
+const PatchProfileSchema = RankingWeightsInputSchema.extend({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(60)
+    .refine((n) => n !== BUILTIN_PROFILE_NAME, "Nom réservé")
+    .optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ profileId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const profile = await prisma.rankingProfile.findUnique({
+    where: { id: params.profileId },
+    include: { stores: { select: { code: true, name: true } } },
+  });
+  if (!profile) return NextResponse.json({ error: "Profil introuvable" }, { status: 404 });
+
+  return NextResponse.json({ profile: serializeRankingProfile(profile) });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ profileId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchProfileSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Profil invalide", details: parsed.error.issues }, { status: 400 });
+  }
+  const { name, description, isDefault, ...weights } = parsed.data;
+
+  const existing = await prisma.rankingProfile.findUnique({ where: { id: params.profileId } });
+  if (!existing) return NextResponse.json({ error: "Profil introuvable" }, { status: 404 });
+  if (name && name !== existing.name) {
+    const clash = await prisma.rankingProfile.findUnique({ where: { name } });
+    if (clash) return NextResponse.json({ error: "Un profil porte déjà ce nom" }, { status: 409 });
+  }
+
+  const profile = await prisma.$transaction(async (tx) => {
+    if (isDefault) {
+      await tx.rankingProfile.updateMany({
+        where: { isDefault: true, id: { not: params.profileId } },
+        data: { isDefault: false },
+      });
+    }
+    return tx.rankingProfile.update({
+      where: { id: params.profileId },
+      data: { name, description, isDefault, ...rankingWeightsToData(weights) },
+    });
+  });
+
+  return NextResponse.json({ profile: serializeRankingProfile(profile) });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ profileId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const existing = await prisma.rankingProfile.findUnique({ where: { id: params.profileId } });
+  if (!existing) return NextResponse.json({ error: "Profil introuvable" }, { status: 404 });
+
+  // Stores using it fall back to the default profile (onDelete: SetNull).
+  await prisma.rankingProfile.delete({ where: { id: params.profileId } });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { searchCatalog } from "@/lib/catalogSearch";
+import { extractCustomerNeeds } from "@/lib/customerNeeds";
+import {
+  applyRankingWeightsInput,
+  BUILTIN_PROFILE_NAME,
+  RankingProfileNotFoundError,
+  RankingWeightsInputSchema,
+  resolveRankingProfile,
+} from "@/lib/rankingProfiles";
+import { parseLensDesign, parsePrescription, recommendFromInputs } from "@/lib/recommendation";
+
+export const runtime = "nodejs";
+
+// Ranking preview: run a sample customer message through the same parsing/recommendation as the chat,
+// and rank the catalog with a profile (optionally with unsaved weight overrides) next to the built-in one.
+
+const PreviewSchema = z.object({
+  query: z.string().trim().min(1).max(1000),
+  profile: z.string().trim().min(1).optional(),
+  store: z.string().trim().min(1).optional(),
+  weights: RankingWeightsInputSchema.optional(),
+  limit: z.number().int().min(1).max(20).optional(),
+});
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PreviewSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Requête invalide", details: parsed.error.issues }, { status: 400 });
+  }
+  const body = parsed.data;
+
+  let profile;
+  try {
+    profile = await resolveRankingProfile({ profile: body.profile, store: body.store });
+  } catch (e) {
+    if (e instanceof RankingProfileNotFoundError) return NextResponse.json({ error: e.message }, { status: 404 });
+    throw e;
+  }
+  const ranking = body.weights ? applyRankingWeightsInput(profile, body.weights) : profile;
+
+  const prescription = parsePrescription(body.query);
+  const { needs, budget } = extractCustomerNeeds(body.query);
+  const recommendation = recommendFromInputs({ prescription, needs, budget, design: parseLensDesign(body.query) });
+  const limit = body.limit ?? 6;
+
+  const [selected, baseline] = await Promise.all([
+    searchCatalog({ userText: body.query, recommendation, prescription, ranking, limit }),
+    searchCatalog({ userText: body.query, recommendation, prescription, limit }),
+  ]);
+
+  const baselineRank = new Map(baseline.hits.map((h, i) => [h.sku, i + 1]));
+
+  return NextResponse.json({
+    profile: { name: profile.name, source: profile.source, weights: ranking, overridden: Boolean(body.weights) },
+    recommendation,
+    hits: selected.hits.map((h, i) => ({
+      rank: i + 1,
+      baselineRank: baselineRank.get(h.sku) ?? null,
+      sku: h.sku,
+      brand: h.brand,
+      family: h.family,
+      index: h.index,
+      score: h.score,
+      scoreBreakdown: h.scoreBreakdown,
+      inventory: h.inventory,
+    })),
+    baseline: {
+      profile: BUILTIN_PROFILE_NAME,
+      hits: baseline.hits.map((h, i) => ({ rank: i + 1, sku: h.sku, score: h.score })),
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { prisma } from "@/lib/db";
+import {
+  BUILTIN_PROFILE_NAME,
+  RankingWeightsInputSchema,
+  rankingWeightsToData,
+  serializeRankingProfile,
+} from "@/lib/rankingProfiles";
+
+export const runtime = "nodejs";
+
+const CreateProfileSchema = RankingWeightsInputSchema.extend({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(60)
+    .refine((n) => n !== BUILTIN_PROFILE_NAME, "Nom réservé"),
+  description: z.string().trim().max(500).nullable().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const profiles = await prisma.rankingProfile.findMany({
+    orderBy: { name: "asc" },
+    include: { stores: { select: { code: true, name: true } } },
+  });
+
+  return NextResponse.json({ profiles: profiles.map(serializeRankingProfile) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateProfileSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Profil invalide", details: parsed.error.issues }, { status: 400 });
+  }
+  const { name, description, isDefault, ...weights } = parsed.data;
+
+  const existing = await prisma.rankingProfile.findUnique({ where: { name } });
+  if (existing) return NextResponse.json({ error: "Un profil porte déjà ce nom" }, { status: 409 });
+
+  const profile = await prisma.$transaction(async (tx) => {
+    // Only one default profile at a time.
+    if (isDefault) await tx.rankingProfile.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    return tx.rankingProfile.create({
+      data: { name, description, isDefault: isDefault ?? false, ...rankingWeightsToData(weights) },
+    });
+  });
+
+  return NextResponse.json({ profile: serializeRankingProfile(profile) }, { status: 201 });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  alertId: z.string().min(1),
+});
+
+// "acknowledged" silences the alert until it escalates; "resolved" closes it (a new alert is raised
+// if the product is still short at the next evaluation).
+const PatchAlertSchema = z.object({
+  status: z.enum(["acknowledged", "resolved"]),
+});
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ alertId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchAlertSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Statut invalide", details: parsed.error.issues }, { status: 400 });
+  }
+
+  const existing = await prisma.stockAlert.findUnique({ where: { id: params.alertId } });
+  if (!existing) return NextResponse.json({ error: "Alerte introuvable" }, { status: 404 });
+
+  const alert = await prisma.stockAlert.update({
+    where: { id: params.alertId },
+    data:
+      parsed.data.status === "acknowledged"
+        ? { status: "acknowledged", acknowledgedBy: adminActor(req) }
+        : { status: "resolved", resolvedAt: new Date() },
+  });
+
+  return NextResponse.json({ alert });
+}
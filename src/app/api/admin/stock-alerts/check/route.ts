@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { evaluateStockAlerts } from "@/lib/stockAlerts";
+
+export const runtime = "nodejs";
+
+// Runs a full evaluation now (also done in the background after chat turns and by `npm run alerts:check`).
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const result = await evaluateStockAlerts();
+  return NextResponse.json(result);
+}
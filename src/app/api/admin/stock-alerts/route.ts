@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { prisma } from "@/lib/db";
+import { ALERT_STATUSES, alertSettings } from "@/lib/stockAlerts";
+
+export const runtime = "nodejs";
+
+// Admin inbox of low-stock alerts (unresolved ones by default, most recent first).
+const ListAlertsSchema = z.object({
+  status: z.enum(ALERT_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const parsed = ListAlertsSchema.safeParse({
+    status: url.searchParams.get("status") || undefined,
+    limit: url.searchParams.get("limit") || undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Requête invalide", details: parsed.error.issues }, { status: 400 });
+  }
+
+  const alerts = await prisma.stockAlert.findMany({
+    where: parsed.data.status ? { status: parsed.data.status } : { status: { not: "resolved" } },
+    include: {
+      lens: { select: { id: true, sku: true, family: true, index: true, brand: { select: { name: true } } } },
+    },
+    orderBy: [{ updatedAt: "desc" }],
+    take: parsed.data.limit,
+  });
+
+  return NextResponse.json({ alerts, settings: alertSettings() });
+}
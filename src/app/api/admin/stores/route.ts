@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+// Stores carry their ranking profile and quote currency (selected by `store` in /api/chat and /api/recommend).
+
+const UpsertStoreSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1)
+    .max(40)
+    .regex(/^[A-Za-z0-9_-]+$/, "Code magasin: lettres, chiffres, - et _ uniquement"),
+  name: z.string().trim().min(1).max(120),
+  // Profile name; null to fall back to the default profile.
+  rankingProfile: z.string().trim().min(1).nullable().optional(),
+  // Currency prices are quoted in (converted with CURRENCY_RATES); null to use STORE_CURRENCY.
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Z]{3}$/, "Devise ISO 4217 (ex: EUR)")
+    .nullable()
+    .optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const stores = await prisma.store.findMany({
+    orderBy: { code: "asc" },
+    include: { rankingProfile: { select: { id: true, name: true } } },
+  });
+
+  return NextResponse.json({ stores });
+}
+
+export async function PUT(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = UpsertStoreSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Magasin invalide", details: parsed.error.issues }, { status: 400 });
+  }
+  const body = parsed.data;
+
+  let rankingProfileId: string | null | undefined;
+  if (body.rankingProfile === null) {
+    rankingProfileId = null;
+  } else if (body.rankingProfile) {
+    const profile = await prisma.rankingProfile.findUnique({ where: { name: body.rankingProfile } });
+    if (!profile) return NextResponse.json({ error: "Profil introuvable" }, { status: 404 });
+    rankingProfileId = profile.id;
+  }
+
+  const store = await prisma.store.upsert({
+    where: { code: body.code },
+    create: {
+      code: body.code,
+      name: body.name,
+      rankingProfileId: rankingProfileId ?? null,
+      currency: body.currency ?? null,
+    },
+    update: { name: body.name, rankingProfileId, currency: body.currency },
+    include: { rankingProfile: { select: { id: true, name: true } } },
+  });
+
+  return NextResponse.json({ store });
+}
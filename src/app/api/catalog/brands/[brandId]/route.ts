@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, conflict, invalidRequest, notFound } from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  brandId: z.string().min(1),
+});
+
+const PatchBrandSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ brandId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const brand = await prisma.brand.findUnique({
+    where: { id: params.brandId },
+    include: { _count: { select: { products: true } } },
+  });
+  if (!brand) return notFound("Marque introuvable");
+
+  return NextResponse.json({ brand });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ brandId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchBrandSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Marque invalide");
+
+  const existing = await prisma.brand.findUnique({ where: { id: params.brandId } });
+  if (!existing) return notFound("Marque introuvable");
+  const clash = await prisma.brand.findUnique({ where: { name: parsed.data.name } });
+  if (clash && clash.id !== params.brandId) return conflict("Une marque porte déjà ce nom");
+
+  const brand = await prisma.brand.update({ where: { id: params.brandId }, data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ brand });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ brandId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const brand = await prisma.brand.findUnique({
+    where: { id: params.brandId },
+    include: { _count: { select: { products: true } } },
+  });
+  if (!brand) return notFound("Marque introuvable");
+  if (brand._count.products > 0) {
+    return conflict(`Marque utilisée par ${brand._count.products} produit(s)`);
+  }
+
+  await prisma.brand.delete({ where: { id: params.brandId } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
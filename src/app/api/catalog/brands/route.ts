@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import {
+  catalogChanged,
+  conflict,
+  invalidRequest,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ListBrandsSchema = PaginationSchema.extend({
+  q: z.string().trim().max(100).optional(),
+});
+
+const CreateBrandSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListBrandsSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const where = query.q ? { name: { contains: query.q } } : {};
+  const [total, brands] = await prisma.$transaction([
+    prisma.brand.count({ where }),
+    prisma.brand.findMany({
+      where,
+      include: { _count: { select: { products: true } } },
+      orderBy: { name: "asc" },
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ brands, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateBrandSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Marque invalide");
+
+  const existing = await prisma.brand.findUnique({ where: { name: parsed.data.name } });
+  if (existing) return conflict("Une marque porte déjà ce nom");
+
+  const brand = await prisma.brand.create({ data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ brand }, { status: 201 });
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, conflict, invalidRequest, notFound } from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  coatingId: z.string().min(1),
+});
+
+// The code is the stable identifier used by the recommendation (AR, BLUECUT, ...): labels only.
+const PatchCoatingSchema = z.object({
+  labelFr: z.string().trim().min(1).max(120).optional(),
+  labelEn: z.string().trim().min(1).max(120).optional(),
+  labelAr: z.string().trim().max(120).nullable().optional(),
+  labelDarija: z.string().trim().max(120).nullable().optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ coatingId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const coating = await prisma.coating.findUnique({
+    where: { id: params.coatingId },
+    include: { _count: { select: { lensCoatings: true } } },
+  });
+  if (!coating) return notFound("Traitement introuvable");
+
+  return NextResponse.json({ coating });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ coatingId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchCoatingSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Traitement invalide");
+
+  const existing = await prisma.coating.findUnique({ where: { id: params.coatingId } });
+  if (!existing) return notFound("Traitement introuvable");
+
+  const coating = await prisma.coating.update({ where: { id: params.coatingId }, data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ coating });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ coatingId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const coating = await prisma.coating.findUnique({
+    where: { id: params.coatingId },
+    include: { _count: { select: { lensCoatings: true } } },
+  });
+  if (!coating) return notFound("Traitement introuvable");
+  // LensCoating would cascade silently: refuse instead of stripping the coating from products.
+  if (coating._count.lensCoatings > 0) {
+    return conflict(`Traitement ${coating.code} lié à ${coating._count.lensCoatings} produit(s)`);
+  }
+
+  await prisma.coating.delete({ where: { id: params.coatingId } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
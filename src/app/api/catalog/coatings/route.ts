@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import {
+  catalogChanged,
+  conflict,
+  invalidRequest,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ListCoatingsSchema = PaginationSchema.extend({
+  q: z.string().trim().max(100).optional(),
+});
+
+const CreateCoatingSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1)
+    .max(20)
+    .regex(/^[A-Z0-9_]+$/, "Code: majuscules, chiffres et _ uniquement"),
+  labelFr: z.string().trim().min(1).max(120),
+  labelEn: z.string().trim().min(1).max(120),
+  labelAr: z.string().trim().max(120).nullable().optional(),
+  labelDarija: z.string().trim().max(120).nullable().optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListCoatingsSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const where = query.q
+    ? { OR: [{ code: { contains: query.q } }, { labelFr: { contains: query.q } }, { labelEn: { contains: query.q } }] }
+    : {};
+  const [total, coatings] = await prisma.$transaction([
+    prisma.coating.count({ where }),
+    prisma.coating.findMany({
+      where,
+      include: { _count: { select: { lensCoatings: true } } },
+      orderBy: { code: "asc" },
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ coatings, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateCoatingSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Traitement invalide");
+
+  const existing = await prisma.coating.findUnique({ where: { code: parsed.data.code } });
+  if (existing) return conflict(`Le code ${parsed.data.code} existe déjà`);
+
+  const coating = await prisma.coating.create({ data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ coating }, { status: 201 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { BooleanParamSchema, invalidRequest, searchParamsObject } from "@/lib/catalogApi";
+import { catalogToCsv, exportCatalog, exportFilename } from "@/lib/catalogExport";
+
+export const runtime = "nodejs";
+
+const ExportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  delimiter: z.enum([";", ","]).default(";"),
+  // Also export deactivated inventory lines (default: active stock only).
+  includeInactive: BooleanParamSchema.default(false),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ExportQuerySchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const { format, delimiter, includeInactive } = parsed.data;
+
+  const products = await exportCatalog({ includeInactive });
+  const filename = exportFilename(format);
+  const disposition = `attachment; filename="${filename}"`;
+
+  if (format === "json") {
+    return new NextResponse(JSON.stringify({ products }, null, 2) + "\n", {
+      headers: { "Content-Type": "application/json; charset=utf-8", "Content-Disposition": disposition },
+    });
+  }
+  return new NextResponse(catalogToCsv(products, delimiter), {
+    headers: { "Content-Type": "text/csv; charset=utf-8", "Content-Disposition": disposition },
+  });
+}
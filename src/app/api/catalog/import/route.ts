@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import { invalidRequest } from "@/lib/catalogApi";
+import { applyCatalogImport, importReport, planCatalogImport, type ImportField } from "@/lib/catalogImport";
+import { CountBelowHoldsError } from "@/lib/inventoryLedger";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+
+export const runtime = "nodejs";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const FormFlagSchema = z
+  .enum(["true", "false", "1", "0", "on"])
+  .transform((v) => v === "true" || v === "1" || v === "on");
+
+const ImportOptionsSchema = z.object({
+  // Dry-run by default: the diff is returned and nothing is written.
+  dryRun: FormFlagSchema.default(true),
+  deactivateMissing: FormFlagSchema.default(false),
+  // Supplier the file comes from; required by deactivateMissing when the file has no supplier column.
+  supplier: z.string().trim().min(1).max(200).optional(),
+  // Optional JSON object { field: "header in the file" } overriding the built-in header aliases.
+  mapping: z
+    .string()
+    .transform((s, ctx) => {
+      try {
+        return z.record(z.string(), z.string()).parse(JSON.parse(s)) as Partial<Record<ImportField, string>>;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "mapping doit être un objet JSON { champ: colonne }" });
+        return z.NEVER;
+      }
+    })
+    .optional(),
+});
+
+// Multipart upload: `file` (.csv or .xlsx) + `dryRun`, `deactivateMissing`, `supplier`, `mapping` fields.
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!form || !(file instanceof File)) {
+    return NextResponse.json({ error: "Fichier manquant (champ multipart « file »)" }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: "Fichier trop volumineux (5 Mo max)" }, { status: 413 });
+  }
+
+  const options: Record<string, string> = {};
+  for (const key of ["dryRun", "deactivateMissing", "supplier", "mapping"]) {
+    const value = form.get(key);
+    if (typeof value === "string" && value !== "") options[key] = value;
+  }
+  const parsed = ImportOptionsSchema.safeParse(options);
+  if (!parsed.success) return invalidRequest(parsed.error, "Options d’import invalides");
+
+  let rows;
+  try {
+    rows = readSpreadsheet(Buffer.from(await file.arrayBuffer()), file.name);
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Fichier illisible" }, { status: 400 });
+  }
+
+  const plan = await planCatalogImport({
+    rows,
+    mapping: parsed.data.mapping,
+    deactivateMissing: parsed.data.deactivateMissing,
+    supplier: parsed.data.supplier,
+  });
+  const report = importReport(plan);
+
+  if (parsed.data.dryRun) {
+    return NextResponse.json({ dryRun: true, applied: false, ...report });
+  }
+  if (plan.errors.length > 0) {
+    return NextResponse.json(
+      { error: "Import refusé: le fichier contient des erreurs", dryRun: false, applied: false, ...report },
+      { status: 422 },
+    );
+  }
+
+  try {
+    await applyCatalogImport(plan, { user: adminActor(req) });
+  } catch (e) {
+    // A hold taken between the plan and the apply.
+    if (e instanceof CountBelowHoldsError) return NextResponse.json({ error: e.message }, { status: 409 });
+    throw e;
+  }
+  return NextResponse.json({ dryRun: false, applied: true, ...report });
+}
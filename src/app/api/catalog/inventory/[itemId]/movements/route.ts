@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import {
+  catalogChanged,
+  conflict,
+  invalidRequest,
+  notFound,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+import {
+  CountBelowHoldsError,
+  InsufficientStockError,
+  InventoryNotFoundError,
+  MANUAL_MOVEMENT_TYPES,
+  MOVEMENT_TYPES,
+  recordMovement,
+} from "@/lib/inventoryLedger";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  itemId: z.string().min(1),
+});
+
+const ListMovementsSchema = PaginationSchema.extend({
+  type: z.enum(MOVEMENT_TYPES).optional(),
+});
+
+const CreateMovementSchema = z.object({
+  type: z.enum(MANUAL_MOVEMENT_TYPES),
+  // Units moved, or the counted quantity for an "adjustment".
+  quantity: z.number().int().min(0),
+  reason: z.string().trim().max(200).optional(),
+  user: z.string().trim().max(80).optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ itemId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const parsed = ListMovementsSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const item = await prisma.inventoryItem.findUnique({ where: { id: params.itemId }, select: { id: true } });
+  if (!item) return notFound("Ligne d’inventaire introuvable");
+
+  const where = { inventoryId: params.itemId, ...(query.type ? { type: query.type } : {}) };
+  const [total, movements] = await prisma.$transaction([
+    prisma.inventoryMovement.count({ where }),
+    prisma.inventoryMovement.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ movements, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request, ctx: { params: Promise<{ itemId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateMovementSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Mouvement de stock invalide");
+  if (parsed.data.type !== "adjustment" && parsed.data.quantity === 0) {
+    return NextResponse.json({ error: "La quantité d’un mouvement doit être positive" }, { status: 400 });
+  }
+
+  try {
+    const movement = await recordMovement({
+      inventoryId: params.itemId,
+      type: parsed.data.type,
+      quantity: parsed.data.quantity,
+      user: parsed.data.user ?? adminActor(req),
+      reason: parsed.data.reason,
+    });
+    catalogChanged();
+    return NextResponse.json({ movement }, { status: movement ? 201 : 200 });
+  } catch (e) {
+    if (e instanceof InventoryNotFoundError) return notFound(e.message);
+    if (e instanceof InsufficientStockError || e instanceof CountBelowHoldsError) return conflict(e.message);
+    throw e;
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import {
+  catalogChanged,
+  invalidRequest,
+  notFound,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+import { InventoryNotFoundError } from "@/lib/inventoryLedger";
+import { applyScheduledPrices, setInventoryPrice } from "@/lib/pricing";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  itemId: z.string().min(1),
+});
+
+const CreatePriceSchema = z.object({
+  priceCents: z.number().int().min(0),
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Z]{3}$/, "Devise ISO 4217 (ex: DZD)")
+    .optional(),
+  // Defaults to now; a future date schedules the change.
+  effectiveFrom: z.coerce.date().optional(),
+  reason: z.string().trim().max(200).optional(),
+  user: z.string().trim().max(80).optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ itemId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const parsed = PaginationSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  await applyScheduledPrices();
+
+  const item = await prisma.inventoryItem.findUnique({
+    where: { id: params.itemId },
+    select: { id: true, priceCents: true, currency: true },
+  });
+  if (!item) return notFound("Ligne d’inventaire introuvable");
+
+  const where = { inventoryId: params.itemId };
+  const [total, prices] = await prisma.$transaction([
+    prisma.inventoryPrice.count({ where }),
+    prisma.inventoryPrice.findMany({
+      where,
+      orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ item, prices, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request, ctx: { params: Promise<{ itemId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreatePriceSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Prix invalide");
+
+  try {
+    const price = await setInventoryPrice({
+      inventoryId: params.itemId,
+      priceCents: parsed.data.priceCents,
+      currency: parsed.data.currency,
+      effectiveFrom: parsed.data.effectiveFrom,
+      user: parsed.data.user ?? adminActor(req),
+      reason: parsed.data.reason,
+    });
+    catalogChanged();
+    return NextResponse.json({ price }, { status: price ? 201 : 200 });
+  } catch (e) {
+    if (e instanceof InventoryNotFoundError) return notFound(e.message);
+    throw e;
+  }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, conflict, invalidRequest, notFound } from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+import { CountBelowHoldsError, recordMovement } from "@/lib/inventoryLedger";
+import { setInventoryPrice } from "@/lib/pricing";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  itemId: z.string().min(1),
+});
+
+const PatchInventorySchema = z.object({
+  supplierId: z.string().min(1).nullable().optional(),
+  // Immediate price change, recorded in the price history (scheduled changes: POST .../prices).
+  priceCents: z.number().int().min(0).optional(),
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Z]{3}$/, "Devise ISO 4217 (ex: DZD)")
+    .optional(),
+  // Counted quantity: recorded as an "adjustment" movement in the stock ledger.
+  quantity: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  reason: z.string().trim().max(200).optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ itemId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const item = await prisma.inventoryItem.findUnique({
+    where: { id: params.itemId },
+    include: { lens: { select: { id: true, sku: true } }, supplier: { select: { id: true, name: true } } },
+  });
+  if (!item) return notFound("Ligne d’inventaire introuvable");
+
+  return NextResponse.json({ item });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ itemId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchInventorySchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Ligne d’inventaire invalide");
+
+  const existing = await prisma.inventoryItem.findUnique({ where: { id: params.itemId } });
+  if (!existing) return notFound("Ligne d’inventaire introuvable");
+  if (parsed.data.supplierId) {
+    const supplier = await prisma.supplier.findUnique({ where: { id: parsed.data.supplierId } });
+    if (!supplier) return NextResponse.json({ error: "Fournisseur introuvable" }, { status: 400 });
+  }
+
+  const { quantity, priceCents, currency, reason, ...data } = parsed.data;
+  try {
+    const item = await prisma.$transaction(async (tx) => {
+      if (priceCents !== undefined || currency !== undefined) {
+        await setInventoryPrice(
+          {
+            inventoryId: params.itemId,
+            priceCents: priceCents ?? existing.priceCents,
+            currency,
+            user: adminActor(req),
+            reason: reason ?? "Correction manuelle",
+          },
+          tx,
+        );
+      }
+      if (quantity !== undefined) {
+        await recordMovement(
+          {
+            inventoryId: params.itemId,
+            type: "adjustment",
+            quantity,
+            user: adminActor(req),
+            reason: reason ?? "Correction manuelle",
+          },
+          tx,
+        );
+      }
+      return tx.inventoryItem.update({
+        where: { id: params.itemId },
+        data,
+        include: { lens: { select: { id: true, sku: true } }, supplier: { select: { id: true, name: true } } },
+      });
+    });
+    catalogChanged();
+    return NextResponse.json({ item });
+  } catch (e) {
+    if (e instanceof CountBelowHoldsError) return conflict(e.message);
+    throw e;
+  }
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ itemId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const existing = await prisma.inventoryItem.findUnique({
+    where: { id: params.itemId },
+    include: { _count: { select: { movements: true, prices: true, reservations: true } } },
+  });
+  if (!existing) return notFound("Ligne d’inventaire introuvable");
+
+  // The stock ledger, price history and reservations are kept: such a line is deactivated instead.
+  if (existing._count.movements + existing._count.prices + existing._count.reservations > 0) {
+    return conflict("Ligne d’inventaire avec historique (stock, prix, réservations): désactive-la plutôt", {
+      history: existing._count,
+    });
+  }
+
+  await prisma.inventoryItem.delete({ where: { id: params.itemId } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
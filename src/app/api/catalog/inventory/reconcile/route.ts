@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import { invalidRequest } from "@/lib/catalogApi";
+import { reconcileInventory } from "@/lib/inventoryLedger";
+
+export const runtime = "nodejs";
+
+const ReconcileSchema = z.object({
+  sku: z.string().trim().min(1).optional(),
+  // Append adjustment movements so the ledger matches the stored quantities.
+  fix: z.boolean().default(false),
+});
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = ReconcileSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error);
+
+  const issues = await reconcileInventory({ ...parsed.data, user: adminActor(req) });
+  return NextResponse.json({ fixed: parsed.data.fix, issues });
+}
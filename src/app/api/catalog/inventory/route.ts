@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import {
+  BooleanParamSchema,
+  catalogChanged,
+  invalidRequest,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+import { recordOpeningBalance } from "@/lib/inventoryLedger";
+import { recordOpeningPrice } from "@/lib/pricing";
+
+export const runtime = "nodejs";
+
+const ListInventorySchema = PaginationSchema.extend({
+  lensId: z.string().optional(),
+  sku: z.string().trim().optional(),
+  supplierId: z.string().optional(),
+  // Supplier name contains.
+  supplier: z.string().trim().optional(),
+  isActive: BooleanParamSchema.optional(),
+  // Items at or below this quantity (e.g. 0 for out of stock).
+  maxQuantity: z.coerce.number().int().optional(),
+});
+
+const CreateInventorySchema = z.object({
+  lensId: z.string().min(1),
+  supplierId: z.string().min(1).nullable().optional(),
+  priceCents: z.number().int().min(0),
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Z]{3}$/, "Devise ISO 4217 (ex: DZD)")
+    .optional(),
+  quantity: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  reason: z.string().trim().max(200).optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListInventorySchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const where: Prisma.InventoryItemWhereInput = {
+    ...(query.lensId ? { lensId: query.lensId } : {}),
+    ...(query.sku ? { lens: { sku: query.sku } } : {}),
+    ...(query.supplierId ? { supplierId: query.supplierId } : {}),
+    ...(query.supplier ? { supplier: { name: { contains: query.supplier } } } : {}),
+    ...(query.isActive !== undefined ? { isActive: query.isActive } : {}),
+    ...(query.maxQuantity !== undefined ? { quantity: { lte: query.maxQuantity } } : {}),
+  };
+
+  const [total, items] = await prisma.$transaction([
+    prisma.inventoryItem.count({ where }),
+    prisma.inventoryItem.findMany({
+      where,
+      include: { lens: { select: { id: true, sku: true } }, supplier: { select: { id: true, name: true } } },
+      orderBy: [{ updatedAt: "desc" }],
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ items, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateInventorySchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Ligne d’inventaire invalide");
+
+  const lens = await prisma.lensProduct.findUnique({ where: { id: parsed.data.lensId } });
+  if (!lens) return NextResponse.json({ error: "Produit introuvable" }, { status: 400 });
+  if (parsed.data.supplierId) {
+    const supplier = await prisma.supplier.findUnique({ where: { id: parsed.data.supplierId } });
+    if (!supplier) return NextResponse.json({ error: "Fournisseur introuvable" }, { status: 400 });
+  }
+
+  const { reason, ...data } = parsed.data;
+  const item = await prisma.$transaction(async (tx) => {
+    const created = await tx.inventoryItem.create({
+      data,
+      include: { lens: { select: { id: true, sku: true } }, supplier: { select: { id: true, name: true } } },
+    });
+    await recordOpeningBalance(tx, created, { user: adminActor(req), reason });
+    await recordOpeningPrice(tx, created, { user: adminActor(req), reason });
+    return created;
+  });
+  catalogChanged();
+
+  return NextResponse.json({ item }, { status: 201 });
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, conflict, invalidRequest, notFound } from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  techId: z.string().min(1),
+});
+
+const PatchTechSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  descriptionFr: z.string().trim().min(1).max(2000).optional(),
+  descriptionEn: z.string().trim().min(1).max(2000).optional(),
+  descriptionAr: z.string().trim().max(2000).nullable().optional(),
+  descriptionDarija: z.string().trim().max(2000).nullable().optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ techId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const photochromicTech = await prisma.photochromicTech.findUnique({
+    where: { id: params.techId },
+    include: { _count: { select: { lenses: true } } },
+  });
+  if (!photochromicTech) return notFound("Technologie photochromique introuvable");
+
+  return NextResponse.json({ photochromicTech });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ techId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchTechSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Technologie invalide");
+
+  const existing = await prisma.photochromicTech.findUnique({ where: { id: params.techId } });
+  if (!existing) return notFound("Technologie photochromique introuvable");
+  if (parsed.data.name && parsed.data.name !== existing.name) {
+    const clash = await prisma.photochromicTech.findUnique({ where: { name: parsed.data.name } });
+    if (clash) return conflict("Une technologie porte déjà ce nom");
+  }
+
+  const photochromicTech = await prisma.photochromicTech.update({ where: { id: params.techId }, data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ photochromicTech });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ techId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const tech = await prisma.photochromicTech.findUnique({
+    where: { id: params.techId },
+    include: { _count: { select: { lenses: true } } },
+  });
+  if (!tech) return notFound("Technologie photochromique introuvable");
+  if (tech._count.lenses > 0) {
+    return conflict(`Technologie utilisée par ${tech._count.lenses} produit(s)`);
+  }
+
+  await prisma.photochromicTech.delete({ where: { id: params.techId } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
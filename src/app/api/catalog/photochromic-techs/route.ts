@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import {
+  catalogChanged,
+  conflict,
+  invalidRequest,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ListTechsSchema = PaginationSchema.extend({
+  q: z.string().trim().max(100).optional(),
+});
+
+const CreateTechSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  descriptionFr: z.string().trim().min(1).max(2000),
+  descriptionEn: z.string().trim().min(1).max(2000),
+  descriptionAr: z.string().trim().max(2000).nullable().optional(),
+  descriptionDarija: z.string().trim().max(2000).nullable().optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListTechsSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const where = query.q ? { name: { contains: query.q } } : {};
+  const [total, techs] = await prisma.$transaction([
+    prisma.photochromicTech.count({ where }),
+    prisma.photochromicTech.findMany({
+      where,
+      include: { _count: { select: { lenses: true } } },
+      orderBy: { name: "asc" },
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ photochromicTechs: techs, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateTechSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Technologie invalide");
+
+  const existing = await prisma.photochromicTech.findUnique({ where: { name: parsed.data.name } });
+  if (existing) return conflict("Une technologie porte déjà ce nom");
+
+  const photochromicTech = await prisma.photochromicTech.create({ data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ photochromicTech }, { status: 201 });
+}
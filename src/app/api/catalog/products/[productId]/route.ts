@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, conflict, invalidRequest, notFound, productInclude, serializeProduct } from "@/lib/catalogApi";
+import { ProductPatchSchema, resolveProductRefs } from "@/lib/catalogProducts";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  productId: z.string().min(1),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ productId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const product = await prisma.lensProduct.findUnique({ where: { id: params.productId }, include: productInclude });
+  if (!product) return notFound("Produit introuvable");
+
+  return NextResponse.json({ product: serializeProduct(product) });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ productId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = ProductPatchSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Produit invalide");
+  const { coatings, ...data } = parsed.data;
+
+  const existing = await prisma.lensProduct.findUnique({ where: { id: params.productId } });
+  if (!existing) return notFound("Produit introuvable");
+
+  if (data.sku && data.sku !== existing.sku) {
+    const clash = await prisma.lensProduct.findUnique({ where: { sku: data.sku } });
+    if (clash) return conflict(`Le SKU ${data.sku} existe déjà`);
+  }
+
+  // Ranges are checked on the merged values (a patch may set only one bound).
+  const merged = { ...existing, ...data };
+  if (merged.minSph != null && merged.maxSph != null && merged.minSph > merged.maxSph) {
+    return NextResponse.json({ error: "minSph doit être ≤ maxSph" }, { status: 400 });
+  }
+  if (merged.minCyl != null && merged.maxCyl != null && merged.minCyl > merged.maxCyl) {
+    return NextResponse.json({ error: "minCyl doit être ≤ maxCyl" }, { status: 400 });
+  }
+
+  const refs = await resolveProductRefs({
+    brandId: data.brandId,
+    photochromicTechId: data.photochromicTechId,
+    coatings,
+  });
+  if (refs.error) return refs.error;
+
+  const product = await prisma.$transaction(async (tx) => {
+    if (coatings) {
+      await tx.lensCoating.deleteMany({ where: { lensId: params.productId } });
+      await tx.lensCoating.createMany({
+        data: refs.coatingIds.map((coatingId) => ({ lensId: params.productId, coatingId })),
+      });
+    }
+    return tx.lensProduct.update({ where: { id: params.productId }, data, include: productInclude });
+  });
+  catalogChanged();
+
+  return NextResponse.json({ product: serializeProduct(product) });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ productId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const product = await prisma.lensProduct.findUnique({
+    where: { id: params.productId },
+    include: {
+      inventory: {
+        select: { id: true, isActive: true, _count: { select: { movements: true, prices: true, reservations: true } } },
+      },
+    },
+  });
+  if (!product) return notFound("Produit introuvable");
+
+  // An active inventory line means the bot may be suggesting it right now: deactivate first.
+  const active = product.inventory.filter((i) => i.isActive);
+  if (active.length > 0) {
+    return conflict("Produit avec stock actif: désactive d’abord ses lignes d’inventaire", {
+      activeInventoryIds: active.map((i) => i.id),
+    });
+  }
+  // Deleting the product would delete its stock lines, whose history is kept: with its lines
+  // deactivated the product is no longer suggested anyway.
+  const withHistory = product.inventory.filter((i) => i._count.movements + i._count.prices + i._count.reservations > 0);
+  if (withHistory.length > 0) {
+    return conflict("Produit avec historique de stock, de prix ou de réservations: suppression impossible", {
+      inventoryIds: withHistory.map((i) => i.id),
+    });
+  }
+
+  await prisma.lensProduct.delete({ where: { id: params.productId } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
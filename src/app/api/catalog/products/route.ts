@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { requireAdmin } from "@/lib/adminAuth";
+import {
+  BooleanParamSchema,
+  catalogChanged,
+  conflict,
+  invalidRequest,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  productInclude,
+  searchParamsObject,
+  serializeProduct,
+} from "@/lib/catalogApi";
+import { ProductInputSchema, resolveProductRefs } from "@/lib/catalogProducts";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ListProductsSchema = PaginationSchema.extend({
+  q: z.string().trim().max(100).optional(),
+  brandId: z.string().optional(),
+  design: z.enum(["single-vision", "progressive", "office", "bifocal"]).optional(),
+  index: z.coerce.number().optional(),
+  photochromic: BooleanParamSchema.optional(),
+  blueCut: BooleanParamSchema.optional(),
+  // true = only products the bot may suggest (active inventory), false = only hidden ones.
+  suggestable: BooleanParamSchema.optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListProductsSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const where: Prisma.LensProductWhereInput = {
+    ...(query.q
+      ? {
+          OR: [
+            { sku: { contains: query.q } },
+            { family: { contains: query.q } },
+            { description: { contains: query.q } },
+            { brand: { name: { contains: query.q } } },
+          ],
+        }
+      : {}),
+    ...(query.brandId ? { brandId: query.brandId } : {}),
+    ...(query.design ? { design: query.design } : {}),
+    ...(query.index !== undefined ? { index: query.index } : {}),
+    ...(query.photochromic !== undefined ? { photochromic: query.photochromic } : {}),
+    ...(query.blueCut !== undefined ? { blueCut: query.blueCut } : {}),
+    ...(query.suggestable === true ? { inventory: { some: { isActive: true } } } : {}),
+    ...(query.suggestable === false ? { inventory: { none: { isActive: true } } } : {}),
+  };
+
+  const [total, products] = await prisma.$transaction([
+    prisma.lensProduct.count({ where }),
+    prisma.lensProduct.findMany({
+      where,
+      include: productInclude,
+      orderBy: [{ sku: "asc" }],
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ products: products.map(serializeProduct), ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = ProductInputSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Produit invalide");
+  const { coatings, ...data } = parsed.data;
+
+  const existing = await prisma.lensProduct.findUnique({ where: { sku: data.sku } });
+  if (existing) return conflict(`Le SKU ${data.sku} existe déjà`);
+
+  const refs = await resolveProductRefs({
+    brandId: data.brandId,
+    photochromicTechId: data.photochromicTechId,
+    coatings,
+  });
+  if (refs.error) return refs.error;
+
+  const product = await prisma.lensProduct.create({
+    data: {
+      ...data,
+      coatings: { create: refs.coatingIds.map((coatingId) => ({ coatingId })) },
+    },
+    include: productInclude,
+  });
+  catalogChanged();
+
+  return NextResponse.json({ product: serializeProduct(product) }, { status: 201 });
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, invalidRequest, notFound } from "@/lib/catalogApi";
+import { checkPromotionTarget, normalizeTarget, PromotionPatchSchema } from "@/lib/catalogPromotions";
+import { prisma } from "@/lib/db";
+import { PROMOTION_SCOPES } from "@/lib/pricing";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  promotionId: z.string().min(1),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ promotionId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const promotion = await prisma.promotion.findUnique({ where: { id: params.promotionId } });
+  if (!promotion) return notFound("Promotion introuvable");
+
+  return NextResponse.json({ promotion });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ promotionId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PromotionPatchSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Promotion invalide");
+
+  const existing = await prisma.promotion.findUnique({ where: { id: params.promotionId } });
+  if (!existing) return notFound("Promotion introuvable");
+
+  // Checks that need the stored values for the fields left out of the patch.
+  const merged = { ...existing, ...parsed.data };
+  if (merged.endsAt <= merged.startsAt) {
+    return NextResponse.json({ error: "endsAt doit être après startsAt" }, { status: 400 });
+  }
+  if (merged.kind === "percent" && merged.value > 100) {
+    return NextResponse.json({ error: "Remise en pourcentage : 100 au maximum" }, { status: 400 });
+  }
+  const scope = z.enum(PROMOTION_SCOPES).parse(merged.scope);
+  const target = normalizeTarget(scope, merged.target);
+  if (parsed.data.scope !== undefined || parsed.data.target !== undefined) {
+    const targetError = await checkPromotionTarget(scope, target);
+    if (targetError) return targetError;
+  }
+
+  const promotion = await prisma.promotion.update({
+    where: { id: params.promotionId },
+    data: { ...parsed.data, ...(parsed.data.target !== undefined ? { target } : {}) },
+  });
+  catalogChanged();
+
+  return NextResponse.json({ promotion });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ promotionId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const existing = await prisma.promotion.findUnique({ where: { id: params.promotionId } });
+  if (!existing) return notFound("Promotion introuvable");
+
+  await prisma.promotion.delete({ where: { id: params.promotionId } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
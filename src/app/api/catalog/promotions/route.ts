@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { requireAdmin } from "@/lib/adminAuth";
+import {
+  BooleanParamSchema,
+  catalogChanged,
+  invalidRequest,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { checkPromotionTarget, normalizeTarget, PromotionInputSchema } from "@/lib/catalogPromotions";
+import { prisma } from "@/lib/db";
+import { PROMOTION_SCOPES } from "@/lib/pricing";
+
+export const runtime = "nodejs";
+
+const ListPromotionsSchema = PaginationSchema.extend({
+  // Only promotions running right now (active flag and validity window).
+  current: BooleanParamSchema.optional(),
+  scope: z.enum(PROMOTION_SCOPES).optional(),
+  target: z.string().trim().optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListPromotionsSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const now = new Date();
+  const where: Prisma.PromotionWhereInput = {
+    ...(query.current ? { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } } : {}),
+    ...(query.scope ? { scope: query.scope } : {}),
+    ...(query.target ? { target: query.target } : {}),
+  };
+  const [total, promotions] = await prisma.$transaction([
+    prisma.promotion.count({ where }),
+    prisma.promotion.findMany({ where, orderBy: [{ startsAt: "desc" }], ...paginate(query) }),
+  ]);
+
+  return NextResponse.json({ promotions, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PromotionInputSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Promotion invalide");
+
+  const data = { ...parsed.data, target: normalizeTarget(parsed.data.scope, parsed.data.target) };
+  const targetError = await checkPromotionTarget(data.scope, data.target);
+  if (targetError) return targetError;
+
+  const promotion = await prisma.promotion.create({ data });
+  catalogChanged();
+
+  return NextResponse.json({ promotion }, { status: 201 });
+}
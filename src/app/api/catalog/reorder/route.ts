@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { invalidRequest, searchParamsObject } from "@/lib/catalogApi";
+import { buildReorderReport } from "@/lib/suppliers";
+
+export const runtime = "nodejs";
+
+const ReorderQuerySchema = z.object({
+  // Sales history used for the demand rate, and days of demand an order should cover.
+  windowDays: z.coerce.number().int().min(1).max(365).optional(),
+  coverDays: z.coerce.number().int().min(0).max(365).optional(),
+  supplierId: z.string().min(1).optional(),
+});
+
+// Reorder suggestions grouped by supplier (see buildReorderReport).
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ReorderQuerySchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+
+  const report = await buildReorderReport(parsed.data);
+  return NextResponse.json(report);
+}
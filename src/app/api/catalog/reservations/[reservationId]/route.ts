@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import { conflict, invalidRequest, notFound } from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+import {
+  closeReservation,
+  extendReservation,
+  ReservationClosedError,
+  reservationInclude,
+  ReservationNotFoundError,
+} from "@/lib/reservations";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  reservationId: z.string().min(1),
+});
+
+const PatchReservationSchema = z.discriminatedUnion("action", [
+  // Customer cancelled: units go back to stock.
+  z.object({ action: z.literal("release") }),
+  // Customer picked the lenses up: recorded as a sale.
+  z.object({ action: z.literal("fulfill") }),
+  // New expiry, counted from now.
+  z.object({ action: z.literal("extend"), holdHours: z.number().positive().max(24 * 30) }),
+]);
+
+export async function GET(req: Request, ctx: { params: Promise<{ reservationId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const reservation = await prisma.reservation.findUnique({
+    where: { id: params.reservationId },
+    include: reservationInclude,
+  });
+  if (!reservation) return notFound("Réservation introuvable");
+
+  return NextResponse.json({ reservation });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ reservationId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchReservationSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Action invalide");
+  const body = parsed.data;
+
+  try {
+    const reservation =
+      body.action === "extend"
+        ? await extendReservation(params.reservationId, body.holdHours)
+        : await closeReservation(params.reservationId, body.action === "release" ? "released" : "fulfilled", {
+            user: adminActor(req),
+          });
+    return NextResponse.json({ reservation });
+  } catch (e) {
+    if (e instanceof ReservationNotFoundError) return notFound(e.message);
+    if (e instanceof ReservationClosedError) return conflict(e.message);
+    throw e;
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { adminActor, requireAdmin } from "@/lib/adminAuth";
+import {
+  conflict,
+  invalidRequest,
+  notFound,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+import { InsufficientStockError } from "@/lib/inventoryLedger";
+import {
+  ProductNotFoundError,
+  RESERVATION_STATUSES,
+  releaseExpiredReservations,
+  reservationInclude,
+  reserveStock,
+} from "@/lib/reservations";
+
+export const runtime = "nodejs";
+
+const ListReservationsSchema = PaginationSchema.extend({
+  status: z.enum(RESERVATION_STATUSES).optional(),
+  sku: z.string().trim().optional(),
+  chatId: z.string().optional(),
+});
+
+const CreateReservationSchema = z.object({
+  sku: z.string().trim().min(1),
+  quantity: z.number().int().min(1).max(100),
+  chatId: z.string().min(1).optional(),
+  customerName: z.string().trim().max(120).optional(),
+  customerPhone: z.string().trim().max(40).optional(),
+  // Defaults to RESERVATION_HOLD_HOURS (48 h).
+  holdHours: z.number().positive().max(24 * 30).optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListReservationsSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  await releaseExpiredReservations();
+
+  const where: Prisma.ReservationWhereInput = {
+    ...(query.status ? { status: query.status } : {}),
+    ...(query.sku ? { inventory: { lens: { sku: query.sku } } } : {}),
+    ...(query.chatId ? { chatId: query.chatId } : {}),
+  };
+  const [total, reservations] = await prisma.$transaction([
+    prisma.reservation.count({ where }),
+    prisma.reservation.findMany({
+      where,
+      include: reservationInclude,
+      orderBy: [{ createdAt: "desc" }],
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ reservations, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateReservationSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Réservation invalide");
+
+  if (parsed.data.chatId) {
+    const chat = await prisma.chatSession.findUnique({ where: { id: parsed.data.chatId }, select: { id: true } });
+    if (!chat) return NextResponse.json({ error: "Chat introuvable" }, { status: 400 });
+  }
+
+  try {
+    const reservation = await reserveStock({ ...parsed.data, user: adminActor(req) });
+    return NextResponse.json({ reservation }, { status: 201 });
+  } catch (e) {
+    if (e instanceof ProductNotFoundError) return notFound(e.message);
+    if (e instanceof InsufficientStockError) return conflict(e.message);
+    throw e;
+  }
+}
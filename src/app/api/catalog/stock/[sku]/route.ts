@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { invalidRequest, notFound, searchParamsObject } from "@/lib/catalogApi";
+import { getStockHistory } from "@/lib/inventoryLedger";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  sku: z.string().min(1),
+});
+
+const HistoryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Replays the balance at this instant, e.g. the createdAt of a bot answer being audited.
+  at: z.coerce.date().optional(),
+});
+
+// Stock audit for a SKU: current balance per line, the quantity the chat reports, and the ledger.
+export async function GET(req: Request, ctx: { params: Promise<{ sku: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const parsed = HistoryQuerySchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+
+  const history = await getStockHistory(params.sku, parsed.data);
+  if (!history) return notFound("Produit introuvable");
+
+  return NextResponse.json(history);
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, invalidRequest, notFound, searchParamsObject } from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  supplierId: z.string().min(1),
+});
+
+// The product is given by id or SKU.
+const ProductRefSchema = z
+  .object({
+    lensId: z.string().min(1).optional(),
+    sku: z.string().trim().min(1).optional(),
+  })
+  .refine((v) => v.lensId || v.sku, { message: "lensId ou sku requis" });
+
+const PutOfferSchema = z
+  .object({
+    lensId: z.string().min(1).optional(),
+    sku: z.string().trim().min(1).optional(),
+    supplierSku: z.string().trim().max(80).nullable().optional(),
+    // null = the supplier's defaultLeadTimeDays.
+    leadTimeDays: z.number().int().min(0).max(365).nullable().optional(),
+    minOrderQuantity: z.number().int().min(1).optional(),
+  })
+  .refine((v) => v.lensId || v.sku, { message: "lensId ou sku requis" });
+
+const offerInclude = { lens: { select: { id: true, sku: true } } };
+
+function findLens(ref: { lensId?: string; sku?: string }) {
+  return prisma.lensProduct.findUnique({
+    where: ref.lensId ? { id: ref.lensId } : { sku: ref.sku! },
+    select: { id: true },
+  });
+}
+
+// Products this supplier can deliver, with its reference, lead time and minimum order.
+export async function GET(req: Request, ctx: { params: Promise<{ supplierId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const supplier = await prisma.supplier.findUnique({ where: { id: params.supplierId } });
+  if (!supplier) return notFound("Fournisseur introuvable");
+
+  const offers = await prisma.supplierProduct.findMany({
+    where: { supplierId: params.supplierId },
+    include: offerInclude,
+    orderBy: { lens: { sku: "asc" } },
+  });
+
+  return NextResponse.json({ supplier, offers });
+}
+
+// Creates or updates the offer for one product.
+export async function PUT(req: Request, ctx: { params: Promise<{ supplierId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PutOfferSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Offre fournisseur invalide");
+
+  const supplier = await prisma.supplier.findUnique({ where: { id: params.supplierId } });
+  if (!supplier) return notFound("Fournisseur introuvable");
+  const lens = await findLens(parsed.data);
+  if (!lens) return NextResponse.json({ error: "Produit introuvable" }, { status: 400 });
+
+  const { supplierSku, leadTimeDays, minOrderQuantity } = parsed.data;
+  const data = { supplierSku, leadTimeDays, minOrderQuantity };
+  const offer = await prisma.supplierProduct.upsert({
+    where: { supplierId_lensId: { supplierId: params.supplierId, lensId: lens.id } },
+    create: { supplierId: params.supplierId, lensId: lens.id, ...data },
+    update: data,
+    include: offerInclude,
+  });
+  catalogChanged();
+
+  return NextResponse.json({ offer });
+}
+
+// DELETE ?sku=... (or ?lensId=...)
+export async function DELETE(req: Request, ctx: { params: Promise<{ supplierId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const parsed = ProductRefSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+
+  const lens = await findLens(parsed.data);
+  const offer = lens
+    ? await prisma.supplierProduct.findUnique({
+        where: { supplierId_lensId: { supplierId: params.supplierId, lensId: lens.id } },
+      })
+    : null;
+  if (!offer) return notFound("Offre fournisseur introuvable");
+
+  await prisma.supplierProduct.delete({ where: { id: offer.id } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import { catalogChanged, conflict, invalidRequest, notFound } from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ParamsSchema = z.object({
+  supplierId: z.string().min(1),
+});
+
+const PatchSupplierSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  contactName: z.string().trim().max(120).nullable().optional(),
+  email: z.string().trim().email().max(200).nullable().optional(),
+  phone: z.string().trim().max(40).nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  defaultLeadTimeDays: z.number().int().min(0).max(365).nullable().optional(),
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ supplierId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const supplier = await prisma.supplier.findUnique({
+    where: { id: params.supplierId },
+    include: { _count: { select: { inventory: true, products: true } } },
+  });
+  if (!supplier) return notFound("Fournisseur introuvable");
+
+  return NextResponse.json({ supplier });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ supplierId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = PatchSupplierSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Fournisseur invalide");
+
+  const existing = await prisma.supplier.findUnique({ where: { id: params.supplierId } });
+  if (!existing) return notFound("Fournisseur introuvable");
+  if (parsed.data.name) {
+    const clash = await prisma.supplier.findUnique({ where: { name: parsed.data.name } });
+    if (clash && clash.id !== params.supplierId) return conflict("Un fournisseur porte déjà ce nom");
+  }
+
+  const supplier = await prisma.supplier.update({ where: { id: params.supplierId }, data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ supplier });
+}
+
+export async function DELETE(req: Request, ctx: { params: Promise<{ supplierId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+  const params = ParamsSchema.parse(await ctx.params);
+
+  const supplier = await prisma.supplier.findUnique({
+    where: { id: params.supplierId },
+    include: { _count: { select: { inventory: true } } },
+  });
+  if (!supplier) return notFound("Fournisseur introuvable");
+  // Its product offers go with it; stock lines must be moved to another supplier first.
+  if (supplier._count.inventory > 0) {
+    return conflict(`Fournisseur utilisé par ${supplier._count.inventory} ligne(s) d’inventaire`);
+  }
+
+  await prisma.supplier.delete({ where: { id: params.supplierId } });
+  catalogChanged();
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/adminAuth";
+import {
+  catalogChanged,
+  conflict,
+  invalidRequest,
+  pageInfo,
+  paginate,
+  PaginationSchema,
+  searchParamsObject,
+} from "@/lib/catalogApi";
+import { prisma } from "@/lib/db";
+
+export const runtime = "nodejs";
+
+const ListSuppliersSchema = PaginationSchema.extend({
+  q: z.string().trim().max(100).optional(),
+});
+
+const CreateSupplierSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  contactName: z.string().trim().max(120).nullable().optional(),
+  email: z.string().trim().email().max(200).nullable().optional(),
+  phone: z.string().trim().max(40).nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  // Used for products without their own lead time (SupplierProduct.leadTimeDays).
+  defaultLeadTimeDays: z.number().int().min(0).max(365).nullable().optional(),
+});
+
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const parsed = ListSuppliersSchema.safeParse(searchParamsObject(req));
+  if (!parsed.success) return invalidRequest(parsed.error);
+  const query = parsed.data;
+
+  const where = query.q ? { name: { contains: query.q } } : {};
+  const [total, suppliers] = await prisma.$transaction([
+    prisma.supplier.count({ where }),
+    prisma.supplier.findMany({
+      where,
+      include: { _count: { select: { inventory: true, products: true } } },
+      orderBy: { name: "asc" },
+      ...paginate(query),
+    }),
+  ]);
+
+  return NextResponse.json({ suppliers, ...pageInfo(query, total) });
+}
+
+export async function POST(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const json = await req.json().catch(() => ({}));
+  const parsed = CreateSupplierSchema.safeParse(json);
+  if (!parsed.success) return invalidRequest(parsed.error, "Fournisseur invalide");
+
+  const existing = await prisma.supplier.findUnique({ where: { name: parsed.data.name } });
+  if (existing) return conflict("Un fournisseur porte déjà ce nom");
+
+  const supplier = await prisma.supplier.create({ data: parsed.data });
+  catalogChanged();
+
+  return NextResponse.json({ supplier }, { status: 201 });
+}
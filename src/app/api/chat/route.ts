@@ -1,20 +1,71 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { detectLanguageInfo, type SupportedLanguage } from "@/lib/language";
-import { ollamaChat, ollamaChatStream, type OllamaMessage } from "@/lib/ollama";
-import { openaiCompatChat, openaiCompatChatStream } from "@/lib/openaiCompat";
-import { parsePrescription, recommendFromInputs } from "@/lib/recommendation";
-import { formatCatalogContextForPrompt, searchCatalog } from "@/lib/catalogSearch";
+import { LlmProfileNotFoundError, publicProfileNames, type LlmMessage } from "@/lib/llmProviders";
+import {
+  DETERMINISTIC,
+  answeredBy,
+  chatStreamWithFailover,
+  chatWithFailover,
+  messageMetadata,
+  resolveLlmChain,
+} from "@/lib/llmFailover";
+import {
+  formatPrescription,
+  parseLensDesign,
+  isVisualNeed,
+  parsePrescriptionDetailed,
+  recommendFromInputs,
+  type Budget,
+  type LensDesign,
+  type VisualNeed,
+} from "@/lib/recommendation";
+import { formatCatalogContextForPrompt, searchCatalog, type CatalogHit } from "@/lib/catalogSearch";
+import { getCatalogIndex, matchCatalogQuery } from "@/lib/catalogIndex";
+import {
+  compareLensIndices,
+  formatThicknessComparison,
+  parseFrameMeasurements,
+  type ThicknessComparison,
+} from "@/lib/lensThickness";
+import { RankingProfileNotFoundError, resolveRankingProfile } from "@/lib/rankingProfiles";
+import { extractCustomerNeeds, mergeCustomerNeeds, type CustomerNeeds } from "@/lib/customerNeeds";
+import {
+  chatHeldQuantity,
+  chatHoldLimit,
+  getReservedQuantities,
+  reserveStock,
+  sweepExpiredReservations,
+} from "@/lib/reservations";
+import { InsufficientStockError } from "@/lib/inventoryLedger";
+import { buildReservationAnswer, getReservationRequest, type ReservationRequest } from "@/lib/reservationChat";
+import { checkStockAlertsAfterChat, recordDemandSignals } from "@/lib/stockAlerts";
+import { getEffectivePriceRanges, resolveQuoteCurrency, sweepScheduledPrices } from "@/lib/pricing";
+import { formatMoney } from "@/lib/currency";
+import { buildDegradedAnswer } from "@/lib/degradedAnswer";
+import {
+  buildAvailabilityAnswer,
+  formatHitLabel,
+  getAvailabilityQuestionType,
+  selectAvailabilityHits,
+  type AvailabilityHit,
+} from "@/lib/availabilityAnswer";
+import { postProcessAssistantChunk, postProcessAssistantText } from "@/lib/assistantText";
 import { prisma } from "@/lib/db";
+import { requireAdmin } from "@/lib/adminAuth";
 
 export const runtime = "nodejs";
 
 // Chat endpoint responsibilities:
 // - Accept a list of client-side messages (and optional chatId/messageId for regeneration)
 // - Detect language (FR/EN/AR/DZ) and enforce a language rule in the system prompt
-// - Parse prescription and derive a simple lens recommendation
-// - Retrieve compact catalog context from DB (price/stock only if explicitly asked)
-// - Call the LLM (Ollama by default; OpenAI-compatible if configured)
+// - Parse prescription + needs/budget (accumulated in chat memory) and derive a simple lens recommendation
+// - Retrieve compact catalog context from DB (price/stock only if explicitly asked; prices are today's
+//   effective prices, and running promotions are only shown alongside them)
+// - Answer stock questions and "reserve it for me" deterministically from the DB (no LLM)
+// - Record demand signals (products shown, stock questions) for low-stock alerts
+// - Call the LLM of the requested model profile, failing over along the fallback chain
+//   (src/lib/llmFailover.ts) down to a templated "degraded mode" answer (src/lib/degradedAnswer.ts)
 // - Persist user/assistant messages + maintain a lightweight summary and memory
 
 const MessageSchema = z.object({
@@ -28,6 +79,11 @@ const ChatRequestSchema = z.object({
   messages: z.array(MessageSchema).min(1),
   stream: z.boolean().optional(),
   clientRequestId: z.string().optional(),
+  // Catalog ranking: explicit profile name, or the store whose profile applies (defaults to STORE_CODE).
+  rankingProfile: z.string().min(1).optional(),
+  store: z.string().min(1).optional(),
+  // LLM model profile (src/lib/llmProviders.ts); defaults to LLM_PROFILE / the default profile.
+  llmProfile: z.string().min(1).optional(),
 });
 
 function safeRole(role: string): "user" | "assistant" | "system" {
@@ -82,6 +138,31 @@ async function upsertMemory(params: {
   });
 }
 
+async function getStoredCustomerNeeds(params: { chatId: string }): Promise<CustomerNeeds | undefined> {
+  const items = await prisma.chatMemory.findMany({
+    where: { scope: `chat:${params.chatId}`, key: { in: ["needs", "budget"] } },
+    select: { key: true, value: true },
+  });
+  if (items.length === 0) return undefined;
+
+  let needs: VisualNeed[] = [];
+  let budget: Budget | undefined;
+  for (const item of items) {
+    if (item.key === "needs") {
+      try {
+        const parsed: unknown = JSON.parse(item.value);
+        // Unknown values (older or hand-edited memory) are dropped rather than trusted.
+        if (Array.isArray(parsed)) needs = parsed.filter(isVisualNeed);
+      } catch {
+        // Ignore malformed memory; it will be overwritten on the next turn.
+      }
+    } else if (item.key === "budget" && (item.value === "basic" || item.value === "mid" || item.value === "premium")) {
+      budget = item.value;
+    }
+  }
+  return { needs, budget };
+}
+
 async function getMemoryText(params: { chatId: string }): Promise<string> {
   const items: Array<{ scope: string; key: string; value: string }> = await prisma.chatMemory.findMany({
     where: { scope: { in: ["global", `chat:${params.chatId}`] } },
@@ -96,7 +177,7 @@ async function getMemoryText(params: { chatId: string }): Promise<string> {
     .join("\n");
 }
 
-function getCommercialIntent(text: string): { price: boolean; availability: boolean } {
+function getCommercialIntent(text: string): { price: boolean; availability: boolean; explain: boolean } {
   // FR/EN/AR signals.
   const price =
     /(\bprix\b|\btarif\b|\bcombien\b|\bco[uû]t\b|\bprice\b|\bcost\b|\bhow\s*much\b|سعر|ثمن|بكم)/i.test(
@@ -108,7 +189,10 @@ function getCommercialIntent(text: string): { price: boolean; availability: bool
       text,
     );
 
-  return { price, availability };
+  // "Why this lens?" questions: expose the catalog ranking reasons to the model.
+  const explain = /(\bpourquoi\b|\bwhy\b|\b3lach\b|لماذا|علاش|ليش)/i.test(text);
+
+  return { price, availability, explain };
 }
 
 function isGreetingLike(text: string): boolean {
@@ -153,232 +237,84 @@ function detectExplicitLanguageRequest(text: string): SupportedLanguage | null {
   return null;
 }
 
-type AvailabilityQuestionType = "availability" | "quantity";
-
-function getAvailabilityQuestionType(text: string): AvailabilityQuestionType | null {
-  const t = text.trim();
-  if (!t) return null;
-
-  const isQuestionLike = (() => {
-    if (/[?؟]/.test(t)) return true;
-    // Interrogative phrasing in FR/EN/AR (common in chats without a question mark too).
-    if (/(\best-?ce\s+que\b|\bavez-?vous\b|\bvous\s+avez\b|\bdo\s+you\s+have\b|\bis\s+it\b|\bare\s+they\b|\bhow\s+many\b|\bcan\s+you\b|\bهل\b)/i.test(t)) {
-      return true;
-    }
-    // Very short messages like "stock", "en stock", "disponible" are usually questions.
-    const short = t.toLowerCase().replace(/\s+/g, " ").trim();
-    if (short.length <= 20 && /(\bstock\b|\ben\s+stock\b|\bdisponible\b|\bavailability\b|\bavailable\b|متوفر|موجود)/i.test(short)) {
-      return true;
-    }
-    return false;
-  })();
-
-  if (!isQuestionLike) return null;
-
-  // If it's clearly a price question (especially in Arabic), don't treat it as quantity/stock.
-  if (/(سعر|ثمن|بكم)/i.test(t)) return null;
-
-  const quantity =
-    /(\bquantit[eé]\b|\bquantity\b|\bcombien\b.*\b(avez|as|a|ont)\b|\bcombien\s+en\s+stock\b|\bhow\s+many\b|\bqty\b|\bqte\b|\bch7al\b|\bchhal\b|كم\s*(?:عندكم|لديكم)|الكمية|كمية|كم\s*\(?الكمية\)?)/i.test(
-      t,
-    );
-  if (quantity) return "quantity";
-
-  const availability =
-    /(\bavailable\b|\bavailability\b|\bdisponible\b|\bdisponibilit[eé]\b|\ben stock\b|\bstock\b|\bin store\b|\bin\s+shop\b|متوفر|موجود|التوفر|\bالمحل\b|\bفي\s*المحل\b)/i.test(
-      t,
-    );
-  return availability ? "availability" : null;
-}
-
-function formatHitLabel(h: { brand: string; family?: string | null; index: number }): string {
-  return `${h.brand}${h.family ? " " + h.family : ""} ${h.index.toFixed(2)}`;
-}
-
-function buildAvailabilityAnswer(params: {
+// Holds stock for this chat. The product is the one named in the message, otherwise the one
+// of the last availability answer ("is it in stock?" → "yes" → "reserve it for me").
+async function handleReservationRequest(params: {
   lang: SupportedLanguage;
+  chatId: string;
   userText: string;
-  hits: Array<{ brand: string; family?: string | null; index: number; sku: string; inventory: { quantity: number } | null }>;
-  type: AvailabilityQuestionType;
-}): string {
-  const { lang, userText, hits, type } = params;
-
-  const wantZeiss = /zeiss/i.test(userText);
-  const preferred = wantZeiss ? hits.filter((h) => h.brand.toLowerCase() === "zeiss") : hits;
-  const list = (preferred.length > 0 ? preferred : hits).slice(0, 3);
-
-  if (hits.length === 0) {
-    if (lang === "ar") {
-      return "حالياً ما لقيتش نفس المنتج في قاعدة البيانات، وما نقدرش نأكد الستوك. إذا تعطيني المرجع/SKU ولا اسم العائلة بالضبط نتحقق لك.";
-    }
-    if (lang === "dz") {
-      return "دروك ما لقيتش نفس المنتوج فالداتا، ما نقدرش نأكد الستوك. عطيني المرجع/SKU ولا الاسم بالضبط ونشوف لك.";
-    }
-    if (lang === "en") {
-      return "I couldn't find that exact product in the database, so I can't confirm the current stock. If you share the SKU/reference, I can check again.";
-    }
-    return "Je ne retrouve pas ce produit précisément dans la base, donc je ne peux pas confirmer le stock actuel. Donne-moi la référence/SKU (ou le nom exact) et je vérifie.";
-  }
-
-  const lines = list.map((h) => {
-    const qty = h.inventory?.quantity;
-    const qtyText = Number.isFinite(qty) ? String(qty) : "N/A";
-    return { label: formatHitLabel(h), sku: h.sku, qty: qty ?? null, qtyText };
-  });
-
-  // If user asks "is it available?" and we have one clear best match, answer directly.
-  const top = lines[0];
-  const topQty = top?.qty;
-
-  if (lang === "ar") {
-    if (type === "quantity") {
-      if (lines.length === 1) {
-        return `حسب قاعدة البيانات: الكمية الحالية لـ ${top.label} (SKU: ${top.sku}) هي ${top.qtyText}.`;
-      }
-      return [
-        "حسب قاعدة البيانات، هاذي الكميات الحالية (أفضل نتائج):",
-        ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
-      ].join("\n");
-    }
-
-    if (typeof topQty === "number") {
-      return topQty > 0
-        ? `نعم، متوفر حالياً. الستوك لـ ${top.label} (SKU: ${top.sku}) هو ${topQty}.`
-        : `حالياً غير متوفر (الستوك 0) لـ ${top.label} (SKU: ${top.sku}).`;
-    }
-
-    return [
-      "ما عنديش رقم ستوك واضح لهذا المنتج في قاعدة البيانات.",
-      ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
-    ].join("\n");
-  }
-
-  if (lang === "dz") {
-    if (type === "quantity") {
-      if (lines.length === 1) {
-        return `حسب الداتا: الكمية تاع ${top.label} (SKU: ${top.sku}) هي ${top.qtyText}.`;
-      }
-      return [
-        "حسب الداتا، هذو الكميات (أفضل نتائج):",
-        ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
-      ].join("\n");
-    }
-
-    if (typeof topQty === "number") {
-      return topQty > 0
-        ? `ايه متوفر دروك. الستوك تاع ${top.label} (SKU: ${top.sku}) هو ${topQty}.`
-        : `دروك راهو ماشي متوفر (ستوك 0) تاع ${top.label} (SKU: ${top.sku}).`;
-    }
-
-    return [
-      "ماكانش رقم ستوك واضح فالداتا لهذا المنتوج.",
-      ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
-    ].join("\n");
+  hits: CatalogHit[];
+  request: ReservationRequest;
+}): Promise<string> {
+  const { lang, chatId, userText, hits, request } = params;
+  const chatScope = `chat:${chatId}`;
+
+  const named = matchCatalogQuery(await getCatalogIndex(), userText);
+  const namesProduct = named.skuIds.length > 0 || named.familyIds.length > 0 || named.brands.length > 0;
+  const remembered = namesProduct
+    ? null
+    : await prisma.chatMemory.findUnique({
+        where: { scope_key: { scope: chatScope, key: "lastSku" } },
+        select: { value: true },
+      });
+  const sku = namesProduct ? hits[0]?.sku : remembered?.value;
+
+  const lens = sku
+    ? await prisma.lensProduct.findUnique({
+        where: { sku },
+        select: {
+          sku: true,
+          family: true,
+          index: true,
+          brand: { select: { name: true } },
+          inventory: { where: { isActive: true }, orderBy: { quantity: "desc" }, take: 1, select: { quantity: true } },
+        },
+      })
+    : null;
+  if (!lens) return buildReservationAnswer(lang, { kind: "unknown-product" });
+
+  const held = await chatHeldQuantity(chatId);
+  const max = chatHoldLimit();
+  if (held + request.quantity > max) {
+    return buildReservationAnswer(lang, { kind: "limit", quantity: request.quantity, held, max });
   }
 
-  if (lang === "en") {
-    if (type === "quantity") {
-      if (lines.length === 1) {
-        return `According to the database: current quantity for ${top.label} (SKU: ${top.sku}) is ${top.qtyText}.`;
-      }
-      return [
-        "According to the database, here are the current quantities (best matches):",
-        ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
-      ].join("\n");
-    }
-
-    if (typeof topQty === "number") {
-      return topQty > 0
-        ? `Yes, it's currently available. Stock for ${top.label} (SKU: ${top.sku}) is ${topQty}.`
-        : `Not available right now (stock 0) for ${top.label} (SKU: ${top.sku}).`;
-    }
-
-    return [
-      "I don't have a clear stock number for that item in the database.",
-      ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
-    ].join("\n");
-  }
+  const label = formatHitLabel({ brand: lens.brand.name, family: lens.family, index: lens.index });
+  const available = lens.inventory[0]?.quantity ?? 0;
+  const insufficient = { kind: "insufficient" as const, label, sku: lens.sku, quantity: request.quantity, available };
+  if (available < request.quantity) return buildReservationAnswer(lang, insufficient);
 
-  // fr
-  if (type === "quantity") {
-    if (lines.length === 1) {
-      return `D’après la base de données : la quantité actuelle pour ${top.label} (SKU : ${top.sku}) est ${top.qtyText}.`;
+  try {
+    const reservation = await reserveStock({ sku: lens.sku, quantity: request.quantity, chatId, user: "chat" });
+    await upsertMemory({ scope: chatScope, key: "lastSku", value: lens.sku });
+    return buildReservationAnswer(lang, {
+      kind: "reserved",
+      label,
+      sku: lens.sku,
+      quantity: reservation.quantity,
+      expiresAt: reservation.expiresAt,
+    });
+  } catch (e) {
+    // Taken by another conversation in the meantime.
+    if (e instanceof InsufficientStockError) {
+      return buildReservationAnswer(lang, insufficient);
     }
-    return [
-      "D’après la base de données, voici les quantités actuelles (meilleurs résultats) :",
-      ...lines.map((l) => `- ${l.label} (SKU : ${l.sku}) : ${l.qtyText}`),
-    ].join("\n");
-  }
-
-  if (typeof topQty === "number") {
-    return topQty > 0
-      ? `Oui, c’est disponible actuellement. Stock pour ${top.label} (SKU : ${top.sku}) : ${topQty}.`
-      : `Pas disponible pour le moment (stock 0) pour ${top.label} (SKU : ${top.sku}).`;
-  }
-
-  return [
-    "Je n’ai pas un chiffre de stock clair dans la base pour cet article.",
-    ...lines.map((l) => `- ${l.label} (SKU : ${l.sku}) : ${l.qtyText}`),
-  ].join("\n");
-}
-
-function sanitizeAssistantChunk(text: string): string {
-  // Streaming-safe sanitization: remove template artifacts without altering whitespace.
-  return text
-    .replace(/<\|im_start\|>/g, "")
-    .replace(/<\|im_end\|>/g, "")
-    .replace(/<\|assistant\|>/g, "")
-    .replace(/<\|user\|>/g, "")
-    .replace(/<\|system\|>/g, "")
-    .replace(/<\|endoftext\|>/g, "")
-    .replace(/\u0000/g, "")
-    .replace(/\r/g, "");
-}
-
-function filterDisallowedScriptsByLanguage(text: string, lang: SupportedLanguage): string {
-  // Defense-in-depth: models sometimes leak other scripts (Cyrillic/CJK/etc.) despite the prompt.
-  // We keep ASCII/Latin for SKUs, numbers and units.
-  const remove = (re: RegExp) => text.replace(re, "");
-
-  switch (lang) {
-    case "ar":
-      // Arabic + Latin allowed; strip Cyrillic and CJK/Hangul.
-      return remove(/[\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu);
-    case "dz":
-      // Darija may be Arabic script or Latin; same filtering as Arabic.
-      return remove(/[\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu);
-    case "fr":
-    case "en":
-    default:
-      // Latin only; strip Arabic, Cyrillic and CJK/Hangul.
-      return remove(/[\p{Script=Arabic}\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu);
+    throw e;
   }
 }
 
-function normalizeWhitespaceAfterFiltering(text: string): string {
-  return text
-    .replace(/[ \t]{2,}/g, " ")
-    .replace(/[ \t]+\n/g, "\n")
-    .replace(/\n{4,}/g, "\n\n\n");
-}
-
-function postProcessAssistantText(text: string, lang: SupportedLanguage): string {
-  const cleaned = sanitizeAssistantChunk(text);
-  const filtered = filterDisallowedScriptsByLanguage(cleaned, lang);
-  return normalizeWhitespaceAfterFiltering(filtered).trim();
-}
-
-function postProcessAssistantChunk(text: string, lang: SupportedLanguage): string {
-  // Streaming chunks must preserve leading/trailing whitespace; otherwise words get glued across chunks.
-  const cleaned = sanitizeAssistantChunk(text);
-  const filtered = filterDisallowedScriptsByLanguage(cleaned, lang);
-  return normalizeWhitespaceAfterFiltering(filtered);
+function formatDesignNote(design: LensDesign | undefined, add: number | undefined): string {
+  if (!design) return "(unknown)";
+  return add !== undefined ? `${design} (ADD +${add.toFixed(2)})` : design;
 }
 
 function makeSystemPrompt(lang: SupportedLanguage, ctx: {
   catalogContext: string;
   recommendation: ReturnType<typeof recommendFromInputs>;
   prescriptionText?: string;
+  prescriptionWarnings: string[];
+  thicknessComparison?: ThicknessComparison;
+  outOfRangeReason?: string;
   priceRangeText?: string;
   includePrice: boolean;
   includeAvailability: boolean;
@@ -413,13 +349,24 @@ function makeSystemPrompt(lang: SupportedLanguage, ctx: {
     "Important: Do NOT mention stock/availability unless the user explicitly asks if it is available / in stock / in store.",
     "If the user explicitly asks for a specific language (e.g., 'en arabe svp', 'in English please'), comply and answer in that language only.",
     "When the user asks availability in the store/shop (e.g., 'disponible ?', 'en stock ?', 'في المحل؟', 'متوفر؟'), answer using ONLY the catalog context stock. If stock=0, say it is not available right now.",
+    "If a product with stock=0 has onOrder≈N days, add that it can be ordered and should arrive in about N days (an estimate, not a promise).",
     "If catalog context contains stock=NUMBER for a product, do NOT say 'unknown' or 'not in the database' for stock; use that NUMBER.",
     "When the user asks price (e.g., 'prix ?', 'combien ?', 'سعر؟'), answer using ONLY the catalog context price.",
+    "A price written ≈AMOUNT (ORIGINAL) was converted to the store currency at the configured rate: quote AMOUNT and say it is approximate.",
+    "If a product line has promo=[...], its price=... is the promotional price: give it with the regular price and the end date of the promotion. Never mention promotions that are not in CATALOG_CONTEXT.",
     "If the user asks for price/availability and it is not in the catalog context, say you don't have it in the database.",
     "Never invent brands, SKUs, prices, availability, or stock.",
+    "Never say a product has been reserved or put aside: reservations are confirmed by the system, not by you.",
+    "When the user asks why a product is suggested, explain it using ONLY the why=[...] reasons of that product in CATALOG_CONTEXT.",
+    "When asked how much thinner/lighter one index is than another, use the thickness estimate in RECOMMENDATION_NOTES, say it is approximate (frame and centering change it), and never invent other numbers.",
+    "If PRESCRIPTION_WARNINGS is present, ask the customer to double-check those values on the prescription; never guess them.",
+    "If PRESCRIPTION_OUT_OF_RANGE is present, say that no lens in the catalog can be manufactured for this prescription, do not recommend a product, and suggest checking with the optician for a special order.",
     "Never claim 'blue light protection' unless the selected product has blueCut=yes OR coatings include BLUECUT in CATALOG_CONTEXT.",
     "Keep conversation context limited: only use the last user message + the provided catalog context + the provided recommendation notes.",
-    "When a prescription is present (SPH/CYL), give a recommendation: index (1.5/1.56/1.6/1.67/1.74) + coatings.",
+    "When a prescription is present (SPH/CYL), give a recommendation: index (1.5/1.56/1.6/1.67/1.74) + lens design + coatings.",
+    "Support these lens designs: single-vision (unifocal), progressive (progressif), office (dégressif/bureau), bifocal. Only propose products whose design=... matches the recommended design.",
+    "If the customer is presbyopic (ADD present, or asks for progressive/reading glasses) and ADD is missing, ask for the ADD value.",
+    "Prescriptions may differ per eye (OD = right, OG/OS = left). Use the same index for both lenses, as given in RECOMMENDATION_NOTES.",
     "Always recommend antireflective (AR) and typically hard coat + hydrophobic unless the user refuses.",
     "Explain photochromic technology when asked: activation by UV, temperature impact, indoor clear, car windshield limitation, and 'optimized for car' variants.",
     "Support these coatings: AR (antireflet), BLUECUT, PHOTO (photochromique), HARD (durci), HYDRO (hydrophobe).",
@@ -432,9 +379,15 @@ function makeSystemPrompt(lang: SupportedLanguage, ctx: {
     "",
     "RECOMMENDATION_NOTES:",
     `- Recommended index: ${ctx.recommendation.recommendedIndex ?? "(unknown)"}`,
+    `- Recommended design: ${formatDesignNote(ctx.recommendation.design, ctx.recommendation.add)}`,
     `- Desired coatings codes: ${ctx.recommendation.coatings.join(", ")}`,
     ...ctx.recommendation.rationale.map((r) => `- ${r}`),
     ctx.prescriptionText ? `- Prescription parsed from text: ${ctx.prescriptionText}` : "",
+    ctx.prescriptionWarnings.length ? "PRESCRIPTION_WARNINGS:" : "",
+    ...ctx.prescriptionWarnings.map((w) => `- ${w}`),
+    ...(ctx.thicknessComparison ? formatThicknessComparison(ctx.thicknessComparison).map((l) => `- ${l}`) : []),
+    ctx.outOfRangeReason ? "PRESCRIPTION_OUT_OF_RANGE:" : "",
+    ctx.outOfRangeReason ? `- ${ctx.outOfRangeReason}` : "",
     ctx.includePrice && ctx.priceRangeText ? "PRICE_RANGE_IN_DB:" : "",
     ctx.includePrice && ctx.priceRangeText ? ctx.priceRangeText : "",
   ]
@@ -444,8 +397,14 @@ function makeSystemPrompt(lang: SupportedLanguage, ctx: {
 
 export async function POST(req: Request) {
   try {
-    const json = await req.json();
+    const json = await req.json().catch(() => ({}));
     const body = ChatRequestSchema.parse(json);
+    // Customers may only pick the allowlisted profiles; staff (admin token) may pick any.
+    if (body.llmProfile && !publicProfileNames().includes(body.llmProfile) && requireAdmin(req)) {
+      return NextResponse.json({ error: `Profil LLM non autorisé: ${body.llmProfile}` }, { status: 403 });
+    }
+    // Resolved first: an unknown profile is rejected before anything is stored.
+    const llmChain = await resolveLlmChain(body.llmProfile);
 
     const lastUser = [...body.messages].reverse().find((m) => m.role === "user");
     const fallbackUserText = lastUser?.content ?? "";
@@ -497,37 +456,69 @@ export async function POST(req: Request) {
         ? storedLang
         : detection.lang;
 
-    // Parse prescription from last user message (simple, can be expanded).
-    const prescription = parsePrescription(userText);
-    const recommendation = recommendFromInputs({ prescription, needs: [] });
+    // Parse prescription from last user message (normalized to minus-cyl; invalid values become warnings).
+    const parsedPrescription = parsePrescriptionDetailed(userText);
+    const prescription = parsedPrescription?.prescription;
+    const prescriptionWarnings = parsedPrescription?.warnings ?? [];
+
+    // Needs/budget accumulate over the conversation through chat memory.
+    const storedNeeds = body.chatId ? await getStoredCustomerNeeds({ chatId: body.chatId }) : undefined;
+    const customerNeeds = mergeCustomerNeeds(storedNeeds, extractCustomerNeeds(userText));
+
+    const recommendation = recommendFromInputs({
+      prescription,
+      needs: customerNeeds.needs,
+      budget: customerNeeds.budget,
+      design: parseLensDesign(userText),
+    });
+
+    // Approximate thickness/weight per index, for "how much thinner is 1.67 vs 1.6?" questions.
+    const thicknessComparison = prescription
+      ? (compareLensIndices({ prescription, frame: parseFrameMeasurements(userText) }) ?? null)
+      : null;
 
     const availabilityQuestionType = getAvailabilityQuestionType(userText);
+    const reservationRequest = getReservationRequest(userText);
 
     const intent = getCommercialIntent(userText);
     const includeAvailability = intent.availability || availabilityQuestionType !== null;
     const includePrice = intent.price && availabilityQuestionType !== "quantity";
 
-    const hits = await searchCatalog({ userText, recommendation, limit: 6 });
+    const store = body.store ?? process.env.STORE_CODE;
+    const ranking = await resolveRankingProfile({ profile: body.rankingProfile, store });
+    const quoteCurrency = includePrice ? await resolveQuoteCurrency(store) : null;
+
+    // Expired holds go back to stock and due price changes apply before anything is read.
+    await sweepExpiredReservations();
+    await sweepScheduledPrices();
+
+    const { hits, outOfRange, outOfRangeReason } = await searchCatalog({
+      userText,
+      recommendation,
+      prescription,
+      ranking,
+      limit: 6,
+    });
+    const prescriptionOutOfRange = outOfRangeReason ? { reason: outOfRangeReason, products: outOfRange } : null;
 
     const catalogContext = formatCatalogContextForPrompt(hits, {
       includePrice,
       includeAvailability,
+      includeReasons: intent.explain,
+      outOfRangeReason,
+      lang,
+      quoteCurrency,
     });
 
     let priceRangeText: string | undefined;
     if (includePrice) {
-      const priceAgg = await prisma.inventoryItem.aggregate({
-        where: { isActive: true },
-        _min: { priceCents: true, currency: true },
-        _max: { priceCents: true, currency: true },
-      });
-
-      const min = priceAgg._min.priceCents ?? null;
-      const max = priceAgg._max.priceCents ?? null;
-      const currency = priceAgg._min.currency ?? priceAgg._max.currency ?? "DZD";
+      // One range per currency: min/max across currencies would compare dinars with euros.
+      const ranges = await getEffectivePriceRanges(quoteCurrency);
+      const money = (cents: number, currency: string) => formatMoney(cents, currency, lang);
       priceRangeText =
-        min !== null && max !== null
-          ? `basic≈${Math.round(min / 100)} ${currency} | premium≈${Math.round(max / 100)} ${currency} (d’après la DB)`
+        ranges.length > 0
+          ? ranges.map((r) => `basic≈${money(r.minCents, r.currency)} | premium≈${money(r.maxCents, r.currency)}`).join("\n") +
+            "\n(d’après la DB, promotions incluses)"
           : "(Aucune donnée prix active dans la DB)";
     }
 
@@ -567,22 +558,60 @@ export async function POST(req: Request) {
       throw new Error("userMessageId is missing after user message persistence");
     }
 
-    // Deterministic handling for stock/quantity questions to avoid hallucinations.
+    // Saved before the deterministic answers below, which return without reaching the LLM path.
+    if (customerNeeds.needs.length > 0) {
+      await upsertMemory({ scope: chatScope, key: "needs", value: JSON.stringify(customerNeeds.needs) });
+    }
+    if (customerNeeds.budget) {
+      await upsertMemory({ scope: chatScope, key: "budget", value: customerNeeds.budget });
+    }
+
+    // Deterministic handling for reservations and stock/quantity questions to avoid hallucinations.
     // This answers ONLY from DB hits and respects the detected/stored language.
-    if (availabilityQuestionType) {
-      const deterministic = buildAvailabilityAnswer({
+    let deterministic: string | null = null;
+    let answeredStock: Array<{ sku: string; quantity: number | null }> = [];
+    if (reservationRequest) {
+      deterministic = await handleReservationRequest({ lang, chatId, userText, hits, request: reservationRequest });
+    } else if (availabilityQuestionType) {
+      const reserved = await getReservedQuantities(
+        hits.flatMap((h) => (h.inventory ? [h.inventory.id] : [])),
+        chatId,
+      );
+      const availabilityHits: AvailabilityHit[] = hits.map((h) => ({
+        brand: h.brand,
+        family: h.family,
+        index: h.index,
+        sku: h.sku,
+        inventory: h.inventory
+          ? { quantity: h.inventory.quantity, reserved: 0, mine: 0, ...reserved.get(h.inventory.id) }
+          : null,
+        leadTimeDays: h.orderLeadTimeDays,
+      }));
+      deterministic = buildAvailabilityAnswer({
         lang,
         userText,
-        hits: hits.map((h) => ({
-          brand: h.brand,
-          family: h.family,
-          index: h.index,
-          sku: h.sku,
-          inventory: h.inventory ? { quantity: h.inventory.quantity } : null,
-        })),
+        hits: availabilityHits,
         type: availabilityQuestionType,
       });
 
+      const answered = selectAvailabilityHits(availabilityHits, userText);
+      answeredStock = answered.map((h) => ({ sku: h.sku, quantity: h.inventory?.quantity ?? null }));
+      // Remembered so that "reserve it for me" on the next turn targets this product.
+      if (answered[0]) await upsertMemory({ scope: chatScope, key: "lastSku", value: answered[0].sku });
+    }
+
+    // Demand signals feed the low-stock alerts; alert evaluation/notification runs in the background.
+    const outOfStockLensIds = await recordDemandSignals({
+      chatId,
+      surfaced: hits.map((h) => h.sku),
+      availability: answeredStock,
+    }).catch((e: unknown) => {
+      console.error("[stock-alerts] signaux de demande non enregistrés", e);
+      return [];
+    });
+    void checkStockAlertsAfterChat({ outOfStockLensIds });
+
+    if (deterministic !== null) {
       const answer = postProcessAssistantText(deterministic, lang);
 
       if (body.stream) {
@@ -597,6 +626,7 @@ export async function POST(req: Request) {
                 chatId,
                 role: "assistant",
                 content: answer,
+                metadata: messageMetadata(DETERMINISTIC),
               },
               select: { id: true },
             });
@@ -638,6 +668,7 @@ export async function POST(req: Request) {
           chatId,
           role: "assistant",
           content: answer,
+          metadata: messageMetadata(DETERMINISTIC),
         },
         select: { id: true },
       });
@@ -662,7 +693,18 @@ export async function POST(req: Request) {
         select: { id: true },
       });
 
-      return NextResponse.json({ chatId, userMessageId, language: lang, answer, catalogHits: hits, recommendation });
+      return NextResponse.json({
+        chatId,
+        userMessageId,
+        language: lang,
+        answer,
+        answeredBy: DETERMINISTIC,
+        catalogHits: hits,
+        recommendation,
+        prescriptionWarnings,
+        prescriptionOutOfRange,
+        thicknessComparison,
+      });
     }
 
     // Update lightweight memory from deterministic signals.
@@ -678,7 +720,10 @@ export async function POST(req: Request) {
     const system = makeSystemPrompt(lang, {
       catalogContext,
       recommendation,
-      prescriptionText: prescription ? JSON.stringify(prescription) : undefined,
+      prescriptionText: prescription ? formatPrescription(prescription) : undefined,
+      prescriptionWarnings: prescriptionWarnings.filter((w) => w.severity === "warning").map((w) => w.message),
+      thicknessComparison: thicknessComparison ?? undefined,
+      outOfRangeReason,
       priceRangeText,
       includePrice,
       includeAvailability,
@@ -703,16 +748,24 @@ export async function POST(req: Request) {
       "Use the chat history below to stay consistent with the previous conversation.",
     ].join("\n");
 
-    const history: OllamaMessage[] = recent
+    const history: LlmMessage[] = recent
       .filter((m: { role: string }) => m.role !== "system")
-      .map((m: { role: string; content: string }) => ({ role: safeRole(m.role), content: m.content }) satisfies OllamaMessage)
+      .map((m: { role: string; content: string }) => ({ role: safeRole(m.role), content: m.content }) satisfies LlmMessage)
       .slice(-12);
 
-    const llmMessages: OllamaMessage[] = [{ role: "system", content: systemWithMemory }, ...history];
+    const llmMessages: LlmMessage[] = [{ role: "system", content: systemWithMemory }, ...history];
 
-    const llmProvider = (process.env.LLM_PROVIDER ?? "ollama").toLowerCase();
-    const useOpenAICompat = llmProvider === "openai-compat" || llmProvider === "openai_compat";
-    const temperature = 0.2;
+    // Degraded mode, when every provider of the chain failed: templated from the recommendation and hits.
+    const degradedAnswer = () =>
+      buildDegradedAnswer({
+        lang,
+        recommendation,
+        hits,
+        includePrice,
+        quoteCurrency,
+        hasPrescription: Boolean(prescription),
+        outOfRange: outOfRange.length > 0,
+      });
 
     if (body.stream) {
       const stream = new ReadableStream<Uint8Array>({
@@ -720,9 +773,12 @@ export async function POST(req: Request) {
           const encoder = new TextEncoder();
           let full = "";
           try {
-            const gen = useOpenAICompat
-              ? openaiCompatChatStream({ messages: llmMessages, temperature })
-              : ollamaChatStream({ messages: llmMessages, temperature });
+            const opened = await chatStreamWithFailover(llmChain, { messages: llmMessages });
+            const gen =
+              opened.chunks ??
+              (async function* () {
+                yield degradedAnswer();
+              })();
 
             for await (const chunk of gen) {
               const cleanedChunk = postProcessAssistantChunk(chunk, lang);
@@ -738,6 +794,7 @@ export async function POST(req: Request) {
                 chatId,
                 role: "assistant",
                 content: full,
+                metadata: messageMetadata(opened.llm ? answeredBy(opened.llm) : DETERMINISTIC, opened.failures),
               },
               select: { id: true },
             });
@@ -791,13 +848,17 @@ export async function POST(req: Request) {
       });
       headers.set("X-Chat-Id", chatId);
       headers.set("X-User-Message-Id", userMessageId);
+      // Structured extras for the UI travel in headers since the body is plain streamed text.
+      if (thicknessComparison) {
+        headers.set("X-Thickness-Comparison", encodeURIComponent(JSON.stringify(thicknessComparison)));
+      }
 
       return new Response(stream, { status: 200, headers });
     }
 
-    const rawAnswer = useOpenAICompat
-      ? await openaiCompatChat({ messages: llmMessages, temperature })
-      : await ollamaChat({ messages: llmMessages, temperature });
+    const result = await chatWithFailover(llmChain, { messages: llmMessages });
+    const rawAnswer = result.text ?? degradedAnswer();
+    const by = result.llm ? answeredBy(result.llm) : DETERMINISTIC;
 
     const answer = postProcessAssistantText(rawAnswer, lang);
 
@@ -806,6 +867,7 @@ export async function POST(req: Request) {
         chatId,
         role: "assistant",
         content: answer,
+        metadata: messageMetadata(by, result.failures),
       },
       select: { id: true },
     });
@@ -843,9 +905,27 @@ export async function POST(req: Request) {
       select: { id: true },
     });
 
-    return NextResponse.json({ chatId, userMessageId, language: lang, answer, catalogHits: hits, recommendation });
+    return NextResponse.json({
+      chatId,
+      userMessageId,
+      language: lang,
+      answer,
+      answeredBy: by,
+      catalogHits: hits,
+      recommendation,
+      prescriptionWarnings,
+      prescriptionOutOfRange,
+      thicknessComparison,
+    });
   } catch (e) {
     console.error("[api/chat] error", e);
+    if (e instanceof RankingProfileNotFoundError) {
+      return NextResponse.json({ error: e.message }, { status: 404 });
+    }
+    // Only the caller's mistakes are 400s: an invalid body or an unknown model profile.
+    if (e instanceof z.ZodError || e instanceof LlmProfileNotFoundError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
     const msg = e instanceof Error ? e.message : "Unknown error";
 
     const isSqliteOpenError =
@@ -861,19 +941,6 @@ export async function POST(req: Request) {
       );
     }
 
-    const isOllamaHttpError = /Ollama error\s+\d+:/i.test(msg);
-    const isOllamaConnError = /ECONNREFUSED|fetch failed|getaddrinfo|ENOTFOUND/i.test(msg);
-    if (isOllamaHttpError || isOllamaConnError) {
-      return NextResponse.json(
-        {
-          error: "Ollama indisponible ou modèle non prêt.",
-          details: msg,
-          hint: "Vérifie que Ollama tourne et que le modèle est installé (ex: `ollama pull qwen2.5:7b-instruct`).",
-        },
-        { status: 502 },
-      );
-    }
-
-    return NextResponse.json({ error: msg }, { status: 400 });
+    return NextResponse.json({ error: msg }, { status: 500 });
   }
 }
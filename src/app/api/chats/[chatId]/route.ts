@@ -30,6 +30,7 @@ export async function GET(_req: Request, ctx: { params: Promise<{ chatId: string
           id: true,
           role: true,
           content: true,
+          metadata: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -39,7 +40,9 @@ export async function GET(_req: Request, ctx: { params: Promise<{ chatId: string
 
   if (!chat) return NextResponse.json({ error: "Chat introuvable" }, { status: 404 });
 
-  return NextResponse.json({ chat });
+  // metadata is stored as JSON text (who answered, failed LLM attempts).
+  const messages = chat.messages.map((m) => ({ ...m, metadata: m.metadata ? JSON.parse(m.metadata) : null }));
+  return NextResponse.json({ chat: { ...chat, messages } });
 }
 
 export async function PATCH(req: Request, ctx: { params: Promise<{ chatId: string }> }) {
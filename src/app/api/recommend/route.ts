@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { normalizePrescription } from "@/lib/prescriptionNormalize";
+import { BUDGETS, LENS_DESIGNS, recommendFromInputs, VISUAL_NEEDS } from "@/lib/recommendation";
+import { searchCatalog, type CatalogHit } from "@/lib/catalogSearch";
+import { compareLensIndices } from "@/lib/lensThickness";
+import { RankingProfileNotFoundError, resolveRankingProfile } from "@/lib/rankingProfiles";
+import { resolveQuoteCurrency, sweepScheduledPrices, type PriceRange } from "@/lib/pricing";
+import { quotePrice } from "@/lib/currency";
+import { sweepExpiredReservations } from "@/lib/reservations";
+
+export const runtime = "nodejs";
+
+// Deterministic recommendation endpoint (in-store tablet, POS integration):
+// - Accept a structured prescription, needs, budget and frame measurements (no free-text parsing)
+// - Reuse the same recommendation + catalog ranking as the chat, without any LLM call
+// - Never read or write chat sessions/memory
+
+const EyeSchema = z.object({
+  sph: z.number().optional(),
+  cyl: z.number().optional(),
+  axis: z.number().int().optional(),
+  add: z.number().optional(),
+});
+
+const RecommendRequestSchema = z.object({
+  prescription: z
+    .object({
+      od: EyeSchema.optional(),
+      os: EyeSchema.optional(),
+    })
+    .optional(),
+  needs: z.array(z.enum(VISUAL_NEEDS)).max(10).optional(),
+  budget: z.enum(BUDGETS).optional(),
+  design: z.enum(LENS_DESIGNS).optional(),
+  frame: z
+    .object({
+      eyeSizeMm: z.number().min(30).max(80).optional(),
+      bridgeMm: z.number().min(10).max(30).optional(),
+      pdMm: z.number().min(45).max(80).optional(),
+    })
+    .optional(),
+  // Optional extra keywords (brand, family, ...) matched against the catalog.
+  query: z.string().max(500).optional(),
+  limit: z.number().int().min(1).max(20).optional(),
+  // Catalog ranking: explicit profile name, or the store whose profile applies (defaults to STORE_CODE).
+  rankingProfile: z.string().min(1).optional(),
+  store: z.string().min(1).optional(),
+});
+
+// One range per currency; prices are converted to the store's quote currency when a rate is known.
+function priceRangesFromHits(hits: CatalogHit[], quoteCurrency: string | null): PriceRange[] {
+  const byCurrency = new Map<string, PriceRange>();
+  for (const hit of hits) {
+    if (!hit.inventory) continue;
+    const quoted = quotePrice(hit.inventory.priceCents, hit.inventory.currency, quoteCurrency);
+    const { currency, amountMinor: priceCents } = quoted;
+    const range = byCurrency.get(currency);
+    if (!range) {
+      byCurrency.set(currency, { currency, minCents: priceCents, maxCents: priceCents });
+    } else {
+      range.minCents = Math.min(range.minCents, priceCents);
+      range.maxCents = Math.max(range.maxCents, priceCents);
+    }
+  }
+  return [...byCurrency.values()];
+}
+
+export async function POST(req: Request) {
+  try {
+    const json = await req.json().catch(() => ({}));
+    const body = RecommendRequestSchema.parse(json);
+
+    const normalized = body.prescription ? normalizePrescription(body.prescription) : undefined;
+    const prescription = normalized?.prescription;
+
+    const recommendation = recommendFromInputs({
+      prescription,
+      needs: body.needs,
+      budget: body.budget,
+      design: body.design,
+    });
+
+    const store = body.store ?? process.env.STORE_CODE;
+    const ranking = await resolveRankingProfile({ profile: body.rankingProfile, store });
+    const quoteCurrency = await resolveQuoteCurrency(store);
+
+    await sweepScheduledPrices();
+    // Expired holds go back to stock before availability is ranked.
+    await sweepExpiredReservations();
+
+    const { hits, outOfRange, outOfRangeReason } = await searchCatalog({
+      userText: body.query ?? "",
+      recommendation,
+      prescription,
+      ranking,
+      limit: body.limit ?? 5,
+    });
+
+    const thicknessComparison = prescription
+      ? compareLensIndices({ prescription, frame: body.frame }) ?? null
+      : null;
+
+    return NextResponse.json({
+      recommendation,
+      rankingProfile: { name: ranking.name, source: ranking.source },
+      hits: hits.map((hit, i) => ({ rank: i + 1, ...hit })),
+      priceRanges: priceRangesFromHits(hits, quoteCurrency),
+      prescription: prescription ?? null,
+      prescriptionWarnings: normalized?.warnings ?? [],
+      prescriptionOutOfRange: outOfRangeReason ? { reason: outOfRangeReason, products: outOfRange } : null,
+      thicknessComparison,
+    });
+  } catch (e) {
+    console.error("[api/recommend] error", e);
+    if (e instanceof z.ZodError) {
+      return NextResponse.json({ error: "Requête invalide", details: e.issues }, { status: 400 });
+    }
+    if (e instanceof RankingProfileNotFoundError) {
+      return NextResponse.json({ error: e.message }, { status: 404 });
+    }
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,971 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  CircleSlash,
+  KeyRound,
+  LoaderCircle,
+  Pencil,
+  Plus,
+  RefreshCcw,
+  Save,
+  X,
+} from "lucide-react";
+import { formatMoney, toMajor, toMinor } from "@/lib/currency";
+
+// Catalog back-office for store staff, on top of the /api/catalog/* routes.
+// "Suggéré par le bot" = at least one active inventory line: exactly the filter applied by searchCatalog.
+
+type Design = "single-vision" | "progressive" | "office" | "bifocal";
+
+type InventoryItem = {
+  id: string;
+  lensId: string;
+  supplierId: string | null;
+  priceCents: number;
+  currency: string;
+  quantity: number;
+  isActive: boolean;
+  updatedAt: string;
+};
+
+type Product = {
+  id: string;
+  sku: string;
+  brandId: string;
+  brand: { id: string; name: string };
+  family: string | null;
+  index: number;
+  material: string | null;
+  isAspheric: boolean;
+  design: Design;
+  minSph: number | null;
+  maxSph: number | null;
+  minCyl: number | null;
+  maxCyl: number | null;
+  photochromic: boolean;
+  photochromicTechId: string | null;
+  photochromicTech: { id: string; name: string } | null;
+  blueCut: boolean;
+  description: string | null;
+  coatings: string[];
+  lowStockThreshold: number | null;
+  inventory: InventoryItem[];
+  suggestable: boolean;
+};
+
+type Brand = { id: string; name: string };
+type PhotochromicTech = { id: string; name: string };
+type Supplier = { id: string; name: string };
+
+type Coating = {
+  id: string;
+  code: string;
+  labelFr: string;
+  labelEn: string;
+  labelAr: string | null;
+  labelDarija: string | null;
+  _count?: { lensCoatings: number };
+};
+
+type ProductDraft = {
+  sku: string;
+  brandId: string;
+  family: string;
+  index: string;
+  material: string;
+  isAspheric: boolean;
+  design: Design;
+  minSph: string;
+  maxSph: string;
+  minCyl: string;
+  maxCyl: string;
+  photochromic: boolean;
+  photochromicTechId: string;
+  blueCut: boolean;
+  description: string;
+  coatings: string[];
+  lowStockThreshold: string;
+};
+
+const DESIGN_LABELS: Record<Design, string> = {
+  "single-vision": "Unifocal",
+  progressive: "Progressif",
+  office: "Dégressif",
+  bifocal: "Bifocal",
+};
+
+const INDICES = ["1.5", "1.56", "1.6", "1.67", "1.74"];
+
+const TOKEN_STORAGE_KEY = "ol-admin-token";
+
+const inputClass = "w-full rounded-md border ol-border ol-surface-strong px-2 py-1 text-xs";
+const chipClass =
+  "ol-chip inline-flex items-center gap-1.5 rounded-md border ol-border ol-surface-strong px-2 py-1 text-[11px] shadow-sm disabled:opacity-60";
+const primaryClass =
+  "ol-chip ol-primary-btn inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-medium shadow-sm disabled:opacity-60";
+
+function numberOrNull(value: string): number | null {
+  const v = value.trim().replace(",", ".");
+  if (!v) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function countOrNull(value: string): number | null {
+  const n = numberOrNull(value);
+  return n === null ? null : Math.max(0, Math.trunc(n));
+}
+
+function emptyDraft(): ProductDraft {
+  return {
+    sku: "",
+    brandId: "",
+    family: "",
+    index: "1.5",
+    material: "",
+    isAspheric: false,
+    design: "single-vision",
+    minSph: "",
+    maxSph: "",
+    minCyl: "",
+    maxCyl: "",
+    photochromic: false,
+    photochromicTechId: "",
+    blueCut: false,
+    description: "",
+    coatings: [],
+    lowStockThreshold: "",
+  };
+}
+
+function draftFromProduct(p: Product): ProductDraft {
+  const s = (n: number | null) => (n === null ? "" : String(n));
+  return {
+    sku: p.sku,
+    brandId: p.brandId,
+    family: p.family ?? "",
+    index: String(p.index),
+    material: p.material ?? "",
+    isAspheric: p.isAspheric,
+    design: p.design,
+    minSph: s(p.minSph),
+    maxSph: s(p.maxSph),
+    minCyl: s(p.minCyl),
+    maxCyl: s(p.maxCyl),
+    photochromic: p.photochromic,
+    photochromicTechId: p.photochromicTechId ?? "",
+    blueCut: p.blueCut,
+    description: p.description ?? "",
+    coatings: p.coatings,
+    lowStockThreshold: s(p.lowStockThreshold),
+  };
+}
+
+function draftToBody(d: ProductDraft) {
+  return {
+    sku: d.sku.trim(),
+    brandId: d.brandId,
+    family: d.family.trim() || null,
+    index: Number(d.index),
+    material: d.material.trim() || null,
+    isAspheric: d.isAspheric,
+    design: d.design,
+    minSph: numberOrNull(d.minSph),
+    maxSph: numberOrNull(d.maxSph),
+    minCyl: numberOrNull(d.minCyl),
+    maxCyl: numberOrNull(d.maxCyl),
+    photochromic: d.photochromic,
+    photochromicTechId: d.photochromic && d.photochromicTechId ? d.photochromicTechId : null,
+    blueCut: d.blueCut,
+    description: d.description.trim() || null,
+    coatings: d.coatings,
+    lowStockThreshold: countOrNull(d.lowStockThreshold),
+  };
+}
+
+function SuggestableBadge(props: { suggestable: boolean }) {
+  return props.suggestable ? (
+    <span className="inline-flex items-center gap-1 rounded-full bg-emerald-500/15 px-2 py-0.5 text-[11px] font-medium text-emerald-600">
+      <CheckCircle2 className="h-3.5 w-3.5" aria-hidden="true" />
+      Suggéré par le bot
+    </span>
+  ) : (
+    <span
+      className="ol-text-muted inline-flex items-center gap-1 rounded-full border ol-border px-2 py-0.5 text-[11px]"
+      title="Aucune ligne d’inventaire active : le bot ne propose pas ce produit."
+    >
+      <CircleSlash className="h-3.5 w-3.5" aria-hidden="true" />
+      Masqué (aucun stock actif)
+    </span>
+  );
+}
+
+export default function CatalogAdmin() {
+  const [token, setToken] = useState("");
+  const [tokenInput, setTokenInput] = useState("");
+  const [tab, setTab] = useState<"products" | "coatings">("products");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const saved = window.localStorage.getItem(TOKEN_STORAGE_KEY) ?? "";
+    setToken(saved);
+    setTokenInput(saved);
+    const theme = window.localStorage.getItem("ol-theme");
+    if (theme === "light" || theme === "dark") document.documentElement.dataset.theme = theme;
+  }, []);
+
+  const api = useCallback(
+    async <T,>(path: string, init?: RequestInit): Promise<T> => {
+      const res = await fetch(path, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+          ...init?.headers,
+        },
+      });
+      const data = (await res.json().catch(() => ({}))) as T & { error?: string };
+      if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+      return data;
+    },
+    [token],
+  );
+
+  const run = useCallback(async (fn: () => Promise<void>) => {
+    setError(null);
+    try {
+      await fn();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erreur inconnue");
+    }
+  }, []);
+
+  return (
+    <div className="mx-auto flex max-w-6xl flex-col gap-4">
+      <div className="ol-card rounded-2xl border ol-border ol-surface p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Link href="/" className={chipClass} title="Retour au chat">
+              <ArrowLeft className="h-3.5 w-3.5" aria-hidden="true" />
+              Chat
+            </Link>
+            <div>
+              <div className="text-lg font-semibold">Catalogue OptiLens</div>
+              <div className="ol-text-muted text-sm">
+                Verres, stock et traitements. Le bot ne suggère que les verres avec une ligne d’inventaire active.
+              </div>
+            </div>
+          </div>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              window.localStorage.setItem(TOKEN_STORAGE_KEY, tokenInput.trim());
+              setToken(tokenInput.trim());
+            }}
+          >
+            <KeyRound className="ol-text-muted h-4 w-4" aria-hidden="true" />
+            <input
+              type="password"
+              className={`${inputClass} w-48`}
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder="ADMIN_TOKEN"
+              title="Jeton d’administration"
+            />
+            <button type="submit" className={primaryClass}>
+              OK
+            </button>
+          </form>
+        </div>
+
+        <div className="mt-3 flex gap-2">
+          <button
+            className={tab === "products" ? primaryClass : chipClass}
+            onClick={() => setTab("products")}
+            type="button"
+          >
+            Verres
+          </button>
+          <button
+            className={tab === "coatings" ? primaryClass : chipClass}
+            onClick={() => setTab("coatings")}
+            type="button"
+          >
+            Traitements
+          </button>
+        </div>
+
+        {error ? (
+          <div className="mt-3 flex items-start justify-between gap-2 rounded-lg border border-red-400/40 bg-red-500/10 px-3 py-2 text-xs text-red-600">
+            <span>{error}</span>
+            <button type="button" onClick={() => setError(null)} aria-label="Fermer">
+              <X className="h-3.5 w-3.5" aria-hidden="true" />
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      {!token ? (
+        <div className="ol-card rounded-2xl border ol-border ol-surface p-4 text-sm ol-text-muted">
+          Saisis le jeton d’administration (variable ADMIN_TOKEN du serveur) pour accéder au catalogue.
+        </div>
+      ) : tab === "products" ? (
+        <ProductsPanel api={api} run={run} />
+      ) : (
+        <CoatingsPanel api={api} run={run} />
+      )}
+    </div>
+  );
+}
+
+type Api = <T>(path: string, init?: RequestInit) => Promise<T>;
+type Run = (fn: () => Promise<void>) => Promise<void>;
+
+function ProductsPanel(props: { api: Api; run: Run }) {
+  const { api, run } = props;
+  const [products, setProducts] = useState<Product[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState({ q: "", brandId: "", design: "", suggestable: "" });
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [techs, setTechs] = useState<PhotochromicTech[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [coatingCodes, setCoatingCodes] = useState<string[]>([]);
+  // null = closed, "new" = creation form, otherwise the edited product id.
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    await run(async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: "20" });
+      for (const [key, value] of Object.entries(filters)) if (value) params.set(key, value);
+      const data = await api<{ products: Product[]; total: number; pageCount: number }>(
+        `/api/catalog/products?${params}`,
+      );
+      setProducts(data.products);
+      setTotal(data.total);
+      setPageCount(data.pageCount);
+    });
+    setLoading(false);
+  }, [api, run, page, filters]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    void run(async () => {
+      const [b, t, c, s] = await Promise.all([
+        api<{ brands: Brand[] }>("/api/catalog/brands?pageSize=100"),
+        api<{ photochromicTechs: PhotochromicTech[] }>("/api/catalog/photochromic-techs?pageSize=100"),
+        api<{ coatings: Coating[] }>("/api/catalog/coatings?pageSize=100"),
+        api<{ suppliers: Supplier[] }>("/api/catalog/suppliers?pageSize=100"),
+      ]);
+      setBrands(b.brands);
+      setTechs(t.photochromicTechs);
+      setSuppliers(s.suppliers);
+      setCoatingCodes(c.coatings.map((x) => x.code));
+    });
+  }, [api, run]);
+
+  const edited = editing && editing !== "new" ? products.find((p) => p.id === editing) : undefined;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr_380px]">
+      <div className="ol-card rounded-2xl border ol-border ol-surface p-4 shadow-sm">
+        <div className="flex flex-wrap items-end gap-2">
+          <input
+            className={`${inputClass} w-48`}
+            value={filters.q}
+            onChange={(e) => {
+              setPage(1);
+              setFilters((f) => ({ ...f, q: e.target.value }));
+            }}
+            placeholder="SKU, famille, description…"
+            title="Recherche"
+          />
+          <select
+            className={`${inputClass} w-36`}
+            value={filters.brandId}
+            onChange={(e) => {
+              setPage(1);
+              setFilters((f) => ({ ...f, brandId: e.target.value }));
+            }}
+            title="Marque"
+          >
+            <option value="">Toutes marques</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className={`${inputClass} w-32`}
+            value={filters.design}
+            onChange={(e) => {
+              setPage(1);
+              setFilters((f) => ({ ...f, design: e.target.value }));
+            }}
+            title="Design"
+          >
+            <option value="">Tous designs</option>
+            {Object.entries(DESIGN_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={`${inputClass} w-40`}
+            value={filters.suggestable}
+            onChange={(e) => {
+              setPage(1);
+              setFilters((f) => ({ ...f, suggestable: e.target.value }));
+            }}
+            title="Visibilité bot"
+          >
+            <option value="">Tous</option>
+            <option value="true">Suggérés par le bot</option>
+            <option value="false">Masqués</option>
+          </select>
+          <button type="button" className={chipClass} onClick={() => void load()} disabled={loading}>
+            {loading ? (
+              <LoaderCircle className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+            ) : (
+              <RefreshCcw className="h-3.5 w-3.5" aria-hidden="true" />
+            )}
+            Actualiser
+          </button>
+          <button type="button" className={primaryClass} onClick={() => setEditing("new")}>
+            <Plus className="h-3.5 w-3.5" aria-hidden="true" />
+            Nouveau verre
+          </button>
+        </div>
+
+        <div className="mt-3 overflow-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="ol-text-faint">
+                <th className="py-1 pr-3 font-medium">SKU</th>
+                <th className="py-1 pr-3 font-medium">Marque / famille</th>
+                <th className="py-1 pr-3 font-medium">Indice</th>
+                <th className="py-1 pr-3 font-medium">Design</th>
+                <th className="py-1 pr-3 font-medium">Options</th>
+                <th className="py-1 pr-3 font-medium">Stock</th>
+                <th className="py-1 pr-3 font-medium">Bot</th>
+                <th className="py-1 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((p) => {
+                const active = p.inventory.filter((i) => i.isActive);
+                const quantity = active.reduce((sum, i) => sum + i.quantity, 0);
+                return (
+                  <tr key={p.id} className={editing === p.id ? "ol-soft-bg" : undefined}>
+                    <td className="py-1 pr-3 font-mono">{p.sku}</td>
+                    <td className="py-1 pr-3">
+                      {p.brand.name}
+                      {p.family ? <span className="ol-text-muted"> • {p.family}</span> : null}
+                    </td>
+                    <td className="py-1 pr-3 font-mono">{p.index.toFixed(2)}</td>
+                    <td className="py-1 pr-3">{DESIGN_LABELS[p.design] ?? p.design}</td>
+                    <td className="py-1 pr-3">
+                      {[...p.coatings, p.photochromic ? "PHOTO" : null, p.blueCut ? "BLUECUT" : null]
+                        .filter((c, i, all) => c && all.indexOf(c) === i)
+                        .join(", ")}
+                    </td>
+                    <td className="py-1 pr-3">{active.length ? quantity : "—"}</td>
+                    <td className="py-1 pr-3">
+                      <SuggestableBadge suggestable={p.suggestable} />
+                    </td>
+                    <td className="py-1">
+                      <button type="button" className={chipClass} onClick={() => setEditing(p.id)}>
+                        <Pencil className="h-3.5 w-3.5" aria-hidden="true" />
+                        Modifier
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {products.length === 0 && !loading ? (
+                <tr>
+                  <td colSpan={8} className="ol-text-muted py-3">
+                    Aucun verre ne correspond aux filtres.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="ol-text-muted mt-3 flex items-center justify-between text-xs">
+          <span>{total} verre(s)</span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className={chipClass}
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+            >
+              Précédent
+            </button>
+            <span>
+              {page} / {pageCount}
+            </span>
+            <button
+              type="button"
+              className={chipClass}
+              onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+              disabled={page >= pageCount}
+            >
+              Suivant
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {editing ? (
+        <ProductEditor
+          key={editing}
+          api={api}
+          run={run}
+          product={edited}
+          brands={brands}
+          techs={techs}
+          suppliers={suppliers}
+          coatingCodes={coatingCodes}
+          onClose={() => setEditing(null)}
+          onSaved={(p) => {
+            setEditing(p.id);
+            void load();
+          }}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+function ProductEditor(props: {
+  api: Api;
+  run: Run;
+  product?: Product;
+  brands: Brand[];
+  techs: PhotochromicTech[];
+  suppliers: Supplier[];
+  coatingCodes: string[];
+  onClose: () => void;
+  onSaved: (product: Product) => void;
+}) {
+  const { api, run, product } = props;
+  const [draft, setDraft] = useState<ProductDraft>(() => (product ? draftFromProduct(product) : emptyDraft()));
+  const [saving, setSaving] = useState(false);
+
+  const set = <K extends keyof ProductDraft>(key: K, value: ProductDraft[K]) =>
+    setDraft((d) => ({ ...d, [key]: value }));
+
+  const save = async () => {
+    setSaving(true);
+    await run(async () => {
+      const data = await api<{ product: Product }>(
+        product ? `/api/catalog/products/${product.id}` : "/api/catalog/products",
+        { method: product ? "PATCH" : "POST", body: JSON.stringify(draftToBody(draft)) },
+      );
+      props.onSaved(data.product);
+    });
+    setSaving(false);
+  };
+
+  const field = (label: string, input: React.ReactNode) => (
+    <label className="flex flex-col gap-0.5 text-[11px]">
+      <span className="ol-text-faint">{label}</span>
+      {input}
+    </label>
+  );
+
+  return (
+    <div className="ol-card flex flex-col gap-3 rounded-2xl border ol-border ol-surface p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold">{product ? `Modifier ${product.sku}` : "Nouveau verre"}</div>
+        <button type="button" className={chipClass} onClick={props.onClose} aria-label="Fermer">
+          <X className="h-3.5 w-3.5" aria-hidden="true" />
+        </button>
+      </div>
+      {product ? <SuggestableBadge suggestable={product.suggestable} /> : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        {field("SKU", <input className={inputClass} value={draft.sku} onChange={(e) => set("sku", e.target.value)} />)}
+        {field(
+          "Marque",
+          <select className={inputClass} value={draft.brandId} onChange={(e) => set("brandId", e.target.value)}>
+            <option value="">—</option>
+            {props.brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>,
+        )}
+        {field(
+          "Famille",
+          <input className={inputClass} value={draft.family} onChange={(e) => set("family", e.target.value)} />,
+        )}
+        {field(
+          "Indice",
+          <select className={inputClass} value={draft.index} onChange={(e) => set("index", e.target.value)}>
+            {INDICES.map((i) => (
+              <option key={i} value={i}>
+                {Number(i).toFixed(2)}
+              </option>
+            ))}
+          </select>,
+        )}
+        {field(
+          "Design",
+          <select
+            className={inputClass}
+            value={draft.design}
+            onChange={(e) => set("design", e.target.value as Design)}
+          >
+            {Object.entries(DESIGN_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>,
+        )}
+        {field(
+          "Matériau",
+          <input className={inputClass} value={draft.material} onChange={(e) => set("material", e.target.value)} />,
+        )}
+        {field("SPH min", <input className={inputClass} value={draft.minSph} onChange={(e) => set("minSph", e.target.value)} />)}
+        {field("SPH max", <input className={inputClass} value={draft.maxSph} onChange={(e) => set("maxSph", e.target.value)} />)}
+        {field("CYL min", <input className={inputClass} value={draft.minCyl} onChange={(e) => set("minCyl", e.target.value)} />)}
+        {field("CYL max", <input className={inputClass} value={draft.maxCyl} onChange={(e) => set("maxCyl", e.target.value)} />)}
+        {field(
+          "Seuil alerte stock",
+          <input
+            className={inputClass}
+            inputMode="numeric"
+            placeholder="défaut"
+            value={draft.lowStockThreshold}
+            onChange={(e) => set("lowStockThreshold", e.target.value)}
+          />,
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs">
+        <label className="inline-flex items-center gap-1.5">
+          <input type="checkbox" checked={draft.isAspheric} onChange={(e) => set("isAspheric", e.target.checked)} />
+          Asphérique
+        </label>
+        <label className="inline-flex items-center gap-1.5">
+          <input type="checkbox" checked={draft.blueCut} onChange={(e) => set("blueCut", e.target.checked)} />
+          BlueCut
+        </label>
+        <label className="inline-flex items-center gap-1.5">
+          <input type="checkbox" checked={draft.photochromic} onChange={(e) => set("photochromic", e.target.checked)} />
+          Photochromique
+        </label>
+      </div>
+      {draft.photochromic
+        ? field(
+            "Technologie photochromique",
+            <select
+              className={inputClass}
+              value={draft.photochromicTechId}
+              onChange={(e) => set("photochromicTechId", e.target.value)}
+            >
+              <option value="">—</option>
+              {props.techs.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>,
+          )
+        : null}
+
+      <div className="flex flex-col gap-1 text-[11px]">
+        <span className="ol-text-faint">Traitements</span>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {props.coatingCodes.map((code) => (
+            <label key={code} className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={draft.coatings.includes(code)}
+                onChange={(e) =>
+                  set("coatings", e.target.checked ? [...draft.coatings, code] : draft.coatings.filter((c) => c !== code))
+                }
+              />
+              {code}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {field(
+        "Description",
+        <textarea
+          className={`${inputClass} min-h-16`}
+          value={draft.description}
+          onChange={(e) => set("description", e.target.value)}
+        />,
+      )}
+
+      <button type="button" className={primaryClass} onClick={() => void save()} disabled={saving}>
+        {saving ? (
+          <LoaderCircle className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+        ) : (
+          <Save className="h-3.5 w-3.5" aria-hidden="true" />
+        )}
+        Enregistrer
+      </button>
+
+      {product ? (
+        <InventoryEditor
+          key={product.inventory.map((i) => `${i.id}:${i.updatedAt}`).join(",")}
+          api={api}
+          run={run}
+          product={product}
+          suppliers={props.suppliers}
+          onChanged={() => props.onSaved(product)}
+        />
+      ) : (
+        <div className="ol-text-muted text-xs">
+          Enregistre le verre puis ajoute une ligne d’inventaire active pour que le bot puisse le proposer.
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InventoryEditor(props: {
+  api: Api;
+  run: Run;
+  product: Product;
+  suppliers: Supplier[];
+  onChanged: () => void;
+}) {
+  const { api, run, product } = props;
+  const [rows, setRows] = useState(() =>
+    product.inventory.map((i) => ({ ...i, price: String(toMajor(i.priceCents, i.currency)), qty: String(i.quantity) })),
+  );
+
+  const saveRow = (id: string) =>
+    run(async () => {
+      const row = rows.find((r) => r.id === id);
+      if (!row) return;
+      await api(`/api/catalog/inventory/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          priceCents: toMinor(numberOrNull(row.price) ?? 0, row.currency),
+          quantity: Math.max(0, Math.trunc(numberOrNull(row.qty) ?? 0)),
+          supplierId: row.supplierId || null,
+          isActive: row.isActive,
+        }),
+      });
+      props.onChanged();
+    });
+
+  const addRow = () =>
+    run(async () => {
+      await api("/api/catalog/inventory", {
+        method: "POST",
+        body: JSON.stringify({ lensId: product.id, priceCents: 0, quantity: 0, isActive: false }),
+      });
+      props.onChanged();
+    });
+
+  const update = (id: string, patch: Partial<(typeof rows)[number]>) =>
+    setRows((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="flex flex-col gap-2 border-t ol-border pt-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold">Inventaire</div>
+        <button type="button" className={chipClass} onClick={() => void addRow()}>
+          <Plus className="h-3.5 w-3.5" aria-hidden="true" />
+          Ligne
+        </button>
+      </div>
+      {rows.length === 0 ? <div className="ol-text-muted text-xs">Aucune ligne d’inventaire.</div> : null}
+      {rows.map((r) => (
+        <div key={r.id} className="grid grid-cols-[1fr_70px_1fr] items-end gap-2 rounded-lg border ol-border p-2">
+          <label className="flex flex-col gap-0.5 text-[11px]">
+            <span className="ol-text-faint">Prix ({r.currency})</span>
+            <input className={inputClass} value={r.price} onChange={(e) => update(r.id, { price: e.target.value })} />
+          </label>
+          <label className="flex flex-col gap-0.5 text-[11px]">
+            <span className="ol-text-faint">Qté</span>
+            <input className={inputClass} value={r.qty} onChange={(e) => update(r.id, { qty: e.target.value })} />
+          </label>
+          <label className="flex flex-col gap-0.5 text-[11px]">
+            <span className="ol-text-faint">Fournisseur</span>
+            <select
+              className={inputClass}
+              value={r.supplierId ?? ""}
+              onChange={(e) => update(r.id, { supplierId: e.target.value || null })}
+            >
+              <option value="">—</option>
+              {props.suppliers.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-2 inline-flex items-center gap-1.5 text-xs">
+            <input type="checkbox" checked={r.isActive} onChange={(e) => update(r.id, { isActive: e.target.checked })} />
+            Active (visible par le bot)
+            <span className="ol-text-faint">• {formatMoney(r.priceCents, r.currency)} enregistré</span>
+          </label>
+          <button type="button" className={chipClass} onClick={() => void saveRow(r.id)}>
+            <Save className="h-3.5 w-3.5" aria-hidden="true" />
+            Enregistrer
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CoatingsPanel(props: { api: Api; run: Run }) {
+  const { api, run } = props;
+  const [coatings, setCoatings] = useState<Coating[]>([]);
+  const [creating, setCreating] = useState({ code: "", labelFr: "", labelEn: "", labelAr: "", labelDarija: "" });
+
+  const load = useCallback(
+    () =>
+      run(async () => {
+        const data = await api<{ coatings: Coating[] }>("/api/catalog/coatings?pageSize=100");
+        setCoatings(data.coatings);
+      }),
+    [api, run],
+  );
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const update = (id: string, patch: Partial<Coating>) =>
+    setCoatings((cs) => cs.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  const save = (c: Coating) =>
+    run(async () => {
+      await api(`/api/catalog/coatings/${c.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          labelFr: c.labelFr,
+          labelEn: c.labelEn,
+          labelAr: c.labelAr?.trim() || null,
+          labelDarija: c.labelDarija?.trim() || null,
+        }),
+      });
+      await load();
+    });
+
+  const create = () =>
+    run(async () => {
+      await api("/api/catalog/coatings", {
+        method: "POST",
+        body: JSON.stringify({
+          ...creating,
+          code: creating.code.trim().toUpperCase(),
+          labelAr: creating.labelAr.trim() || null,
+          labelDarija: creating.labelDarija.trim() || null,
+        }),
+      });
+      setCreating({ code: "", labelFr: "", labelEn: "", labelAr: "", labelDarija: "" });
+      await load();
+    });
+
+  return (
+    <div className="ol-card rounded-2xl border ol-border ol-surface p-4 shadow-sm">
+      <div className="overflow-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="ol-text-faint">
+              <th className="py-1 pr-2 font-medium">Code</th>
+              <th className="py-1 pr-2 font-medium">Libellé FR</th>
+              <th className="py-1 pr-2 font-medium">Libellé EN</th>
+              <th className="py-1 pr-2 font-medium">Libellé AR</th>
+              <th className="py-1 pr-2 font-medium">Darija</th>
+              <th className="py-1 pr-2 font-medium">Verres</th>
+              <th className="py-1 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {coatings.map((c) => (
+              <tr key={c.id}>
+                <td className="py-1 pr-2 font-mono">{c.code}</td>
+                <td className="py-1 pr-2">
+                  <input className={inputClass} value={c.labelFr} onChange={(e) => update(c.id, { labelFr: e.target.value })} />
+                </td>
+                <td className="py-1 pr-2">
+                  <input className={inputClass} value={c.labelEn} onChange={(e) => update(c.id, { labelEn: e.target.value })} />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    dir="rtl"
+                    className={inputClass}
+                    value={c.labelAr ?? ""}
+                    onChange={(e) => update(c.id, { labelAr: e.target.value })}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    className={inputClass}
+                    value={c.labelDarija ?? ""}
+                    onChange={(e) => update(c.id, { labelDarija: e.target.value })}
+                  />
+                </td>
+                <td className="ol-text-muted py-1 pr-2">{c._count?.lensCoatings ?? 0}</td>
+                <td className="py-1">
+                  <button type="button" className={chipClass} onClick={() => void save(c)}>
+                    <Save className="h-3.5 w-3.5" aria-hidden="true" />
+                    Enregistrer
+                  </button>
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td className="py-1 pr-2">
+                <input
+                  className={`${inputClass} font-mono`}
+                  value={creating.code}
+                  onChange={(e) => setCreating((n) => ({ ...n, code: e.target.value }))}
+                  placeholder="CODE"
+                />
+              </td>
+              {(["labelFr", "labelEn", "labelAr", "labelDarija"] as const).map((key) => (
+                <td key={key} className="py-1 pr-2">
+                  <input
+                    dir={key === "labelAr" ? "rtl" : undefined}
+                    className={inputClass}
+                    value={creating[key]}
+                    onChange={(e) => setCreating((n) => ({ ...n, [key]: e.target.value }))}
+                  />
+                </td>
+              ))}
+              <td />
+              <td className="py-1">
+                <button type="button" className={primaryClass} onClick={() => void create()}>
+                  <Plus className="h-3.5 w-3.5" aria-hidden="true" />
+                  Ajouter
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeSanitize from "rehype-sanitize";
@@ -10,6 +11,7 @@ import {
   LoaderCircle,
   MessageCircle,
   Moon,
+  Package,
   Pencil,
   Plus,
   RefreshCcw,
@@ -20,6 +22,7 @@ import {
   User,
   X,
 } from "lucide-react";
+import type { ThicknessComparison } from "@/lib/lensThickness";
 
 type Role = "user" | "assistant";
 
@@ -27,6 +30,8 @@ type Message = {
   id?: string;
   role: Role;
   content: string;
+  // Index comparison returned by /api/chat when a prescription was given (not persisted).
+  thickness?: ThicknessComparison;
 };
 
 type ChatSummary = {
@@ -116,6 +121,52 @@ function MessageMarkdown(props: { content: string }) {
   );
 }
 
+function ThicknessTable(props: { comparison: ThicknessComparison }) {
+  const { frame, assumedFrame, rows } = props.comparison;
+  return (
+    <div className="mt-3 overflow-auto rounded-xl border ol-border ol-soft-bg p-2">
+      <div className="ol-text-muted mb-1 text-[11px]">
+        Épaisseur / poids estimés (approx.) • monture {frame.eyeSizeMm}□{frame.bridgeMm}, EP {frame.pdMm}
+        {assumedFrame ? " (mesures par défaut)" : ""}
+      </div>
+      <table className="w-full text-left text-xs">
+        <thead>
+          <tr className="ol-text-faint">
+            <th className="py-1 pr-3 font-medium">Indice</th>
+            <th className="py-1 pr-3 font-medium">Centre</th>
+            <th className="py-1 pr-3 font-medium">Bord</th>
+            <th className="py-1 pr-3 font-medium">Poids (paire)</th>
+            <th className="py-1 font-medium">vs 1.50</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.index}>
+              <td className="py-0.5 pr-3 font-mono">{r.index.toFixed(2)}</td>
+              <td className="py-0.5 pr-3">{r.centerMm} mm</td>
+              <td className="py-0.5 pr-3">{r.edgeMm} mm</td>
+              <td className="py-0.5 pr-3">{r.weightG} g</td>
+              <td className="py-0.5">
+                {r.relativeThickness === 1 ? "—" : `-${Math.round((1 - r.relativeThickness) * 100)}% épaisseur`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function readThicknessHeader(res: Response): ThicknessComparison | undefined {
+  const raw = res.headers.get("x-thickness-comparison");
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(decodeURIComponent(raw)) as ThicknessComparison;
+  } catch {
+    return undefined;
+  }
+}
+
 function nowId() {
   return Math.random().toString(16).slice(2);
 }
@@ -174,7 +225,15 @@ export default function ChatUI(props: { embed?: boolean }) {
       data.chat?.messages
         ?.filter((m) => m.role === "user" || m.role === "assistant")
         .map((m) => ({ id: m.id, role: m.role as Role, content: m.content })) ?? [];
-    setMessages(ensureGreetingIfEmpty(mapped));
+    // Keep non-persisted extras (thickness tables) attached to the synced messages.
+    setMessages((prev) =>
+      ensureGreetingIfEmpty(
+        mapped.map((m) => {
+          const local = prev.find((p) => p.thickness && p.role === m.role && p.content === m.content);
+          return local ? { ...m, thickness: local.thickness } : m;
+        }),
+      ),
+    );
   }
 
   async function copyToClipboard(text: string) {
@@ -406,14 +465,20 @@ export default function ChatUI(props: { embed?: boolean }) {
         });
       }
       if (contentType.includes("application/json")) {
-        const data = (await res.json()) as { answer?: string; error?: string };
+        const data = (await res.json()) as {
+          answer?: string;
+          error?: string;
+          thicknessComparison?: ThicknessComparison | null;
+        };
         const answer = data.answer ?? "(Réponse vide)";
+        const thickness = data.thicknessComparison ?? undefined;
         setMessages((prev) => {
           const copy = [...prev];
-          if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: answer };
+          if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: answer, thickness };
           return copy;
         });
       } else {
+        const thickness = readThicknessHeader(res);
         const reader = res.body?.getReader();
         if (!reader) throw new Error("Streaming non supporté par le navigateur.");
 
@@ -425,7 +490,7 @@ export default function ChatUI(props: { embed?: boolean }) {
           full += decoder.decode(value, { stream: true });
           setMessages((prev) => {
             const copy = [...prev];
-            if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: full };
+            if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: full, thickness };
             return copy;
           });
           requestAnimationFrame(() => {
@@ -538,6 +603,7 @@ export default function ChatUI(props: { embed?: boolean }) {
         throw new Error(textBody || `HTTP ${res.status}`);
       }
 
+      const thickness = readThicknessHeader(res);
       const reader = res.body?.getReader();
       if (!reader) throw new Error("Streaming non supporté par le navigateur.");
 
@@ -549,7 +615,7 @@ export default function ChatUI(props: { embed?: boolean }) {
         full += decoder.decode(value, { stream: true });
         setMessages((prev) => {
           const copy = [...prev];
-          if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: full };
+          if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: full, thickness };
           return copy;
         });
         requestAnimationFrame(() => {
@@ -645,6 +711,7 @@ export default function ChatUI(props: { embed?: boolean }) {
         throw new Error(textBody || `HTTP ${res.status}`);
       }
 
+      const thickness = readThicknessHeader(res);
       const reader = res.body?.getReader();
       if (!reader) throw new Error("Streaming non supporté par le navigateur.");
 
@@ -656,7 +723,7 @@ export default function ChatUI(props: { embed?: boolean }) {
         full += decoder.decode(value, { stream: true });
         setMessages((prev) => {
           const copy = [...prev];
-          if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: full };
+          if (copy[assistantIndex]) copy[assistantIndex] = { role: "assistant", content: full, thickness };
           return copy;
         });
         requestAnimationFrame(() => {
@@ -813,6 +880,16 @@ export default function ChatUI(props: { embed?: boolean }) {
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                {props.embed ? null : (
+                  <Link
+                    href="/admin"
+                    className="ol-chip ol-icon-btn inline-flex items-center gap-2 rounded-full border ol-border ol-surface-strong px-3 py-1.5 text-xs shadow-sm"
+                    title="Catalogue (back-office)"
+                  >
+                    <Package className="h-4 w-4" aria-hidden="true" />
+                    <span>Catalogue</span>
+                  </Link>
+                )}
                 {props.embed ? null : (
                   <button
                     type="button"
@@ -920,6 +997,7 @@ export default function ChatUI(props: { embed?: boolean }) {
                       <div className="flex items-start justify-between gap-3">
                         <div className="min-w-0 flex-1">
                           <MessageMarkdown content={m.content} />
+                          {m.role === "assistant" && m.thickness ? <ThicknessTable comparison={m.thickness} /> : null}
                         </div>
                         <div className="ol-msg-actions shrink-0 flex items-center gap-1">
                       {m.role === "user" && m.id && selectedChatId ? (
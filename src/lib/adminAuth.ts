@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import crypto from "node:crypto";
+
+// Admin routes (/api/admin/*, /api/catalog/*) are protected by a shared token:
+// `Authorization: Bearer <ADMIN_TOKEN>` or `X-Admin-Token: <ADMIN_TOKEN>`.
+// There are no user accounts yet; the token identifies "store staff" as a whole.
+
+function readToken(req: Request): string | null {
+  const auth = req.headers.get("authorization");
+  if (auth?.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return req.headers.get("x-admin-token")?.trim() || null;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ha = crypto.createHash("sha256").update(a).digest();
+  const hb = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(ha, hb);
+}
+
+// Returns an error response when the request is not authorized, null otherwise.
+export function requireAdmin(req: Request): NextResponse | null {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    return NextResponse.json(
+      {
+        error: "Administration désactivée.",
+        hint: "Définis ADMIN_TOKEN dans .env.local pour activer les routes d’administration.",
+      },
+      { status: 503 },
+    );
+  }
+
+  const token = readToken(req);
+  if (!token || !safeEqual(token, expected)) {
+    return NextResponse.json({ error: "Non autorisé" }, { status: 401 });
+  }
+  return null;
+}
+
+// Staff member behind an admin request, for audit trails (free text, optional).
+export function adminActor(req: Request): string | null {
+  return req.headers.get("x-admin-user")?.trim().slice(0, 80) || null;
+}
@@ -0,0 +1,193 @@
+import net from "node:net";
+import os from "node:os";
+
+// Delivery channels for stock alerts. ALERT_NOTIFIERS lists the enabled ones ("inbox" by default):
+// - inbox:   alerts stay in the StockAlert table, listed by GET /api/admin/stock-alerts
+// - webhook: JSON POST to ALERT_WEBHOOK_URL
+// - email:   plain-text mail through an SMTP relay without auth/TLS (ALERT_SMTP_HOST, e.g. a local
+//            MailHog / smtp4dev stand-in), from ALERT_EMAIL_FROM to ALERT_EMAIL_TO
+// New channels plug in with registerAlertNotifier().
+
+export type StockAlertNotice = {
+  alertId: string;
+  sku: string;
+  label: string;
+  level: "low" | "out";
+  // Escalation of an existing alert (low → out) rather than a new one.
+  escalated: boolean;
+  quantity: number;
+  threshold: number;
+  surfacedCount: number;
+  availabilityCount: number;
+  missedCount: number;
+  windowDays: number;
+};
+
+export type AlertNotifier = {
+  name: string;
+  send(notices: StockAlertNotice[]): Promise<void>;
+};
+
+type NotifierFactory = () => AlertNotifier | null;
+
+const factories = new Map<string, NotifierFactory>();
+
+export function registerAlertNotifier(name: string, factory: NotifierFactory): void {
+  factories.set(name, factory);
+}
+
+// Enabled notifiers; unknown or unconfigured names are skipped with a warning.
+export function getAlertNotifiers(): AlertNotifier[] {
+  const names = (process.env.ALERT_NOTIFIERS ?? "inbox")
+    .split(",")
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+
+  const notifiers: AlertNotifier[] = [];
+  for (const name of names) {
+    const notifier = factories.get(name)?.() ?? null;
+    if (notifier) notifiers.push(notifier);
+    else console.warn(`[stock-alerts] notifier "${name}" inconnu ou non configuré`);
+  }
+  return notifiers;
+}
+
+export function formatNoticeLine(n: StockAlertNotice): string {
+  const state = n.level === "out" ? "RUPTURE" : `stock bas (${n.quantity} ≤ ${n.threshold})`;
+  const demand =
+    `${n.surfacedCount} suggestion(s), ${n.availabilityCount} question(s) de stock ` +
+    `dont ${n.missedCount} à 0, sur ${n.windowDays} j`;
+  return `${n.escalated ? "[aggravation] " : ""}${n.label} (SKU ${n.sku}) : ${state} — ${demand}`;
+}
+
+function formatNoticeText(notices: StockAlertNotice[]): string {
+  return [
+    "Alertes de stock OptiLens",
+    "",
+    ...notices.map((n) => `- ${formatNoticeLine(n)}`),
+    "",
+    "Détails et acquittement : /api/admin/stock-alerts",
+  ].join("\n");
+}
+
+// --- inbox ---
+
+registerAlertNotifier("inbox", () => ({
+  name: "inbox",
+  // Alerts are persisted before notifiers run; the inbox is the StockAlert table itself.
+  send: async () => {},
+}));
+
+// --- webhook ---
+
+registerAlertNotifier("webhook", () => {
+  const url = process.env.ALERT_WEBHOOK_URL;
+  if (!url) return null;
+  return {
+    name: "webhook",
+    send: async (notices) => {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "stock-alerts", text: formatNoticeText(notices), alerts: notices }),
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (!res.ok) throw new Error(`Webhook HTTP ${res.status}`);
+    },
+  };
+});
+
+// --- email (minimal SMTP client) ---
+
+async function sendSmtpMail(params: {
+  host: string;
+  port: number;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}): Promise<void> {
+  const socket = net.createConnection({ host: params.host, port: params.port });
+  socket.setEncoding("utf8");
+  socket.setTimeout(15_000, () => socket.destroy(new Error("SMTP: délai dépassé")));
+
+  let buffer = "";
+  const waiters: Array<{ resolve: (line: string) => void; reject: (err: Error) => void }> = [];
+  let failure: Error | null = null;
+  const fail = (err: Error) => {
+    failure ??= err;
+    for (const waiter of waiters.splice(0)) waiter.reject(failure);
+  };
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    // A reply is complete on a line "NNN text" (multi-line replies use "NNN-text").
+    let idx: number;
+    while ((idx = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 2);
+      if (/^\d{3} /.test(line) || /^\d{3}$/.test(line)) waiters.shift()?.resolve(line);
+    }
+  });
+  socket.on("error", fail);
+  // Also follows a server-side end: a reply still awaited will never come.
+  socket.on("close", () => fail(new Error("SMTP: connexion fermée par le serveur")));
+
+  const reply = () =>
+    new Promise<string>((resolve, reject) => {
+      if (failure) reject(failure);
+      else waiters.push({ resolve, reject });
+    });
+  const expect = async (code: string, command?: string) => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const line = await reply();
+    if (!line.startsWith(code)) throw new Error(`SMTP: réponse inattendue à ${command ?? "connexion"}: ${line}`);
+  };
+
+  try {
+    await expect("220");
+    await expect("250", `EHLO ${os.hostname() || "localhost"}`);
+    await expect("250", `MAIL FROM:<${params.from}>`);
+    for (const rcpt of params.to) await expect("250", `RCPT TO:<${rcpt}>`);
+    await expect("354", "DATA");
+
+    const body = params.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+    const message = [
+      `From: ${params.from}`,
+      `To: ${params.to.join(", ")}`,
+      `Subject: =?UTF-8?B?${Buffer.from(params.subject, "utf8").toString("base64")}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+      "",
+      body,
+      ".",
+    ].join("\r\n");
+    await expect("250", message);
+    socket.write("QUIT\r\n");
+  } finally {
+    socket.end();
+  }
+}
+
+registerAlertNotifier("email", () => {
+  const host = process.env.ALERT_SMTP_HOST;
+  const to = (process.env.ALERT_EMAIL_TO ?? "")
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+  if (!host || to.length === 0) return null;
+
+  return {
+    name: "email",
+    send: (notices) =>
+      sendSmtpMail({
+        host,
+        port: Number(process.env.ALERT_SMTP_PORT ?? 1025),
+        from: process.env.ALERT_EMAIL_FROM ?? "optilens@localhost",
+        to,
+        subject: `OptiLens : ${notices.length} alerte(s) de stock`,
+        text: formatNoticeText(notices),
+      }),
+  };
+});
@@ -0,0 +1,57 @@
+import type { SupportedLanguage } from "@/lib/language";
+
+// Clean-up of assistant text before it reaches the customer or the DB: chat-template artifacts,
+// and characters of scripts the answer's language does not use.
+
+function sanitizeAssistantChunk(text: string): string {
+  // Streaming-safe sanitization: remove template artifacts without altering whitespace.
+  return text
+    .replace(/<\|im_start\|>/g, "")
+    .replace(/<\|im_end\|>/g, "")
+    .replace(/<\|assistant\|>/g, "")
+    .replace(/<\|user\|>/g, "")
+    .replace(/<\|system\|>/g, "")
+    .replace(/<\|endoftext\|>/g, "")
+    .replace(/\u0000/g, "")
+    .replace(/\r/g, "");
+}
+
+function filterDisallowedScriptsByLanguage(text: string, lang: SupportedLanguage): string {
+  // Defense-in-depth: models sometimes leak other scripts (Cyrillic/CJK/etc.) despite the prompt.
+  // We keep ASCII/Latin for SKUs, numbers and units.
+  const remove = (re: RegExp) => text.replace(re, "");
+
+  switch (lang) {
+    case "ar":
+      // Arabic + Latin allowed; strip Cyrillic and CJK/Hangul.
+      return remove(/[\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu);
+    case "dz":
+      // Darija may be Arabic script or Latin; same filtering as Arabic.
+      return remove(/[\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu);
+    case "fr":
+    case "en":
+    default:
+      // Latin only; strip Arabic, Cyrillic and CJK/Hangul.
+      return remove(/[\p{Script=Arabic}\p{Script=Cyrillic}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu);
+  }
+}
+
+function normalizeWhitespaceAfterFiltering(text: string): string {
+  return text
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{4,}/g, "\n\n\n");
+}
+
+export function postProcessAssistantText(text: string, lang: SupportedLanguage): string {
+  const cleaned = sanitizeAssistantChunk(text);
+  const filtered = filterDisallowedScriptsByLanguage(cleaned, lang);
+  return normalizeWhitespaceAfterFiltering(filtered).trim();
+}
+
+export function postProcessAssistantChunk(text: string, lang: SupportedLanguage): string {
+  // Streaming chunks must preserve leading/trailing whitespace; otherwise words get glued across chunks.
+  const cleaned = sanitizeAssistantChunk(text);
+  const filtered = filterDisallowedScriptsByLanguage(cleaned, lang);
+  return normalizeWhitespaceAfterFiltering(filtered);
+}
@@ -0,0 +1,235 @@
+import type { SupportedLanguage } from "@/lib/language";
+
+// Deterministic answers to stock questions ("disponible ?", "combien en stock ?"), in FR/EN/AR/Darija.
+// The chat answers them from the DB hits without calling the LLM, to avoid hallucinated stock.
+
+export type AvailabilityQuestionType = "availability" | "quantity";
+
+export function getAvailabilityQuestionType(text: string): AvailabilityQuestionType | null {
+  const t = text.trim();
+  if (!t) return null;
+
+  const isQuestionLike = (() => {
+    if (/[?؟]/.test(t)) return true;
+    // Interrogative phrasing in FR/EN/AR (common in chats without a question mark too).
+    if (/(\best-?ce\s+que\b|\bavez-?vous\b|\bvous\s+avez\b|\bdo\s+you\s+have\b|\bis\s+it\b|\bare\s+they\b|\bhow\s+many\b|\bcan\s+you\b|\bهل\b)/i.test(t)) {
+      return true;
+    }
+    // Very short messages like "stock", "en stock", "disponible" are usually questions.
+    const short = t.toLowerCase().replace(/\s+/g, " ").trim();
+    if (short.length <= 20 && /(\bstock\b|\ben\s+stock\b|\bdisponible\b|\bavailability\b|\bavailable\b|متوفر|موجود)/i.test(short)) {
+      return true;
+    }
+    return false;
+  })();
+
+  if (!isQuestionLike) return null;
+
+  // If it's clearly a price question (especially in Arabic), don't treat it as quantity/stock.
+  if (/(سعر|ثمن|بكم)/i.test(t)) return null;
+
+  const quantity =
+    /(\bquantit[eé]\b|\bquantity\b|\bcombien\b.*\b(avez|as|a|ont)\b|\bcombien\s+en\s+stock\b|\bhow\s+many\b|\bqty\b|\bqte\b|\bch7al\b|\bchhal\b|كم\s*(?:عندكم|لديكم)|الكمية|كمية|كم\s*\(?الكمية\)?)/i.test(
+      t,
+    );
+  if (quantity) return "quantity";
+
+  const availability =
+    /(\bavailable\b|\bavailability\b|\bdisponible\b|\bdisponibilit[eé]\b|\ben stock\b|\bstock\b|\bin store\b|\bin\s+shop\b|متوفر|موجود|التوفر|\bالمحل\b|\bفي\s*المحل\b)/i.test(
+      t,
+    );
+  return availability ? "availability" : null;
+}
+
+export function formatHitLabel(h: { brand: string; family?: string | null; index: number }): string {
+  return `${h.brand}${h.family ? " " + h.family : ""} ${h.index.toFixed(2)}`;
+}
+
+export type AvailabilityHit = {
+  brand: string;
+  family?: string | null;
+  index: number;
+  sku: string;
+  // quantity = available to this customer; reserved = units on hold (already deducted), mine = held for this chat.
+  inventory: { quantity: number; reserved: number; mine: number } | null;
+  // Supplier lead time, quoted when the product is out of stock.
+  leadTimeDays: number | null;
+};
+
+// "3" or, when some units are on hold, "3 available (5 on hand, 2 reserved)".
+function formatStockText(inv: AvailabilityHit["inventory"], lang: SupportedLanguage): string {
+  if (!inv || !Number.isFinite(inv.quantity)) return "N/A";
+  if (inv.reserved === 0) return String(inv.quantity);
+  const onHand = inv.quantity + inv.reserved;
+  if (lang === "ar") {
+    const mine = inv.mine > 0 ? `، منها ${inv.mine} محجوزة لك` : "";
+    return `${inv.quantity} متاحة (${onHand} في المحل، منها ${inv.reserved} محجوزة${mine})`;
+  }
+  if (lang === "dz") {
+    const mine = inv.mine > 0 ? `، ${inv.mine} محجوزين ليك` : "";
+    return `${inv.quantity} متاحين (${onHand} فالمحل، منهم ${inv.reserved} محجوزين${mine})`;
+  }
+  if (lang === "en") {
+    const mine = inv.mine > 0 ? `, ${inv.mine} of them for you` : "";
+    return `${inv.quantity} available (${onHand} on hand, ${inv.reserved} reserved${mine})`;
+  }
+  const mine = inv.mine > 0 ? `, dont ${inv.mine} pour vous` : "";
+  return `${inv.quantity} disponible(s) (${onHand} en magasin, ${inv.reserved} réservé(s)${mine})`;
+}
+
+// "Available on order in about N days" for out-of-stock products with a known supplier lead time.
+function formatOnOrderText(days: number, lang: SupportedLanguage, short = false): string {
+  if (lang === "ar") return short ? `بالطلب (~${days} أيام)` : `متوفر بالطلب في حوالي ${days} أيام.`;
+  if (lang === "dz") return short ? `بالكوموند (~${days} أيام)` : `نقدرو نجيبوه بالكوموند في حوالي ${days} أيام.`;
+  if (lang === "en") return short ? `on order (~${days} days)` : `Available on order in about ${days} days.`;
+  return short ? `sur commande (~${days} j)` : `Disponible sur commande sous environ ${days} jours.`;
+}
+
+// Hits an availability answer talks about, best first (Zeiss only when the customer names it).
+export function selectAvailabilityHits<T extends { brand: string }>(hits: T[], userText: string): T[] {
+  const wantZeiss = /zeiss/i.test(userText);
+  const preferred = wantZeiss ? hits.filter((h) => h.brand.toLowerCase() === "zeiss") : hits;
+  return (preferred.length > 0 ? preferred : hits).slice(0, 3);
+}
+
+export function buildAvailabilityAnswer(params: {
+  lang: SupportedLanguage;
+  userText: string;
+  hits: AvailabilityHit[];
+  type: AvailabilityQuestionType;
+}): string {
+  const { lang, userText, hits, type } = params;
+  const list = selectAvailabilityHits(hits, userText);
+
+  if (hits.length === 0) {
+    if (lang === "ar") {
+      return "حالياً ما لقيتش نفس المنتج في قاعدة البيانات، وما نقدرش نأكد الستوك. إذا تعطيني المرجع/SKU ولا اسم العائلة بالضبط نتحقق لك.";
+    }
+    if (lang === "dz") {
+      return "دروك ما لقيتش نفس المنتوج فالداتا، ما نقدرش نأكد الستوك. عطيني المرجع/SKU ولا الاسم بالضبط ونشوف لك.";
+    }
+    if (lang === "en") {
+      return "I couldn't find that exact product in the database, so I can't confirm the current stock. If you share the SKU/reference, I can check again.";
+    }
+    return "Je ne retrouve pas ce produit précisément dans la base, donc je ne peux pas confirmer le stock actuel. Donne-moi la référence/SKU (ou le nom exact) et je vérifie.";
+  }
+
+  const lines = list.map((h) => {
+    const qty = h.inventory?.quantity;
+    const onOrder = qty === 0 && h.leadTimeDays !== null ? h.leadTimeDays : null;
+    const stockText = formatStockText(h.inventory, lang);
+    const qtyText = onOrder !== null ? `${stockText} — ${formatOnOrderText(onOrder, lang, true)}` : stockText;
+    const reserved = h.inventory?.reserved ?? 0;
+    return { label: formatHitLabel(h), sku: h.sku, qty: qty ?? null, qtyText, reserved, onOrder };
+  });
+
+  // If user asks "is it available?" and we have one clear best match, answer directly.
+  const top = lines[0];
+  const topQty = top?.qty;
+  // Out of stock for this customer although units are physically in the shop (all on hold).
+  const allReserved = topQty === 0 && (top?.reserved ?? 0) > 0;
+  const onOrder = top?.onOrder != null ? ` ${formatOnOrderText(top.onOrder, lang)}` : "";
+
+  if (lang === "ar") {
+    if (type === "quantity") {
+      if (lines.length === 1) {
+        return `حسب قاعدة البيانات: الكمية الحالية لـ ${top.label} (SKU: ${top.sku}) هي ${top.qtyText}.`;
+      }
+      return [
+        "حسب قاعدة البيانات، هاذي الكميات الحالية (أفضل نتائج):",
+        ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
+      ].join("\n");
+    }
+
+    if (typeof topQty === "number") {
+      if (allReserved) {
+        return `حالياً غير متوفر لـ ${top.label} (SKU: ${top.sku}): كل الكمية في المحل محجوزة (${top.reserved}).${onOrder}`;
+      }
+      return topQty > 0
+        ? `نعم، متوفر حالياً. الستوك لـ ${top.label} (SKU: ${top.sku}) هو ${top.qtyText}.`
+        : `حالياً غير متوفر (الستوك 0) لـ ${top.label} (SKU: ${top.sku}).${onOrder}`;
+    }
+
+    return [
+      "ما عنديش رقم ستوك واضح لهذا المنتج في قاعدة البيانات.",
+      ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
+    ].join("\n");
+  }
+
+  if (lang === "dz") {
+    if (type === "quantity") {
+      if (lines.length === 1) {
+        return `حسب الداتا: الكمية تاع ${top.label} (SKU: ${top.sku}) هي ${top.qtyText}.`;
+      }
+      return [
+        "حسب الداتا، هذو الكميات (أفضل نتائج):",
+        ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
+      ].join("\n");
+    }
+
+    if (typeof topQty === "number") {
+      if (allReserved) {
+        return `دروك ماشي متوفر تاع ${top.label} (SKU: ${top.sku}): كامل اللي فالمحل محجوز (${top.reserved}).${onOrder}`;
+      }
+      return topQty > 0
+        ? `ايه متوفر دروك. الستوك تاع ${top.label} (SKU: ${top.sku}) هو ${top.qtyText}.`
+        : `دروك راهو ماشي متوفر (ستوك 0) تاع ${top.label} (SKU: ${top.sku}).${onOrder}`;
+    }
+
+    return [
+      "ماكانش رقم ستوك واضح فالداتا لهذا المنتوج.",
+      ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
+    ].join("\n");
+  }
+
+  if (lang === "en") {
+    if (type === "quantity") {
+      if (lines.length === 1) {
+        return `According to the database: current quantity for ${top.label} (SKU: ${top.sku}) is ${top.qtyText}.`;
+      }
+      return [
+        "According to the database, here are the current quantities (best matches):",
+        ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
+      ].join("\n");
+    }
+
+    if (typeof topQty === "number") {
+      if (allReserved) {
+        return `Not available right now for ${top.label} (SKU: ${top.sku}): all ${top.reserved} units in the shop are reserved.${onOrder}`;
+      }
+      return topQty > 0
+        ? `Yes, it's currently available. Stock for ${top.label} (SKU: ${top.sku}) is ${top.qtyText}.`
+        : `Not available right now (stock 0) for ${top.label} (SKU: ${top.sku}).${onOrder}`;
+    }
+
+    return [
+      "I don't have a clear stock number for that item in the database.",
+      ...lines.map((l) => `- ${l.label} (SKU: ${l.sku}): ${l.qtyText}`),
+    ].join("\n");
+  }
+
+  // fr
+  if (type === "quantity") {
+    if (lines.length === 1) {
+      return `D’après la base de données : la quantité actuelle pour ${top.label} (SKU : ${top.sku}) est ${top.qtyText}.`;
+    }
+    return [
+      "D’après la base de données, voici les quantités actuelles (meilleurs résultats) :",
+      ...lines.map((l) => `- ${l.label} (SKU : ${l.sku}) : ${l.qtyText}`),
+    ].join("\n");
+  }
+
+  if (typeof topQty === "number") {
+    if (allReserved) {
+      return `Pas disponible pour le moment pour ${top.label} (SKU : ${top.sku}) : les ${top.reserved} en magasin sont réservés.${onOrder}`;
+    }
+    return topQty > 0
+      ? `Oui, c’est disponible actuellement. Stock pour ${top.label} (SKU : ${top.sku}) : ${top.qtyText}.`
+      : `Pas disponible pour le moment (stock 0) pour ${top.label} (SKU : ${top.sku}).${onOrder}`;
+  }
+
+  return [
+    "Je n’ai pas un chiffre de stock clair dans la base pour cet article.",
+    ...lines.map((l) => `- ${l.label} (SKU : ${l.sku}) : ${l.qtyText}`),
+  ].join("\n");
+}
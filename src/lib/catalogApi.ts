@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { invalidateCatalogIndex } from "@/lib/catalogIndex";
+
+// Shared helpers for the catalog management routes (/api/catalog/*).
+
+export const PaginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type Pagination = z.infer<typeof PaginationSchema>;
+
+// Query-string values as a plain object ("" is treated as absent).
+export function searchParamsObject(req: Request): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of new URL(req.url).searchParams) {
+    if (value !== "") out[key] = value;
+  }
+  return out;
+}
+
+export function paginate(p: Pagination) {
+  return { skip: (p.page - 1) * p.pageSize, take: p.pageSize };
+}
+
+export function pageInfo(p: Pagination, total: number) {
+  return { page: p.page, pageSize: p.pageSize, total, pageCount: Math.max(1, Math.ceil(total / p.pageSize)) };
+}
+
+// "true"/"false"/"1"/"0" query flags.
+export const BooleanParamSchema = z
+  .enum(["true", "false", "1", "0"])
+  .transform((v) => v === "true" || v === "1");
+
+export function invalidRequest(error: z.ZodError, message = "Requête invalide") {
+  return NextResponse.json({ error: message, details: error.issues }, { status: 400 });
+}
+
+export function notFound(message: string) {
+  return NextResponse.json({ error: message }, { status: 404 });
+}
+
+export function conflict(message: string, details?: unknown) {
+  return NextResponse.json({ error: message, ...(details !== undefined ? { details } : {}) }, { status: 409 });
+}
+
+// Every catalog write goes through here so the chat search sees it immediately.
+export function catalogChanged(): void {
+  invalidateCatalogIndex();
+}
+
+export const productInclude = {
+  brand: { select: { id: true, name: true } },
+  photochromicTech: { select: { id: true, name: true } },
+  coatings: { include: { coating: { select: { id: true, code: true } } } },
+  inventory: { orderBy: { updatedAt: "desc" as const } },
+};
+
+type ProductWithRelations = {
+  coatings: Array<{ coating: { id: string; code: string } }>;
+  inventory: Array<{ isActive: boolean }>;
+};
+
+// Flattens coatings to codes and tells whether the bot may suggest the product
+// (searchCatalog only considers products with at least one active inventory item).
+export function serializeProduct<T extends ProductWithRelations>(product: T) {
+  const { coatings, ...rest } = product;
+  return {
+    ...rest,
+    coatings: coatings.map((c) => c.coating.code),
+    suggestable: product.inventory.some((i) => i.isActive),
+  };
+}
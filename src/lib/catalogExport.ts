@@ -0,0 +1,158 @@
+import { prisma } from "@/lib/db";
+import { minorUnits, toMajor } from "@/lib/currency";
+import { formatCsv } from "@/lib/spreadsheet";
+
+// Catalog snapshots for suppliers and accounting. Output is deterministic (sorted by SKU, then
+// supplier; no timestamps in the body) so two successive exports can be diffed line by line.
+// The CSV headers are the ones catalogImport recognises, so an export can be edited and re-imported.
+
+export type ExportedInventory = {
+  supplier: string | null;
+  priceCents: number;
+  currency: string;
+  quantity: number;
+  isActive: boolean;
+};
+
+export type ExportedProduct = {
+  sku: string;
+  brand: string;
+  family: string | null;
+  index: number;
+  material: string | null;
+  isAspheric: boolean;
+  design: string;
+  minSph: number | null;
+  maxSph: number | null;
+  minCyl: number | null;
+  maxCyl: number | null;
+  photochromic: boolean;
+  photochromicTech: string | null;
+  blueCut: boolean;
+  coatings: string[];
+  description: string | null;
+  inventory: ExportedInventory[];
+};
+
+export async function exportCatalog(params: { includeInactive?: boolean } = {}): Promise<ExportedProduct[]> {
+  const products = await prisma.lensProduct.findMany({
+    include: {
+      brand: { select: { name: true } },
+      photochromicTech: { select: { name: true } },
+      coatings: { include: { coating: { select: { code: true } } } },
+      inventory: {
+        where: params.includeInactive ? {} : { isActive: true },
+        include: {
+          supplier: { select: { name: true } },
+          reservations: { where: { status: "active" }, select: { quantity: true } },
+        },
+      },
+    },
+    orderBy: { sku: "asc" },
+  });
+
+  return products.map((p) => ({
+    sku: p.sku,
+    brand: p.brand.name,
+    family: p.family,
+    index: p.index,
+    material: p.material,
+    isAspheric: p.isAspheric,
+    design: p.design,
+    minSph: p.minSph,
+    maxSph: p.maxSph,
+    minCyl: p.minCyl,
+    maxCyl: p.maxCyl,
+    photochromic: p.photochromic,
+    photochromicTech: p.photochromicTech?.name ?? null,
+    blueCut: p.blueCut,
+    coatings: p.coatings.map((c) => c.coating.code).sort(),
+    description: p.description,
+    inventory: p.inventory
+      .map((i) => ({
+        supplier: i.supplier?.name ?? null,
+        priceCents: i.priceCents,
+        currency: i.currency,
+        // On-hand (held units included), the count an import reads back in this column.
+        quantity: i.quantity + i.reservations.reduce((sum, r) => sum + r.quantity, 0),
+        isActive: i.isActive,
+      }))
+      .sort((a, b) => (a.supplier ?? "").localeCompare(b.supplier ?? "") || a.priceCents - b.priceCents),
+  }));
+}
+
+const CSV_HEADER = [
+  "sku",
+  "marque",
+  "famille",
+  "indice",
+  "matériau",
+  "asphérique",
+  "design",
+  "sph min",
+  "sph max",
+  "cyl min",
+  "cyl max",
+  "photochromique",
+  "techno photo",
+  "bluecut",
+  "traitements",
+  "description",
+  "prix",
+  "devise",
+  "quantité",
+  "fournisseur",
+  "actif",
+];
+
+function yesNo(value: boolean): string {
+  return value ? "oui" : "non";
+}
+
+function num(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
+// One line per inventory item; products without (active) inventory get a single line with empty price columns.
+export function catalogToCsv(products: ExportedProduct[], delimiter: "," | ";" = ";"): string {
+  const rows = [CSV_HEADER];
+  for (const p of products) {
+    const productCells = [
+      p.sku,
+      p.brand,
+      p.family ?? "",
+      p.index.toFixed(2),
+      p.material ?? "",
+      yesNo(p.isAspheric),
+      p.design,
+      num(p.minSph),
+      num(p.maxSph),
+      num(p.minCyl),
+      num(p.maxCyl),
+      yesNo(p.photochromic),
+      p.photochromicTech ?? "",
+      yesNo(p.blueCut),
+      p.coatings.join("|"),
+      p.description ?? "",
+    ];
+    if (p.inventory.length === 0) {
+      rows.push([...productCells, "", "", "", "", ""]);
+      continue;
+    }
+    for (const i of p.inventory) {
+      rows.push([
+        ...productCells,
+        toMajor(i.priceCents, i.currency).toFixed(minorUnits(i.currency)),
+        i.currency,
+        String(i.quantity),
+        i.supplier ?? "",
+        yesNo(i.isActive),
+      ]);
+    }
+  }
+  return formatCsv(rows, delimiter);
+}
+
+export function exportFilename(format: "csv" | "json", date = new Date()): string {
+  return `catalogue-${date.toISOString().slice(0, 10)}.${format}`;
+}
@@ -0,0 +1,575 @@
+import { prisma } from "@/lib/db";
+import { DEFAULT_CURRENCY, toMinor } from "@/lib/currency";
+import { invalidateCatalogIndex } from "@/lib/catalogIndex";
+import { recordMovement, recordOpeningBalance } from "@/lib/inventoryLedger";
+import { recordOpeningPrice, setInventoryPrice } from "@/lib/pricing";
+import { findOrCreateSupplier } from "@/lib/suppliers";
+import type { SheetRows } from "@/lib/spreadsheet";
+
+// Supplier price-list import: spreadsheet rows → LensProduct + InventoryItem upserts by SKU.
+// Two steps: planCatalogImport() computes a diff (created / updated / deactivated / unchanged) and
+// per-line validation errors without writing anything; applyCatalogImport() commits a plan.
+
+export type ImportField =
+  | "sku"
+  | "brand"
+  | "family"
+  | "index"
+  | "material"
+  | "isAspheric"
+  | "design"
+  | "minSph"
+  | "maxSph"
+  | "minCyl"
+  | "maxCyl"
+  | "photochromic"
+  | "photochromicTech"
+  | "blueCut"
+  | "coatings"
+  | "description"
+  | "price"
+  | "currency"
+  | "quantity"
+  | "supplier"
+  | "isActive";
+
+export type ImportError = {
+  // Spreadsheet line (1 = header).
+  line: number;
+  column?: ImportField;
+  message: string;
+};
+
+type ImportedRow = {
+  line: number;
+  sku: string;
+  product: {
+    brand: string;
+    family?: string | null;
+    index: number;
+    material?: string | null;
+    isAspheric?: boolean;
+    design?: string;
+    minSph?: number | null;
+    maxSph?: number | null;
+    minCyl?: number | null;
+    maxCyl?: number | null;
+    photochromic?: boolean;
+    photochromicTech?: string | null;
+    blueCut?: boolean;
+    description?: string | null;
+    coatings?: string[];
+  };
+  inventory?: {
+    priceCents: number;
+    currency?: string;
+    quantity?: number;
+    supplier?: string | null;
+    isActive: boolean;
+  };
+};
+
+export type FieldChange = { field: string; from: unknown; to: unknown };
+
+export type ImportPlanEntry = {
+  line: number;
+  sku: string;
+  action: "create" | "update" | "unchanged";
+  changes: FieldChange[];
+};
+
+export type DeactivationEntry = {
+  sku: string;
+  inventoryId: string;
+  supplier: string | null;
+};
+
+export type ImportPlan = {
+  columns: Partial<Record<ImportField, string>>;
+  unmappedColumns: string[];
+  errors: ImportError[];
+  entries: ImportPlanEntry[];
+  deactivated: DeactivationEntry[];
+  summary: { created: number; updated: number; unchanged: number; deactivated: number; errors: number };
+  // Rows kept for applyCatalogImport (only the valid ones).
+  rows: ImportedRow[];
+};
+
+// Header aliases (FR/EN, case/accent-insensitive). A custom mapping can override them.
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  sku: ["sku", "ref", "reference", "code article", "code produit"],
+  brand: ["brand", "marque"],
+  family: ["family", "famille", "gamme"],
+  index: ["index", "indice"],
+  material: ["material", "materiau", "matiere"],
+  isAspheric: ["aspheric", "isaspheric", "aspherique", "asph"],
+  design: ["design", "type de verre", "geometrie"],
+  minSph: ["minsph", "sph min", "sphere min"],
+  maxSph: ["maxsph", "sph max", "sphere max"],
+  minCyl: ["mincyl", "cyl min", "cylindre min"],
+  maxCyl: ["maxcyl", "cyl max", "cylindre max"],
+  photochromic: ["photochromic", "photochromique", "photo"],
+  photochromicTech: ["photochromictech", "techno photo", "technologie photochromique", "photochromic tech"],
+  blueCut: ["bluecut", "blue cut", "lumiere bleue"],
+  coatings: ["coatings", "traitements", "traitement"],
+  description: ["description", "desc"],
+  price: ["price", "prix", "prix ttc", "tarif"],
+  currency: ["currency", "devise", "monnaie"],
+  quantity: ["quantity", "quantite", "qte", "stock"],
+  supplier: ["supplier", "fournisseur"],
+  isActive: ["active", "isactive", "actif"],
+};
+
+const DESIGN_ALIASES: Record<string, string> = {
+  "single-vision": "single-vision",
+  unifocal: "single-vision",
+  "simple vision": "single-vision",
+  progressive: "progressive",
+  progressif: "progressive",
+  office: "office",
+  degressif: "office",
+  bureau: "office",
+  bifocal: "bifocal",
+};
+
+const VALID_INDICES = [1.5, 1.56, 1.6, 1.67, 1.74];
+
+function fold(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[_\s]+/g, " ")
+    .trim();
+}
+
+export function mapColumns(
+  header: string[],
+  mapping?: Partial<Record<ImportField, string>>,
+): { columns: Map<ImportField, number>; labels: Partial<Record<ImportField, string>>; unmapped: string[] } {
+  const columns = new Map<ImportField, number>();
+  const folded = header.map(fold);
+
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as Array<[ImportField, string[]]>) {
+    const custom = mapping?.[field];
+    const idx = custom !== undefined ? folded.indexOf(fold(custom)) : folded.findIndex((h) => aliases.includes(h));
+    if (idx !== -1) columns.set(field, idx);
+  }
+
+  const used = new Set(columns.values());
+  const labels: Partial<Record<ImportField, string>> = {};
+  for (const [field, idx] of columns) labels[field] = header[idx];
+  return { columns, labels, unmapped: header.filter((h, i) => h && !used.has(i)) };
+}
+
+function parseNumber(value: string): number | undefined {
+  const v = value.replace(/\s/g, "").replace(",", ".");
+  if (!v) return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const v = fold(value);
+  if (!v) return undefined;
+  if (["1", "true", "oui", "yes", "o", "y", "x"].includes(v)) return true;
+  if (["0", "false", "non", "no", "n"].includes(v)) return false;
+  return undefined;
+}
+
+function parseRow(
+  line: number,
+  cells: string[],
+  columns: Map<ImportField, number>,
+): { row?: ImportedRow; errors: ImportError[] } {
+  const errors: ImportError[] = [];
+  const get = (field: ImportField) => {
+    const idx = columns.get(field);
+    return idx === undefined ? undefined : (cells[idx] ?? "").trim();
+  };
+  const fail = (column: ImportField, message: string) => errors.push({ line, column, message });
+
+  const num = (field: ImportField, label: string): number | null | undefined => {
+    const raw = get(field);
+    if (raw === undefined) return undefined;
+    const n = parseNumber(raw);
+    if (n === undefined) return null;
+    if (Number.isNaN(n)) {
+      fail(field, `${label} non numérique: "${raw}"`);
+      return undefined;
+    }
+    return n;
+  };
+  const bool = (field: ImportField, label: string): boolean | undefined => {
+    const raw = get(field);
+    if (raw === undefined || raw === "") return undefined;
+    const b = parseBoolean(raw);
+    if (b === undefined) fail(field, `${label}: valeur oui/non attendue, reçu "${raw}"`);
+    return b;
+  };
+  const text = (field: ImportField): string | null | undefined => {
+    const raw = get(field);
+    if (raw === undefined) return undefined;
+    return raw || null;
+  };
+
+  const sku = get("sku") ?? "";
+  if (!sku) fail("sku", "SKU manquant");
+  else if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(sku)) fail("sku", `SKU invalide: "${sku}"`);
+
+  const brand = get("brand") ?? "";
+  if (!brand) fail("brand", "Marque manquante");
+
+  const index = num("index", "Indice");
+  if (index === null || (index === undefined && get("index") === undefined)) {
+    fail("index", "Indice manquant");
+  } else if (typeof index === "number" && !VALID_INDICES.includes(index)) {
+    fail("index", `Indice ${index} non supporté (attendu ${VALID_INDICES.join(", ")})`);
+  }
+
+  let design: string | undefined;
+  const rawDesign = get("design");
+  if (rawDesign) {
+    design = DESIGN_ALIASES[fold(rawDesign)];
+    if (!design) fail("design", `Design inconnu: "${rawDesign}"`);
+  }
+
+  const coatings = get("coatings")
+    ?.split(/[|,;/+]/)
+    .map((c) => c.trim().toUpperCase())
+    .filter(Boolean);
+
+  const minSph = num("minSph", "SPH min");
+  const maxSph = num("maxSph", "SPH max");
+  const minCyl = num("minCyl", "CYL min");
+  const maxCyl = num("maxCyl", "CYL max");
+  if (typeof minSph === "number" && typeof maxSph === "number" && minSph > maxSph) {
+    fail("minSph", "SPH min supérieur à SPH max");
+  }
+  if (typeof minCyl === "number" && typeof maxCyl === "number" && minCyl > maxCyl) {
+    fail("minCyl", "CYL min supérieur à CYL max");
+  }
+
+  const price = num("price", "Prix");
+  const quantity = num("quantity", "Quantité");
+  if (typeof price === "number" && price < 0) fail("price", "Prix négatif");
+  if (typeof quantity === "number" && (quantity < 0 || !Number.isInteger(quantity))) {
+    fail("quantity", `Quantité invalide: ${quantity}`);
+  }
+  const currency = get("currency")?.toUpperCase();
+  if (currency && !/^[A-Z]{3}$/.test(currency)) fail("currency", `Devise invalide: "${currency}"`);
+
+  const isActive = bool("isActive", "Actif");
+  const product: ImportedRow["product"] = {
+    brand,
+    index: typeof index === "number" ? index : 0,
+    family: text("family"),
+    material: text("material"),
+    isAspheric: bool("isAspheric", "Asphérique"),
+    design,
+    minSph,
+    maxSph,
+    minCyl,
+    maxCyl,
+    photochromic: bool("photochromic", "Photochromique"),
+    photochromicTech: text("photochromicTech"),
+    blueCut: bool("blueCut", "BlueCut"),
+    description: text("description"),
+    coatings,
+  };
+
+  if (errors.length > 0) return { errors };
+
+  // Without a price column the row only describes the product; inventory is left untouched.
+  const inventory =
+    typeof price === "number"
+      ? {
+          // Prices are read in major units (dinars, euros); without a currency column, the default one.
+          priceCents: toMinor(price, currency || DEFAULT_CURRENCY),
+          currency: currency || undefined,
+          quantity: typeof quantity === "number" ? quantity : undefined,
+          supplier: text("supplier"),
+          isActive: isActive ?? true,
+        }
+      : undefined;
+
+  return { row: { line, sku, product, inventory }, errors };
+}
+
+function diff(current: Record<string, unknown>, next: Record<string, unknown>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, to] of Object.entries(next)) {
+    if (to === undefined) continue;
+    const from = current[field];
+    const same = Array.isArray(to) ? JSON.stringify([...(from as string[])].sort()) === JSON.stringify([...to].sort()) : from === to;
+    if (!same) changes.push({ field, from: from ?? null, to });
+  }
+  return changes;
+}
+
+export async function planCatalogImport(params: {
+  rows: SheetRows;
+  mapping?: Partial<Record<ImportField, string>>;
+  // Deactivate active inventory of the file's suppliers whose SKU is absent from the file.
+  deactivateMissing?: boolean;
+  // Supplier the whole file comes from: scopes deactivateMissing instead of the supplier column.
+  supplier?: string;
+}): Promise<ImportPlan> {
+  const [header, ...data] = params.rows;
+  const errors: ImportError[] = [];
+  if (!header) {
+    return {
+      columns: {},
+      unmappedColumns: [],
+      errors: [{ line: 1, message: "Fichier vide" }],
+      entries: [],
+      deactivated: [],
+      summary: { created: 0, updated: 0, unchanged: 0, deactivated: 0, errors: 1 },
+      rows: [],
+    };
+  }
+
+  const { columns, labels, unmapped } = mapColumns(header.cells, params.mapping);
+  for (const required of ["sku", "brand", "index"] as const) {
+    if (!columns.has(required)) errors.push({ line: header.line, column: required, message: `Colonne ${required} absente` });
+  }
+  if (errors.length > 0) {
+    return {
+      columns: labels,
+      unmappedColumns: unmapped,
+      errors,
+      entries: [],
+      deactivated: [],
+      summary: { created: 0, updated: 0, unchanged: 0, deactivated: 0, errors: errors.length },
+      rows: [],
+    };
+  }
+
+  const [brands, techs, coatings] = await Promise.all([
+    prisma.brand.findMany({ select: { name: true } }),
+    prisma.photochromicTech.findMany({ select: { name: true } }),
+    prisma.coating.findMany({ select: { code: true } }),
+  ]);
+  const brandNames = new Set(brands.map((b) => b.name));
+  const techNames = new Set(techs.map((t) => t.name));
+  const coatingCodes = new Set(coatings.map((c) => c.code));
+
+  const rows: ImportedRow[] = [];
+  const seen = new Map<string, number>();
+  for (const { line, cells } of data) {
+    const parsed = parseRow(line, cells, columns);
+    errors.push(...parsed.errors);
+    const row = parsed.row;
+    if (!row) continue;
+
+    const rowErrors: ImportError[] = [];
+    if (seen.has(row.sku)) rowErrors.push({ line, column: "sku", message: `SKU ${row.sku} déjà présent ligne ${seen.get(row.sku)}` });
+    if (!brandNames.has(row.product.brand)) {
+      rowErrors.push({ line, column: "brand", message: `Marque inconnue: "${row.product.brand}"` });
+    }
+    if (row.product.photochromicTech && !techNames.has(row.product.photochromicTech)) {
+      rowErrors.push({
+        line,
+        column: "photochromicTech",
+        message: `Technologie photochromique inconnue: "${row.product.photochromicTech}"`,
+      });
+    }
+    for (const code of row.product.coatings ?? []) {
+      if (!coatingCodes.has(code)) rowErrors.push({ line, column: "coatings", message: `Code de traitement inconnu: "${code}"` });
+    }
+
+    seen.set(row.sku, line);
+    if (rowErrors.length > 0) errors.push(...rowErrors);
+    else rows.push(row);
+  }
+
+  const existing = await prisma.lensProduct.findMany({
+    where: { sku: { in: rows.map((r) => r.sku) } },
+    include: {
+      brand: true,
+      photochromicTech: true,
+      coatings: { include: { coating: true } },
+      inventory: {
+        include: {
+          supplier: { select: { name: true } },
+          reservations: { where: { status: "active" }, select: { quantity: true } },
+        },
+      },
+    },
+  });
+  const bySku = new Map(existing.map((p) => [p.sku, p]));
+
+  const entries: ImportPlanEntry[] = rows.map((row) => {
+    const current = bySku.get(row.sku);
+    if (!current) return { line: row.line, sku: row.sku, action: "create", changes: [] };
+
+    const { brand, photochromicTech, coatings: rowCoatings, ...fields } = row.product;
+    const changes = diff(
+      {
+        ...current,
+        brand: current.brand.name,
+        photochromicTech: current.photochromicTech?.name ?? null,
+        coatings: current.coatings.map((c) => c.coating.code),
+      },
+      { ...fields, brand, photochromicTech, coatings: rowCoatings },
+    );
+
+    if (row.inventory) {
+      const item = matchInventory(current.inventory, row.inventory.supplier);
+      // The file holds counted stock, held units included (see recordMovement).
+      const held = item?.reservations.reduce((sum, r) => sum + r.quantity, 0) ?? 0;
+      if (row.inventory.quantity !== undefined && row.inventory.quantity < held) {
+        errors.push({
+          line: row.line,
+          column: "quantity",
+          message: `Quantité (${row.inventory.quantity}) inférieure aux unités réservées (${held})`,
+        });
+      }
+      const invChanges = item
+        ? diff(
+            { ...item, quantity: item.quantity + held, supplier: item.supplier?.name ?? null },
+            { ...row.inventory, supplier: row.inventory.supplier ?? undefined },
+          )
+        : [{ field: "inventory", from: null, to: "nouvelle ligne" }];
+      changes.push(...invChanges.map((c) => ({ ...c, field: c.field === "inventory" ? c.field : `inventory.${c.field}` })));
+    }
+
+    return { line: row.line, sku: row.sku, action: changes.length > 0 ? "update" : "unchanged", changes };
+  });
+
+  const deactivated: DeactivationEntry[] = [];
+  const suppliers = params.supplier
+    ? [params.supplier]
+    : [...new Set(rows.map((r) => r.inventory?.supplier).filter((s): s is string => Boolean(s)))];
+  if (params.deactivateMissing && suppliers.length === 0) {
+    // Without a scope every supplier's stock missing from a partial file would be deactivated.
+    errors.push({
+      line: header.line,
+      column: "supplier",
+      message: "Désactivation des SKU absents impossible sans fournisseur (colonne fournisseur ou paramètre supplier)",
+    });
+  } else if (params.deactivateMissing) {
+    const missing = await prisma.inventoryItem.findMany({
+      where: {
+        isActive: true,
+        supplier: { name: { in: suppliers } },
+        lens: { sku: { notIn: rows.map((r) => r.sku) } },
+      },
+      include: { lens: { select: { sku: true } }, supplier: { select: { name: true } } },
+    });
+    deactivated.push(
+      ...missing.map((i) => ({ sku: i.lens.sku, inventoryId: i.id, supplier: i.supplier?.name ?? null })),
+    );
+  }
+
+  const count = (action: ImportPlanEntry["action"]) => entries.filter((e) => e.action === action).length;
+  return {
+    columns: labels,
+    unmappedColumns: unmapped,
+    errors,
+    entries,
+    deactivated,
+    summary: {
+      created: count("create"),
+      updated: count("update"),
+      unchanged: count("unchanged"),
+      deactivated: deactivated.length,
+      errors: errors.length,
+    },
+    rows,
+  };
+}
+
+// Plan without the parsed rows, for API responses and CLI output.
+export function importReport(plan: ImportPlan): Omit<ImportPlan, "rows"> {
+  const { columns, unmappedColumns, errors, entries, deactivated, summary } = plan;
+  return { columns, unmappedColumns, errors, entries, deactivated, summary };
+}
+
+// Inventory line of a product for a supplier: same supplier, else the only line when the file has none.
+function matchInventory<T extends { supplier: { name: string } | null }>(
+  items: T[],
+  supplier: string | null | undefined,
+) {
+  if (supplier) return items.find((i) => i.supplier?.name === supplier);
+  return items.length === 1 ? items[0] : undefined;
+}
+
+// Quantity changes go through the stock ledger, attributed to `user` with an "Import tarif" reason.
+export async function applyCatalogImport(
+  plan: ImportPlan,
+  options: { user?: string | null } = {},
+): Promise<ImportPlan["summary"]> {
+  if (plan.errors.length > 0) throw new Error("Import refusé: corriger d’abord les erreurs de validation");
+
+  const [brands, techs, coatings] = await Promise.all([
+    prisma.brand.findMany(),
+    prisma.photochromicTech.findMany(),
+    prisma.coating.findMany(),
+  ]);
+  const brandId = new Map(brands.map((b) => [b.name, b.id]));
+  const techId = new Map(techs.map((t) => [t.name, t.id]));
+  const coatingId = new Map(coatings.map((c) => [c.code, c.id]));
+  const changed = new Set(plan.entries.filter((e) => e.action !== "unchanged").map((e) => e.sku));
+
+  await prisma.$transaction(async (tx) => {
+    for (const row of plan.rows) {
+      if (!changed.has(row.sku)) continue;
+      const { brand, photochromicTech, coatings: codes, ...fields } = row.product;
+      const data = {
+        ...fields,
+        brandId: brandId.get(brand)!,
+        ...(photochromicTech !== undefined
+          ? { photochromicTechId: photochromicTech ? techId.get(photochromicTech)! : null }
+          : {}),
+      };
+
+      const product = await tx.lensProduct.upsert({
+        where: { sku: row.sku },
+        create: { sku: row.sku, ...data },
+        update: data,
+        include: { inventory: { include: { supplier: { select: { name: true } } } } },
+      });
+
+      if (codes) {
+        await tx.lensCoating.deleteMany({ where: { lensId: product.id } });
+        await tx.lensCoating.createMany({
+          data: codes.map((code) => ({ lensId: product.id, coatingId: coatingId.get(code)! })),
+        });
+      }
+
+      if (row.inventory) {
+        const { quantity, supplier, ...inventory } = row.inventory;
+        const meta = { user: options.user ?? null, reason: "Import tarif" };
+        // Suppliers named in the file are created on the fly; an empty cell unlinks the line.
+        const supplierId =
+          supplier === undefined ? undefined : supplier ? (await findOrCreateSupplier(supplier, tx)).id : null;
+        const item = matchInventory(product.inventory, row.inventory.supplier);
+        if (item) {
+          const { priceCents, currency, ...rest } = inventory;
+          await tx.inventoryItem.update({ where: { id: item.id }, data: { ...rest, supplierId } });
+          await setInventoryPrice({ inventoryId: item.id, priceCents, currency, ...meta }, tx);
+          if (quantity !== undefined) {
+            await recordMovement({ inventoryId: item.id, type: "adjustment", quantity, ...meta }, tx);
+          }
+        } else {
+          const created = await tx.inventoryItem.create({
+            data: { lensId: product.id, ...inventory, supplierId, quantity },
+          });
+          await recordOpeningBalance(tx, created, meta);
+          await recordOpeningPrice(tx, created, meta);
+        }
+      }
+    }
+
+    if (plan.deactivated.length > 0) {
+      await tx.inventoryItem.updateMany({
+        where: { id: { in: plan.deactivated.map((d) => d.inventoryId) } },
+        data: { isActive: false },
+      });
+    }
+  });
+
+  invalidateCatalogIndex();
+  return plan.summary;
+}
@@ -0,0 +1,360 @@
+import { prisma } from "@/lib/db";
+
+// In-process search index over LensProduct (SKU, brand, family, description, photochromic tech).
+// - accent folding (é → e) and Arabic normalization (hamza/alef variants, tashkeel, ta marbuta)
+// - fuzzy token matching (Damerau-Levenshtein), so "Hoyya" or "ZEIS-AR-150" still match
+// - brands/families come from the DB: a new brand or family is searchable without code changes
+// The catalog is small (hundreds of rows), so a cached in-memory scan beats an FTS5 virtual table
+// that Prisma migrations cannot manage.
+
+type IndexedProduct = {
+  id: string;
+  sku: string;
+  skuKey: string;
+  brand: string;
+  brandTokens: string[];
+  familyTokens: string[];
+  descriptionTokens: Set<string>;
+};
+
+type CatalogIndex = {
+  products: IndexedProduct[];
+  builtAt: number;
+};
+
+export type CatalogQueryMatch = {
+  // Products whose SKU is named (exactly or with a typo) in the text.
+  skuIds: string[];
+  // Brands named in the text (DB names).
+  brands: string[];
+  // Products whose family is named in the text.
+  familyIds: string[];
+  // Free-text relevance per product id, 0..1 (SKU/family/brand/description overlap).
+  relevance: Map<string, number>;
+  // Query terms that matched something, for match reasons.
+  matchedTerms: Map<string, string[]>;
+};
+
+const INDEX_TTL_MS = 60_000;
+
+// Transliterations customers type for brands (only used if the brand exists in DB).
+const BRAND_ALIASES: Record<string, string[]> = {
+  hoya: ["هويا", "هوية"],
+  zeiss: ["زايس", "زيس"],
+  essilor: ["ايسيلور", "اسيلور"],
+  crizal: ["كريزال"],
+};
+
+// Words that appear in family names but are also everyday vocabulary in customer messages
+// ("premium", "photo", "office", ...). They never select a family on their own.
+const GENERIC_TERMS = new Set([
+  "premium",
+  "photo",
+  "blue",
+  "protect",
+  "office",
+  "bifocal",
+  "progressive",
+  "progressif",
+  "comfort",
+  "vision",
+  "lens",
+  "lenses",
+  "verre",
+  "verres",
+  "clear",
+  "light",
+  "plus",
+  "life",
+  "smart",
+  "drive",
+  "transition",
+  "transitions",
+]);
+
+// Function words never glued to their neighbour: "la vision" must not become "lavision", two
+// typos away from the family "HiVision".
+const STOPWORDS = new Set([
+  "le",
+  "la",
+  "les",
+  "l",
+  "de",
+  "du",
+  "des",
+  "d",
+  "un",
+  "une",
+  "et",
+  "ou",
+  "en",
+  "au",
+  "aux",
+  "pour",
+  "par",
+  "avec",
+  "sans",
+  "sur",
+  "dans",
+  "ce",
+  "c",
+  "est",
+  "je",
+  "j",
+  "vous",
+  "ne",
+  "pas",
+  "the",
+  "a",
+  "an",
+  "of",
+  "for",
+  "to",
+  "and",
+  "or",
+  "in",
+  "on",
+  "with",
+  "is",
+  "في",
+  "من",
+  "على",
+  "هل",
+]);
+
+let cache: CatalogIndex | null = null;
+let pending: Promise<CatalogIndex> | null = null;
+
+export function foldText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/ـ/g, "")
+    .replace(/[أإآٱا]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/ؤ/g, "و")
+    .replace(/ئ/g, "ي")
+    .replace(/[^\p{L}\p{N}.]+/gu, " ")
+    .trim();
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(" ")
+    .map((t) => t.replace(/^\.+|\.+$/g, ""))
+    .filter(Boolean);
+}
+
+function splitCamel(text: string): string {
+  return text.replace(/([a-z])([A-Z])/g, "$1 $2");
+}
+
+function compactKey(text: string): string {
+  return foldText(text).replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+// Optimal string alignment distance (Levenshtein + adjacent transpositions), bounded.
+export function editDistance(a: string, b: string, max = 3): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, d[i][j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return d[rows - 1][cols - 1];
+}
+
+// Allowed typos grow with the word length; short tokens (and numbers) must match exactly.
+function allowedTypos(token: string): number {
+  if (token.length < 4 || /^\d+(?:\.\d+)?$/.test(token)) return 0;
+  if (token.length < 7) return 1;
+  return 2;
+}
+
+// 1 = exact, 0.8 = prefix (≥ 4 chars), 0.7 = typo, 0 = no match.
+function tokenSimilarity(queryToken: string, indexToken: string): number {
+  if (queryToken === indexToken) return 1;
+  if (queryToken.length >= 4 && indexToken.startsWith(queryToken)) return 0.8;
+  const typos = Math.min(allowedTypos(queryToken), allowedTypos(indexToken));
+  if (typos > 0 && editDistance(queryToken, indexToken, typos) <= typos) return 0.7;
+  return 0;
+}
+
+function bestSimilarity(queryTokens: string[], indexToken: string): { score: number; term?: string } {
+  let best = { score: 0, term: undefined as string | undefined };
+  for (const q of queryTokens) {
+    const score = tokenSimilarity(q, indexToken);
+    if (score > best.score) best = { score, term: q };
+  }
+  return best;
+}
+
+export type CatalogIndexRow = {
+  id: string;
+  sku: string;
+  family: string | null;
+  description: string | null;
+  brand: { name: string };
+  photochromicTech: { name: string } | null;
+};
+
+// Separate from the DB read so the matching can be tested on a fixed catalog.
+export function buildCatalogIndex(rows: CatalogIndexRow[]): CatalogIndex {
+  const products = rows.map((row): IndexedProduct => {
+    const brandKey = foldText(row.brand.name);
+    return {
+      id: row.id,
+      sku: row.sku,
+      skuKey: compactKey(row.sku),
+      brand: row.brand.name,
+      brandTokens: [...tokenize(row.brand.name), ...(BRAND_ALIASES[brandKey] ?? []).map(foldText)],
+      familyTokens: row.family
+        ? [...new Set([...tokenize(row.family), ...tokenize(splitCamel(row.family))])]
+        : [],
+      descriptionTokens: new Set([
+        ...tokenize(row.description ?? ""),
+        ...tokenize(row.photochromicTech?.name ?? ""),
+      ]),
+    };
+  });
+
+  return { products, builtAt: Date.now() };
+}
+
+async function buildIndex(): Promise<CatalogIndex> {
+  const rows = await prisma.lensProduct.findMany({
+    select: {
+      id: true,
+      sku: true,
+      family: true,
+      description: true,
+      brand: { select: { name: true } },
+      photochromicTech: { select: { name: true } },
+    },
+  });
+  return buildCatalogIndex(rows);
+}
+
+export async function getCatalogIndex(): Promise<CatalogIndex> {
+  if (cache && Date.now() - cache.builtAt < INDEX_TTL_MS) return cache;
+  if (!pending) {
+    pending = buildIndex()
+      .then((index) => {
+        cache = index;
+        return index;
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }
+  return pending;
+}
+
+// Call after catalog writes so the next search sees them.
+export function invalidateCatalogIndex(): void {
+  cache = null;
+}
+
+// SKU-looking fragments: "ZEIS-AR-150", "hoya_photo_167", "ZEISSAR150".
+function extractSkuCandidates(text: string): string[] {
+  const dashed = text.match(/[\p{L}\p{N}]+(?:[-_][\p{L}\p{N}]+)+/gu) ?? [];
+  const glued = text.match(/\b(?=[A-Za-z]*\d)(?=\d*[A-Za-z])[A-Za-z0-9]{6,}\b/g) ?? [];
+  const candidates = [...dashed, ...glued];
+  return candidates.map(compactKey).filter((c) => c.length >= 6);
+}
+
+export function matchCatalogQuery(index: CatalogIndex, text: string): CatalogQueryMatch {
+  const tokens = tokenize(text);
+  // Adjacent pairs glued together: "blue protect" also tries "blueprotect".
+  const glued = tokens
+    .slice(1)
+    .flatMap((t, i) => (STOPWORDS.has(tokens[i]) || STOPWORDS.has(t) ? [] : [`${tokens[i]}${t}`]));
+  const queryTokens = [...tokens, ...glued];
+  const skuCandidates = extractSkuCandidates(text);
+
+  // Terms naming a brand only match a family exactly: "hoya" is not a prefix hit on "Hoyalux".
+  const brandTerms = new Set(
+    queryTokens.filter((q) => index.products.some((p) => p.brandTokens.some((t) => tokenSimilarity(q, t) >= 0.7))),
+  );
+  const familyQueryTokens = queryTokens.filter((q) => !brandTerms.has(q));
+
+  const skuIds: string[] = [];
+  const brands = new Set<string>();
+  const familyIds: string[] = [];
+  const relevance = new Map<string, number>();
+  const matchedTerms = new Map<string, string[]>();
+
+  for (const p of index.products) {
+    const terms: string[] = [];
+    let score = 0;
+
+    // SKU: whole-key comparison, tolerant to a couple of typos on long SKUs.
+    const skuTypos = p.skuKey.length >= 10 ? 2 : 1;
+    if (skuCandidates.some((c) => c === p.skuKey || editDistance(c, p.skuKey, skuTypos) <= skuTypos)) {
+      skuIds.push(p.id);
+      terms.push(p.sku);
+      score += 1;
+    }
+
+    const brandMatch = p.brandTokens.reduce(
+      (best, t) => {
+        const m = bestSimilarity(queryTokens, t);
+        return m.score > best.score ? m : best;
+      },
+      { score: 0 } as { score: number; term?: string },
+    );
+    if (brandMatch.score >= 0.7) {
+      brands.add(p.brand);
+      score += 0.3 * brandMatch.score;
+    }
+
+    let familyScore = 0;
+    for (const t of p.familyTokens) {
+      const m = brandTerms.has(t) ? { score: 1, term: t } : bestSimilarity(familyQueryTokens, t);
+      if (m.score === 0) continue;
+      familyScore = Math.max(familyScore, m.score);
+      // Only an exact or strong match narrows the search to the family: a short fuzzy hit is
+      // too often an ordinary word.
+      const strong = m.score === 1 || (m.term !== undefined && m.term.length >= 5);
+      if (strong && !GENERIC_TERMS.has(t) && m.term && !GENERIC_TERMS.has(m.term)) {
+        if (!familyIds.includes(p.id)) familyIds.push(p.id);
+        terms.push(m.term);
+      }
+    }
+    score += 0.5 * familyScore;
+
+    let descriptionHits = 0;
+    for (const q of tokens) {
+      if (q.length >= 4 && p.descriptionTokens.has(q)) descriptionHits += 1;
+    }
+    score += Math.min(0.3, descriptionHits * 0.1);
+
+    if (score > 0) relevance.set(p.id, Math.min(1, score));
+    if (terms.length > 0) matchedTerms.set(p.id, terms);
+  }
+
+  // A family of another brand than the one named is a false hit: the brand filter wins then.
+  const familyOfNamedBrand = familyIds.filter(
+    (id) => brands.size === 0 || brands.has(index.products.find((p) => p.id === id)!.brand),
+  );
+
+  return { skuIds, brands: [...brands], familyIds: familyOfNamedBrand, relevance, matchedTerms };
+}
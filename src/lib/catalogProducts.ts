@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+
+// LensProduct input validation and referential checks, shared by the catalog API and the importer.
+
+const PowerSchema = z.number().min(-30).max(30);
+
+const ProductFieldsSchema = z.object({
+  sku: z
+    .string()
+    .trim()
+    .min(1)
+    .max(64)
+    .regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, "SKU: lettres, chiffres, . _ - uniquement"),
+  brandId: z.string().min(1),
+  family: z.string().trim().max(120).nullable().optional(),
+  index: z.union([z.literal(1.5), z.literal(1.56), z.literal(1.6), z.literal(1.67), z.literal(1.74)]),
+  material: z.string().trim().max(80).nullable().optional(),
+  isAspheric: z.boolean().optional(),
+  design: z.enum(["single-vision", "progressive", "office", "bifocal"]).optional(),
+  minSph: PowerSchema.nullable().optional(),
+  maxSph: PowerSchema.nullable().optional(),
+  minCyl: PowerSchema.nullable().optional(),
+  maxCyl: PowerSchema.nullable().optional(),
+  photochromic: z.boolean().optional(),
+  photochromicTechId: z.string().min(1).nullable().optional(),
+  blueCut: z.boolean().optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  // Low-stock alert threshold for this SKU (null = LOW_STOCK_THRESHOLD).
+  lowStockThreshold: z.number().int().min(0).max(1000).nullable().optional(),
+  // Coating codes (e.g. ["AR", "HARD"]); replaces the current links on update.
+  coatings: z.array(z.string().trim().min(1)).max(20).optional(),
+});
+
+function checkRanges(
+  p: { minSph?: number | null; maxSph?: number | null; minCyl?: number | null; maxCyl?: number | null },
+  ctx: z.RefinementCtx,
+) {
+  if (p.minSph != null && p.maxSph != null && p.minSph > p.maxSph) {
+    ctx.addIssue({ code: "custom", path: ["minSph"], message: "minSph doit être ≤ maxSph" });
+  }
+  if (p.minCyl != null && p.maxCyl != null && p.minCyl > p.maxCyl) {
+    ctx.addIssue({ code: "custom", path: ["minCyl"], message: "minCyl doit être ≤ maxCyl" });
+  }
+}
+
+export const ProductInputSchema = ProductFieldsSchema.superRefine(checkRanges);
+
+export const ProductPatchSchema = ProductFieldsSchema.partial().superRefine(checkRanges);
+
+export type ProductInput = z.infer<typeof ProductInputSchema>;
+
+// Checks that referenced brand / photochromic tech / coatings exist. Returns the coating ids to link,
+// or a ready-to-return error response.
+export async function resolveProductRefs(params: {
+  brandId?: string;
+  photochromicTechId?: string | null;
+  coatings?: string[];
+}): Promise<{ coatingIds: string[]; error?: undefined } | { error: NextResponse; coatingIds?: undefined }> {
+  if (params.brandId) {
+    const brand = await prisma.brand.findUnique({ where: { id: params.brandId } });
+    if (!brand) return { error: NextResponse.json({ error: "Marque introuvable" }, { status: 400 }) };
+  }
+
+  if (params.photochromicTechId) {
+    const tech = await prisma.photochromicTech.findUnique({ where: { id: params.photochromicTechId } });
+    if (!tech) {
+      return { error: NextResponse.json({ error: "Technologie photochromique introuvable" }, { status: 400 }) };
+    }
+  }
+
+  const codes = [...new Set(params.coatings ?? [])];
+  const found = codes.length
+    ? await prisma.coating.findMany({ where: { code: { in: codes } }, select: { id: true, code: true } })
+    : [];
+  const unknown = codes.filter((code) => !found.some((c) => c.code === code));
+  if (unknown.length > 0) {
+    return {
+      error: NextResponse.json({ error: `Code(s) de traitement inconnu(s): ${unknown.join(", ")}` }, { status: 400 }),
+    };
+  }
+
+  return { coatingIds: found.map((c) => c.id) };
+}
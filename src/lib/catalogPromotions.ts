@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { PROMOTION_KINDS, PROMOTION_SCOPES, type PromotionScope } from "@/lib/pricing";
+
+// Promotion input validation and target check, shared by the promotion routes.
+
+const PromotionFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  kind: z.enum(PROMOTION_KINDS),
+  // Percent off (1-100) or, for "fixed", cents off.
+  value: z.number().int().min(1),
+  // Currency of a fixed discount (CURRENCY_BASE when null), converted to each stock line’s currency.
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Z]{3}$/, "Devise ISO 4217 (ex: DZD)")
+    .nullable()
+    .optional(),
+  scope: z.enum(PROMOTION_SCOPES),
+  // Brand name, family, coating code or SKU, depending on `scope`.
+  target: z.string().trim().min(1).max(120),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  isActive: z.boolean().optional(),
+});
+
+function checkPromotion(
+  p: { kind?: string; value?: number; startsAt?: Date; endsAt?: Date },
+  ctx: z.RefinementCtx,
+) {
+  if (p.kind === "percent" && p.value !== undefined && p.value > 100) {
+    ctx.addIssue({ code: "custom", path: ["value"], message: "Remise en pourcentage : 100 au maximum" });
+  }
+  if (p.startsAt && p.endsAt && p.endsAt <= p.startsAt) {
+    ctx.addIssue({ code: "custom", path: ["endsAt"], message: "endsAt doit être après startsAt" });
+  }
+}
+
+export const PromotionInputSchema = PromotionFieldsSchema.superRefine(checkPromotion);
+
+export const PromotionPatchSchema = PromotionFieldsSchema.partial().superRefine(checkPromotion);
+
+export type PromotionInput = z.infer<typeof PromotionInputSchema>;
+
+// Coating codes are stored upper-case; other targets are kept as typed (matching ignores case).
+export function normalizeTarget(scope: PromotionScope, target: string): string {
+  return scope === "coating" ? target.toUpperCase() : target;
+}
+
+// Checks that the promotion targets something in the catalog; returns a ready-to-return error otherwise.
+export async function checkPromotionTarget(scope: PromotionScope, target: string): Promise<NextResponse | null> {
+  const count =
+    scope === "brand"
+      ? await prisma.brand.count({ where: { name: target } })
+      : scope === "family"
+        ? await prisma.lensProduct.count({ where: { family: target } })
+        : scope === "coating"
+          ? await prisma.coating.count({ where: { code: target } })
+          : await prisma.lensProduct.count({ where: { sku: target } });
+  if (count > 0) return null;
+  return NextResponse.json({ error: `Cible de promotion introuvable (${scope} : ${target})` }, { status: 400 });
+}
@@ -1,5 +1,22 @@
 import { prisma } from "@/lib/db";
-import type { Recommendation } from "@/lib/recommendation";
+import { convertMinor, currencyBase, formatMoney, quotePrice } from "@/lib/currency";
+import type { SupportedLanguage } from "@/lib/language";
+import { normalizePrescription } from "@/lib/prescriptionNormalize";
+import { getCatalogIndex, matchCatalogQuery } from "@/lib/catalogIndex";
+import {
+  effectivePrice,
+  getActivePromotions,
+  type AppliedPromotion,
+  type EffectivePrice,
+} from "@/lib/pricing";
+import { DEFAULT_RANKING_WEIGHTS, type RankingWeights } from "@/lib/rankingProfiles";
+import { orderLeadTimeDays } from "@/lib/suppliers";
+import {
+  parseLensDesign,
+  type EyePrescription,
+  type Prescription,
+  type Recommendation,
+} from "@/lib/recommendation";
 
 export type CatalogHit = {
   sku: string;
@@ -7,6 +24,7 @@ export type CatalogHit = {
   family?: string | null;
   index: number;
   isAspheric: boolean;
+  design: string;
   photochromic: boolean;
   photochromicTech?: {
     name: string;
@@ -16,16 +34,104 @@ export type CatalogHit = {
     descriptionDarija?: string | null;
   } | null;
   blueCut: boolean;
-  coatings: Array<{ code: string; labelFr: string; labelEn: string }>;
+  coatings: Array<{ code: string; labelFr: string; labelEn: string; labelAr: string | null; labelDarija: string | null }>;
   description?: string | null;
+  // "ok" when the prescription was checked against the product's SPH/CYL range,
+  // "unknown" when there is no prescription or the product has no range in DB.
+  prescriptionFit: "ok" | "unknown";
+  // Ranking score, its per-criterion breakdown and human-readable reasons (matches and gaps).
+  score: number;
+  scoreBreakdown: ScoreComponent[];
+  matchReasons: string[];
   inventory: {
+    id: string;
+    // Price to pay today (promotion applied), and the regular price.
     priceCents: number;
+    basePriceCents: number;
+    promotion: AppliedPromotion | null;
     currency: string;
+    // Available to sell: units on hold (src/lib/reservations.ts) are already deducted.
     quantity: number;
     supplier?: string | null;
   } | null;
+  // Days to get the lens on order from its fastest supplier (src/lib/suppliers.ts); null when unknown.
+  orderLeadTimeDays: number | null;
 };
 
+export type ScoreCriterion =
+  | "stock"
+  | "index"
+  | "photochromic"
+  | "blueCut"
+  | "coatings"
+  | "prescriptionRange"
+  | "brand"
+  | "price"
+  | "query";
+
+export type ScoreComponent = {
+  criterion: ScoreCriterion;
+  points: number;
+  // "match" adds points, "missing" flags a gap versus the request/recommendation (0 point).
+  kind: "match" | "missing";
+  reason: string;
+};
+
+export type OutOfRangeProduct = {
+  sku: string;
+  issues: string[];
+};
+
+export type CatalogSearchResult = {
+  hits: CatalogHit[];
+  // Products matching the query that cannot be made for the prescription.
+  outOfRange: OutOfRangeProduct[];
+  // Set only when products matched the query but none fits the prescription.
+  outOfRangeReason?: string;
+};
+
+type RxRange = {
+  minSph: number | null;
+  maxSph: number | null;
+  minCyl: number | null;
+  maxCyl: number | null;
+};
+
+function hasRange(range: RxRange): boolean {
+  return range.minSph !== null || range.maxSph !== null || range.minCyl !== null || range.maxCyl !== null;
+}
+
+function formatPower(n: number): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(2)}`;
+}
+
+function checkEyeRange(label: string, eye: EyePrescription, range: RxRange): string[] {
+  const issues: string[] = [];
+  const bounds = (min: number | null, max: number | null) =>
+    `[${min !== null ? formatPower(min) : "-∞"} ; ${max !== null ? formatPower(max) : "+∞"}]`;
+
+  if (eye.sph !== undefined) {
+    if ((range.minSph !== null && eye.sph < range.minSph) || (range.maxSph !== null && eye.sph > range.maxSph)) {
+      issues.push(`${label} SPH ${formatPower(eye.sph)} hors plage ${bounds(range.minSph, range.maxSph)}`);
+    }
+  }
+  if (eye.cyl !== undefined) {
+    if ((range.minCyl !== null && eye.cyl < range.minCyl) || (range.maxCyl !== null && eye.cyl > range.maxCyl)) {
+      issues.push(`${label} CYL ${formatPower(eye.cyl)} hors plage ${bounds(range.minCyl, range.maxCyl)}`);
+    }
+  }
+  return issues;
+}
+
+// Expects a normalized (minus-cyl) prescription, the convention of LensProduct ranges.
+function checkPrescriptionRange(prescription: Prescription | undefined, range: RxRange): string[] {
+  if (!prescription) return [];
+  return [
+    ...(prescription.od ? checkEyeRange("OD", prescription.od, range) : []),
+    ...(prescription.os ? checkEyeRange("OG", prescription.os, range) : []),
+  ];
+}
+
 function normalize(text: string) {
   return text.toLowerCase().trim();
 }
@@ -37,39 +143,175 @@ function extractDesiredIndex(text: string): number | undefined {
   return Number.isFinite(v) ? v : undefined;
 }
 
-function extractBrand(text: string): string | undefined {
-  const t = normalize(text);
-  if (t.includes("zeiss")) return "Zeiss";
-  if (t.includes("essilor")) return "Essilor";
-  if (t.includes("crizal")) return "Crizal";
-  if (t.includes("hoya") || t.includes("هويا")) return "Hoya";
-  if (t.includes("distributeur")) return "Distributeur";
-  return undefined;
-}
-
 function wants(text: string, patterns: RegExp[]): boolean {
   return patterns.some((p) => p.test(text));
 }
 
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Quantity at which the stock-rotation bonus reaches its full weight.
+const STOCK_ROTATION_FULL_QTY = 20;
+
+// Points for a full free-text match (SKU/family/brand/description named in the message).
+const QUERY_MATCH_POINTS = 3;
+
+type ScoredLens = {
+  index: number;
+  brand: { name: string };
+  photochromic: boolean;
+  blueCut: boolean;
+  minSph: number | null;
+  maxSph: number | null;
+  minCyl: number | null;
+  maxCyl: number | null;
+  coatings: Array<{ coating: { code: string } }>;
+  inventory: Array<{ quantity: number }>;
+};
+
+function scoreLens(
+  lens: ScoredLens,
+  ctx: {
+    indexTarget?: number;
+    wantPhoto: boolean;
+    wantBlue: boolean;
+    recommendedCoatings: Recommendation["coatings"];
+    prescriptionChecked: boolean;
+    weights: RankingWeights;
+    // Effective price of the shown stock line and the span of the candidates, for the price band preference
+    // (both in CURRENCY_BASE so that stock lines in different currencies compare).
+    priceCents?: number;
+    priceSpan?: { min: number; max: number };
+    // Free-text relevance (0..1) and the query terms that matched this product.
+    queryRelevance?: number;
+    queryTerms?: string[];
+  },
+): ScoreComponent[] {
+  const w = ctx.weights;
+  const components: ScoreComponent[] = [];
+  const match = (criterion: ScoreCriterion, points: number, reason: string) =>
+    components.push({ criterion, points: round2(points), kind: "match", reason });
+  const missing = (criterion: ScoreCriterion, reason: string) =>
+    components.push({ criterion, points: 0, kind: "missing", reason });
+
+  // Prefer in-stock
+  const inv = lens.inventory[0];
+  if (inv && inv.quantity > 0) match("stock", w.inStockWeight, "en stock");
+  else missing("stock", "rupture de stock");
+
+  // Stock rotation: push products with more units on hand
+  if (w.stockQuantityWeight > 0 && inv && inv.quantity > 0) {
+    const points = w.stockQuantityWeight * Math.min(1, inv.quantity / STOCK_ROTATION_FULL_QTY);
+    match("stock", points, `rotation de stock (${inv.quantity} unités)`);
+  }
+
+  // Index closeness (full weight when equal, 0 from 0.4 of difference)
+  if (ctx.indexTarget) {
+    const diff = Math.abs(lens.index - ctx.indexTarget);
+    const points = Math.max(0, w.indexWeight * (1 - diff * 2.5));
+    if (diff < 0.005) match("index", points, `indice ${ctx.indexTarget} conforme`);
+    else if (points > 0) match("index", points, `indice ${lens.index} proche de ${ctx.indexTarget}`);
+    else missing("index", `indice ${lens.index} éloigné de ${ctx.indexTarget}`);
+  }
+
+  // Feature match
+  if (ctx.wantPhoto) {
+    if (lens.photochromic) match("photochromic", w.featureWeight, "photochromique");
+    else missing("photochromic", "manque PHOTO");
+  }
+  if (ctx.wantBlue) {
+    if (lens.blueCut) match("blueCut", w.featureWeight, "BlueCut");
+    else missing("blueCut", "manque BLUECUT");
+  }
+
+  // More coatings slightly better
+  const codes = lens.coatings.map((c) => c.coating.code);
+  if (codes.length > 0) {
+    const points = Math.min(w.coatingWeight, (codes.length * w.coatingWeight) / 8);
+    match("coatings", points, `${codes.length} traitement(s): ${codes.join(", ")}`);
+  }
+  // Recommended coatings the lens lacks (PHOTO/BLUECUT are also carried by the lens flags).
+  for (const code of ctx.recommendedCoatings) {
+    const has =
+      codes.includes(code) || (code === "PHOTO" && lens.photochromic) || (code === "BLUECUT" && lens.blueCut);
+    if (has) continue;
+    if ((code === "PHOTO" && ctx.wantPhoto) || (code === "BLUECUT" && ctx.wantBlue)) continue; // already reported
+    missing("coatings", `manque ${code}`);
+  }
+
+  // Prescription verified against a known manufacturing range
+  if (ctx.prescriptionChecked) {
+    if (hasRange(lens)) match("prescriptionRange", w.rangeWeight, "prescription dans la plage de fabrication");
+    else missing("prescriptionRange", "plage de fabrication non renseignée");
+  }
+
+  // Store preference: house brand(s)
+  if (w.brandWeight > 0 && w.preferredBrands.some((b) => normalize(b) === normalize(lens.brand.name))) {
+    match("brand", w.brandWeight, `marque privilégiée (${lens.brand.name})`);
+  }
+
+  // Store preference: price band among the candidates (e.g. "high" to favor margin)
+  if (w.priceBand && w.priceWeight > 0 && ctx.priceCents !== undefined && ctx.priceSpan) {
+    const { min, max } = ctx.priceSpan;
+    const position = max > min ? (ctx.priceCents - min) / (max - min) : 0.5;
+    const fit =
+      w.priceBand === "low" ? 1 - position : w.priceBand === "high" ? position : 1 - Math.abs(position - 0.5) * 2;
+    const label = { low: "entrée de gamme", mid: "milieu de gamme", high: "haut de gamme" }[w.priceBand];
+    if (fit > 0) match("price", w.priceWeight * fit, `gamme de prix ${label}`);
+  }
+
+  // Named in the customer message (SKU, family, brand, description words)
+  if (ctx.queryRelevance) {
+    const terms = ctx.queryTerms?.length ? ` « ${ctx.queryTerms.join(", ")} »` : "";
+    match("query", QUERY_MATCH_POINTS * ctx.queryRelevance, `correspond à la demande${terms}`);
+  }
+
+  return components;
+}
+
 export async function searchCatalog(params: {
   userText: string;
   recommendation?: Recommendation;
+  // When provided, products whose SPH/CYL range excludes it are filtered out.
+  prescription?: Prescription;
+  // Ranking weights (see rankingProfiles.ts); the built-in weights by default.
+  ranking?: RankingWeights;
   limit?: number;
-}): Promise<CatalogHit[]> {
+}): Promise<CatalogSearchResult> {
   const { userText } = params;
   const limit = params.limit ?? 6;
 
-  const brand = extractBrand(userText);
+  // SKU/family/brand named in the text, fuzzy-matched against the catalog itself.
+  const query = matchCatalogQuery(await getCatalogIndex(), userText);
+  // An explicitly named SKU is shown even if it does not follow the recommendation (design/options).
+  const followRecommendation = query.skuIds.length === 0;
+  const recommendation = followRecommendation ? params.recommendation : undefined;
+
   const desiredIndex = extractDesiredIndex(userText);
+  const design = parseLensDesign(userText) ?? recommendation?.design;
+
+  const wantPhoto = wants(userText, [/photo/i, /transition/i]) || (recommendation?.wantPhotochromic ?? false);
+  const wantBlue =
+    wants(userText, [/blue\s*cut/i, /lumi[eè]re\s*bleue/i, /screen/i, /ordinateur/i]) ||
+    (recommendation?.wantBlueCut ?? false);
 
-  const wantPhoto = wants(userText, [/photo/i, /transition/i]) || (params.recommendation?.wantPhotochromic ?? false);
-  const wantBlue = wants(userText, [/blue\s*cut/i, /lumi[eè]re\s*bleue/i, /screen/i, /ordinateur/i]) || (params.recommendation?.wantBlueCut ?? false);
+  // Narrowest thing the customer named: SKU > family > brand (a family only of the named brand,
+  // see matchCatalogQuery).
+  const productIds =
+    query.skuIds.length > 0 ? query.skuIds : query.familyIds.length > 0 ? query.familyIds : undefined;
+  const productFilter = productIds
+    ? { id: { in: productIds } }
+    : query.brands.length > 0
+      ? { brand: { name: { in: query.brands } } }
+      : {};
 
-  const indexTarget = desiredIndex ?? params.recommendation?.recommendedIndex;
+  const indexTarget = desiredIndex ?? recommendation?.recommendedIndex;
 
   const results = await prisma.lensProduct.findMany({
     where: {
-      ...(brand ? { brand: { name: brand } } : {}),
+      ...productFilter,
+      ...(design ? { design } : {}),
       ...(wantPhoto ? { photochromic: true } : {}),
       ...(wantBlue ? { blueCut: true } : {}),
       inventory: {
@@ -90,45 +332,64 @@ export async function searchCatalog(params: {
         where: { isActive: true },
         orderBy: [{ quantity: "desc" }, { updatedAt: "desc" }],
         take: 1,
+        include: { supplier: true },
       },
+      supplierOffers: { include: { supplier: true } },
     },
     take: 50,
   });
 
-  const scored = results
-    .map((lens) => {
-      let score = 0;
-
-      // Prefer in-stock
-      const inv = lens.inventory[0];
-      if (inv && inv.quantity > 0) score += 5;
-
-      // Index closeness
-      if (indexTarget) {
-        const diff = Math.abs(lens.index - indexTarget);
-        score += Math.max(0, 4 - diff * 10);
-      }
-
-      // Feature match
-      if (wantPhoto && lens.photochromic) score += 2;
-      if (wantBlue && lens.blueCut) score += 2;
+  // Products that cannot be manufactured for the prescription are never suggested.
+  const prescription = params.prescription ? normalizePrescription(params.prescription).prescription : undefined;
+  const outOfRange: OutOfRangeProduct[] = [];
+  const inRange = results.filter((lens) => {
+    const issues = checkPrescriptionRange(prescription, lens);
+    if (issues.length === 0) return true;
+    outOfRange.push({ sku: lens.sku, issues });
+    return false;
+  });
 
-      // More coatings slightly better
-      score += Math.min(2, lens.coatings.length * 0.25);
+  // Ranking and answers use today's price, promotions included.
+  const promotions = await getActivePromotions();
+  const priceByLens = new Map<string, EffectivePrice>();
+  for (const lens of inRange) {
+    if (lens.inventory[0]) priceByLens.set(lens.id, effectivePrice(lens.inventory[0], lens, promotions));
+  }
+  const comparable = (p: EffectivePrice | undefined) =>
+    p ? (convertMinor(p.priceCents, p.currency, currencyBase()) ?? undefined) : undefined;
+  const prices = [...priceByLens.values()].flatMap((p) => comparable(p) ?? []);
+  const priceSpan = prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : undefined;
 
-      return { lens, score };
+  const scored = inRange
+    .map((lens) => {
+      const breakdown = scoreLens(lens, {
+        indexTarget,
+        wantPhoto,
+        wantBlue,
+        recommendedCoatings: recommendation?.coatings ?? [],
+        prescriptionChecked: Boolean(prescription),
+        weights: params.ranking ?? DEFAULT_RANKING_WEIGHTS,
+        priceCents: comparable(priceByLens.get(lens.id)),
+        priceSpan,
+        queryRelevance: query.relevance.get(lens.id),
+        queryTerms: query.matchedTerms.get(lens.id),
+      });
+      const score = breakdown.reduce((sum, c) => sum + c.points, 0);
+      return { lens, score, breakdown };
     })
     .sort((a, b) => b.score - a.score)
     .slice(0, limit);
 
-  return scored.map(({ lens }) => {
+  const hits = scored.map(({ lens, score, breakdown }): CatalogHit => {
     const inv = lens.inventory[0];
+    const price = priceByLens.get(lens.id);
     return {
       sku: lens.sku,
       brand: lens.brand.name,
       family: lens.family,
       index: lens.index,
       isAspheric: lens.isAspheric,
+      design: lens.design,
       photochromic: lens.photochromic,
       photochromicTech: lens.photochromicTech
         ? {
@@ -144,44 +405,109 @@ export async function searchCatalog(params: {
         code: c.coating.code,
         labelFr: c.coating.labelFr,
         labelEn: c.coating.labelEn,
+        labelAr: c.coating.labelAr,
+        labelDarija: c.coating.labelDarija,
       })),
       description: lens.description,
-      inventory: inv
-        ? {
-            priceCents: inv.priceCents,
-            currency: inv.currency,
-            quantity: inv.quantity,
-            supplier: inv.supplier,
-          }
-        : null,
+      prescriptionFit: prescription && hasRange(lens) ? "ok" : "unknown",
+      score: round2(score),
+      scoreBreakdown: breakdown,
+      matchReasons: breakdown.map((c) => c.reason),
+      inventory:
+        inv && price
+          ? {
+              id: inv.id,
+              priceCents: price.priceCents,
+              basePriceCents: price.basePriceCents,
+              promotion: price.promotion,
+              currency: inv.currency,
+              quantity: inv.quantity,
+              supplier: inv.supplier?.name ?? null,
+            }
+          : null,
+      orderLeadTimeDays: orderLeadTimeDays(lens),
     };
   });
+
+  const outOfRangeReason =
+    hits.length === 0 && outOfRange.length > 0
+      ? `Prescription hors plage de fabrication pour les ${outOfRange.length} produit(s) correspondant(s): ${outOfRange
+          .slice(0, 3)
+          .map((p) => `${p.sku} (${p.issues.join(", ")})`)
+          .join("; ")}`
+      : undefined;
+
+  return { hits, outOfRange, outOfRangeReason };
+}
+
+// Formatted in the quote currency when a rate is known, with the stored amount alongside.
+export function formatQuotedPrice(
+  amountMinor: number,
+  currency: string,
+  opts?: { lang?: SupportedLanguage; quoteCurrency?: string | null },
+): string {
+  const quoted = quotePrice(amountMinor, currency, opts?.quoteCurrency);
+  const shown = formatMoney(quoted.amountMinor, quoted.currency, opts?.lang);
+  return quoted.converted ? `≈${shown} (${formatMoney(amountMinor, currency, opts?.lang)})` : shown;
 }
 
 export function formatCatalogContextForPrompt(
   hits: CatalogHit[],
-  opts?: { includePrice?: boolean; includeAvailability?: boolean },
+  opts?: {
+    includePrice?: boolean;
+    includeAvailability?: boolean;
+    // Append the ranking reasons ("why this lens") to each line.
+    includeReasons?: boolean;
+    outOfRangeReason?: string;
+    // Price formatting: answer language and the store's quote currency (see src/lib/currency.ts).
+    lang?: SupportedLanguage;
+    quoteCurrency?: string | null;
+  },
 ): string {
-  if (hits.length === 0) return "(Aucun produit trouvé dans la base de données.)";
+  if (hits.length === 0) {
+    return opts?.outOfRangeReason
+      ? "(Aucun produit compatible avec la prescription dans la base de données.)"
+      : "(Aucun produit trouvé dans la base de données.)";
+  }
 
   const includePrice = opts?.includePrice ?? false;
   const includeAvailability = opts?.includeAvailability ?? false;
+  const includeReasons = opts?.includeReasons ?? false;
 
   return hits
     .map((h, i) => {
       const coatings = h.coatings.map((c) => c.code).join(", ");
       const tech = h.photochromicTech ? ` | Tech: ${h.photochromicTech.name}` : "";
 
-      const base = `${i + 1}. SKU=${h.sku} | ${h.brand}${h.family ? " " + h.family : ""} | index=${h.index} | asph=${h.isAspheric ? "yes" : "no"} | photo=${h.photochromic ? "yes" : "no"}${tech} | blueCut=${h.blueCut ? "yes" : "no"} | coatings=[${coatings}]`;
+      const base = `${i + 1}. SKU=${h.sku} | ${h.brand}${h.family ? " " + h.family : ""} | index=${h.index} | design=${h.design} | asph=${h.isAspheric ? "yes" : "no"} | photo=${h.photochromic ? "yes" : "no"}${tech} | blueCut=${h.blueCut ? "yes" : "no"} | coatings=[${coatings}]`;
 
       const parts: string[] = [base];
       if (includePrice) {
-        const price = h.inventory ? `${(h.inventory.priceCents / 100).toFixed(0)} ${h.inventory.currency}` : "N/A";
-        parts.push(`price=${price}`);
+        const inv = h.inventory;
+        const money = (cents: number, currency: string) => formatQuotedPrice(cents, currency, opts);
+        parts.push(`price=${inv ? money(inv.priceCents, inv.currency) : "N/A"}`);
+        // Promotions are only worth mentioning in a price answer, hence behind includePrice.
+        if (inv?.promotion) {
+          const p = inv.promotion;
+          const off = p.kind === "percent" ? `${p.value}%` : money(inv.basePriceCents - inv.priceCents, inv.currency);
+          const until = p.endsAt.toISOString().slice(0, 10);
+          const regular = money(inv.basePriceCents, inv.currency);
+          parts.push(`promo=[${p.name} -${off}, regular price ${regular}, until ${until}]`);
+        }
       }
       if (includeAvailability) {
         const stock = h.inventory ? `${h.inventory.quantity}` : "N/A";
         parts.push(`stock=${stock}`);
+        if (h.inventory?.quantity === 0 && h.orderLeadTimeDays !== null) {
+          parts.push(`onOrder≈${h.orderLeadTimeDays} days`);
+        }
+      }
+      if (includeReasons) {
+        // Stock stays out of the prompt unless availability was asked.
+        const reasons = h.scoreBreakdown
+          .filter((c) => includeAvailability || c.criterion !== "stock")
+          .map((c) => c.reason);
+        if (reasons.length > 0) parts.push(`why=[${reasons.join("; ")}]`);
       }
       return parts.join(" | ");
     })
@@ -0,0 +1,101 @@
+import type { SupportedLanguage } from "@/lib/language";
+
+// Money helpers. Amounts are stored as integers in the currency's minor unit (the `priceCents`
+// columns hold centimes for DZD and EUR, millimes for TND). No server-only imports: the back-office
+// UI formats prices with the same functions.
+
+export const DEFAULT_CURRENCY = "DZD";
+
+// Digits of the minor unit (ISO 4217). Unlisted currencies fall back to what Intl knows, else 2.
+const MINOR_UNITS: Record<string, number> = {
+  DZD: 2,
+  EUR: 2,
+  USD: 2,
+  GBP: 2,
+  CHF: 2,
+  CAD: 2,
+  MAD: 2,
+  TND: 3,
+  LYD: 3,
+  JPY: 0,
+};
+
+export function minorUnits(currency: string): number {
+  const known = MINOR_UNITS[currency];
+  if (known !== undefined) return known;
+  try {
+    return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+export function toMajor(amountMinor: number, currency: string): number {
+  return amountMinor / 10 ** minorUnits(currency);
+}
+
+export function toMinor(amountMajor: number, currency: string): number {
+  return Math.round(amountMajor * 10 ** minorUnits(currency));
+}
+
+const LOCALES: Record<SupportedLanguage, string> = { fr: "fr-DZ", en: "en", ar: "ar-DZ", dz: "ar-DZ" };
+
+// "9 800 DA" (fr), "‏9.800 د.ج.‏" (ar/dz), "DZD 9,800" (en). Decimals are shown only when the
+// amount has some (lens prices are usually whole dinars/euros).
+export function formatMoney(amountMinor: number, currency: string, lang: SupportedLanguage = "fr"): string {
+  const digits = minorUnits(currency);
+  const fraction = amountMinor % 10 ** digits === 0 ? 0 : digits;
+  try {
+    return new Intl.NumberFormat(LOCALES[lang], {
+      style: "currency",
+      currency,
+      minimumFractionDigits: fraction,
+      maximumFractionDigits: fraction,
+    }).format(toMajor(amountMinor, currency));
+  } catch {
+    // Not an ISO code Intl knows.
+    return `${toMajor(amountMinor, currency).toFixed(fraction)} ${currency}`;
+  }
+}
+
+// Conversion rates, as the value of one unit of each currency in CURRENCY_BASE (DZD by default):
+// CURRENCY_RATES="EUR=148.5,USD=135.2". Read on each call so a restart is not needed in dev.
+export function currencyBase(): string {
+  return (process.env.CURRENCY_BASE || DEFAULT_CURRENCY).toUpperCase();
+}
+
+export function currencyRates(): Map<string, number> {
+  const rates = new Map<string, number>([[currencyBase(), 1]]);
+  for (const entry of (process.env.CURRENCY_RATES ?? "").split(",")) {
+    const [code, value] = entry.split("=").map((s) => s.trim());
+    const rate = Number(value);
+    if (code && /^[A-Za-z]{3}$/.test(code) && Number.isFinite(rate) && rate > 0) rates.set(code.toUpperCase(), rate);
+  }
+  return rates;
+}
+
+// Converts between currencies (minor units in, minor units out); null when a rate is missing.
+export function convertMinor(amountMinor: number, from: string, to: string): number | null {
+  if (from === to) return amountMinor;
+  const rates = currencyRates();
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (fromRate === undefined || toRate === undefined) return null;
+  return toMinor((toMajor(amountMinor, from) * fromRate) / toRate, to);
+}
+
+export type DisplayedPrice = {
+  amountMinor: number;
+  currency: string;
+  // Set when the amount was converted from the stock line's currency.
+  converted: boolean;
+};
+
+// Price in the store's quote currency when one is set and a rate is known, else as stored.
+export function quotePrice(amountMinor: number, currency: string, quoteCurrency?: string | null): DisplayedPrice {
+  if (quoteCurrency && quoteCurrency !== currency) {
+    const converted = convertMinor(amountMinor, currency, quoteCurrency);
+    if (converted !== null) return { amountMinor: converted, currency: quoteCurrency, converted: true };
+  }
+  return { amountMinor, currency, converted: false };
+}
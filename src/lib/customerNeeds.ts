@@ -0,0 +1,147 @@
+import type { Budget, VisualNeed } from "@/lib/recommendation";
+
+// Deterministic extraction of visual needs and budget signals from free text (FR/EN/AR/Darija).
+// Patterns are deliberately conservative: a missed need only costs a follow-up question,
+// a false positive pushes an unwanted coating.
+
+export type CustomerNeeds = {
+  needs: VisualNeed[];
+  budget?: Budget;
+};
+
+const NEED_PATTERNS: Array<{ need: VisualNeed; patterns: RegExp[] }> = [
+  {
+    need: "screen",
+    patterns: [
+      /(ordinateur|\bordi\b|[ée]crans?\b|\bpc\b|laptop|portable|t[ée]l[ée]travail|gaming|jeux\s+vid[ée]o|smartphone)/i,
+      /(\bcomputer\b|\bscreens?\b|\bmonitor\b|\bgaming\b|\bcoding\b)/i,
+      /(شاشة|الشاشات|حاسوب|كمبيوتر|الكمبيوتر|البيسي|بيسي|التيليفون)/,
+    ],
+  },
+  {
+    need: "driving",
+    patterns: [
+      /(\bconduir[e]?\b|\bconduis\b|\bconduite\b|\bvoiture\b|\bau\s+volant\b|\bchauffeur\b|\btaxi\b)/i,
+      /(\bdriv(?:e|es|ing|er)\b|\bby\s+car\b|\bin\s+the\s+car\b)/i,
+      /(\bnsoug\b|\bnsog\b|\btonobil\b|\btomobil\b)/i,
+      /(سياقة|القيادة|أسوق|اسوق|سيارة|السيارة|نسوق|السوقان|طوموبيل|الطوموبيل|طونوبيل)/,
+    ],
+  },
+  {
+    need: "outdoor",
+    patterns: [
+      /(\bext[ée]rieur\b|\bdehors\b|\bsoleil\b|\bplage\b|\brandonn[ée]e\b|\bchantier\b)/i,
+      /(\boutdoors?\b|\boutside\b|\bsun(?:ny|light)?\b|\bbeach\b|\bhiking\b)/i,
+      /(\bchems\b|\bberra\b)/i,
+      /(الشمس|في\s*الخارج|خارج\s*البيت|(?:^|\s)برا(?:\s|$)|البحر)/,
+    ],
+  },
+  {
+    need: "easy-clean",
+    patterns: [
+      /(nettoy|traces?\s+de\s+doigts|salissures?|\bbu[ée]e\b|se\s+salissent)/i,
+      /(\beasy\s+to\s+clean\b|\bsmudges?\b|\bfingerprints?\b|\bfog(?:ging)?\b)/i,
+      /(تنظيف|ينظف|البصمات|الضباب)/,
+    ],
+  },
+  {
+    need: "premium-clarity",
+    patterns: [
+      /(nettet[ée]|vision\s+(?:tr[eè]s\s+)?nette|meilleure\s+vision|haute\s+d[ée]finition)/i,
+      /(\bclarity\b|\bsharp(?:est)?\s+vision\b|\bcrisp\b)/i,
+      /(وضوح|رؤية\s*واضحة)/,
+    ],
+  },
+  {
+    need: "reading",
+    patterns: [
+      /(\blire\b|\blecture\b|\bje\s+lis\b|\bde\s+pr[eè]s\b|\bcouture\b)/i,
+      /(\bread(?:ing)?\b|\bnear\s+vision\b|\bclose\s+up\b)/i,
+      /(\bnqra\b|\bnaqra\b)/i,
+      /(قراءة|القراءة|أقرأ|اقرأ|نقرا|نقرأ)/,
+    ],
+  },
+  {
+    need: "office",
+    patterns: [
+      /(\bau\s+bureau\b|\btravail\s+de\s+bureau\b|\bsecr[ée]taire\b|\bcomptable\b)/i,
+      /(\boffice\s+work\b|\bat\s+the\s+office\b|\bdesk\s+(?:job|work)\b)/i,
+      /(في\s*المكتب|عمل\s*مكتبي|البيرو)/,
+    ],
+  },
+];
+
+const BUDGET_PATTERNS: Array<{ budget: Budget; patterns: RegExp[] }> = [
+  {
+    budget: "basic",
+    patterns: [
+      /(pas\s+(?:tr[eè]s\s+)?cher|moins\s+cher|bon\s+march[ée]|[ée]conomique|petit\s+budget|budget\s+(?:serr[ée]|limit[ée]|r[ée]duit)|premier\s+prix|entr[ée]e\s+de\s+gamme)/i,
+      /(\bcheap(?:er|est)?\b|\baffordable\b|\blow\s+budget\b|\btight\s+budget\b|\bbudget\s+option\b|\bentry[-\s]level\b)/i,
+      /(\bmachi\s+ghali\b|\bmashi\s+ghali\b|\brkhis\b|\brkhiss\b)/i,
+      /(رخيص|أرخص|ارخص|ميزانية\s*محدودة|ماشي\s*غالي|مش\s*غالي|بسعر\s*معقول)/,
+    ],
+  },
+  {
+    budget: "mid",
+    patterns: [
+      /(milieu\s+de\s+gamme|budget\s+moyen|rapport\s+qualit[ée][\s/-]+prix)/i,
+      /(\bmid[-\s]?range\b|\bmoderate\s+budget\b|\bvalue\s+for\s+money\b)/i,
+      /(متوسط|ميزانية\s*متوسطة)/,
+    ],
+  },
+  {
+    budget: "premium",
+    patterns: [
+      /(haut\s+de\s+gamme|\bpremium\b|le\s+prix\s+importe\s+peu|peu\s+importe\s+le\s+prix)/i,
+      /(\bhigh[-\s]end\b|\btop\s+of\s+the\s+range\b|\bmoney\s+is\s+not\s+an\s+issue\b)/i,
+      /(\blkhir\b|\bel\s+khir\b|\bwahed\s+mlih\b)/i,
+      /(أحسن\s*حاجة|فاخر|غالي\s*ماشي\s*مشكل|ماشي\s*مشكل\s*السومة)/,
+    ],
+  },
+];
+
+// Negation right before a keyword ("pas de voiture", "sans écran", "I don't drive", "ما نسوقش"),
+// or French "ne … pas" around it ("je ne conduis pas").
+const NEGATION_BEFORE =
+  /(?:\b(?:pas|sans|jamais|no|not|never|without|don['’]?t|doesn['’]?t)|(?:^|\s)(?:ما|مش|بدون|بلا|لا))\s+(?:(?:de|d['’]|du|la|le|les|l['’]|en|au|un|une|a|an|the|any|my)\s*)?$/i;
+const NE_BEFORE = /\b(?:ne\s+|n['’])\s*$/i;
+const PAS_AFTER = /^\s*(?:pas|jamais|plus)\b/i;
+
+function isNegated(text: string, start: number, end: number): boolean {
+  const before = text.slice(0, start);
+  return NEGATION_BEFORE.test(before) || (NE_BEFORE.test(before) && PAS_AFTER.test(text.slice(end)));
+}
+
+function mentions(text: string, pattern: RegExp): boolean {
+  for (const m of text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+    if (!isNegated(text, m.index, m.index + m[0].length)) return true;
+  }
+  return false;
+}
+
+export function extractCustomerNeeds(text: string): CustomerNeeds {
+  const needs = NEED_PATTERNS.filter(({ patterns }) => patterns.some((p) => mentions(text, p))).map(
+    ({ need }) => need,
+  );
+
+  // Only one budget level makes sense; the most specific cheap/expensive signal wins over "mid".
+  const budgets = BUDGET_PATTERNS.filter(({ patterns }) => patterns.some((p) => p.test(text))).map(
+    ({ budget }) => budget,
+  );
+  const budget = budgets.includes("basic")
+    ? "basic"
+    : budgets.includes("premium")
+      ? "premium"
+      : budgets[0];
+
+  return { needs, budget };
+}
+
+// Needs accumulate over the conversation; a newer budget replaces the previous one.
+export function mergeCustomerNeeds(previous: CustomerNeeds | undefined, next: CustomerNeeds): CustomerNeeds {
+  const needs = [...(previous?.needs ?? [])];
+  for (const need of next.needs) {
+    if (!needs.includes(need)) needs.push(need);
+  }
+  return { needs, budget: next.budget ?? previous?.budget };
+}
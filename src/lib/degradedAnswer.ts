@@ -0,0 +1,216 @@
+import type { SupportedLanguage } from "@/lib/language";
+import type { LensDesign, Recommendation } from "@/lib/recommendation";
+import { formatQuotedPrice, type CatalogHit } from "@/lib/catalogSearch";
+
+// Degraded mode: the chat's answer when no LLM provider responds (end of the fallback chain, see
+// src/lib/llmFailover.ts). Templated in FR/EN/AR/Darija from the deterministic recommendation and
+// the catalog search: recommended index and design, coatings, the three best products and, when
+// the customer asked, their price. Nothing here is invented: every fact comes from the inputs.
+
+export type DegradedAnswerInput = {
+  lang: SupportedLanguage;
+  recommendation: Recommendation;
+  hits: CatalogHit[];
+  // Prices only when asked, as in the LLM prompt.
+  includePrice: boolean;
+  quoteCurrency?: string | null;
+  // Without a prescription the index is not known yet: the answer asks for it.
+  hasPrescription: boolean;
+  // Some products were left out because the prescription is outside their range.
+  outOfRange?: boolean;
+};
+
+type CoatingCode = Recommendation["coatings"][number];
+
+type Texts = {
+  // List separator ("، " in Arabic script).
+  sep: string;
+  intro: string;
+  index: (index: string) => string;
+  design: Record<LensDesign, string>;
+  add: (add: string) => string;
+  coatings: (list: string) => string;
+  coatingLabels: Record<CoatingCode, string>;
+  askPrescription: string;
+  outOfRange: string;
+  products: string;
+  noProducts: string;
+  sku: string;
+  price: string;
+  regularPrice: (price: string) => string;
+  noPrice: string;
+  outro: string;
+};
+
+const TEXTS: Record<SupportedLanguage, Texts> = {
+  fr: {
+    sep: ", ",
+    intro: "L’assistant est momentanément indisponible ; voici une réponse automatique d’après notre catalogue.",
+    index: (index) => `Indice conseillé : ${index}`,
+    design: {
+      "single-vision": "verres unifocaux",
+      progressive: "verres progressifs",
+      office: "verres dégressifs (bureau)",
+      bifocal: "verres bifocaux",
+    },
+    add: (add) => `addition ${add}`,
+    coatings: (list) => `Traitements conseillés : ${list}.`,
+    coatingLabels: {
+      AR: "antireflet",
+      HARD: "durci",
+      HYDRO: "hydrophobe",
+      PHOTO: "photochromique",
+      BLUECUT: "filtre lumière bleue",
+    },
+    askPrescription: "Pour conseiller l’indice, indiquez votre ordonnance (SPH, CYL, AXE et ADD si besoin).",
+    outOfRange: "Certains verres ne sont pas proposés : votre correction dépasse leur plage de fabrication.",
+    products: "Verres du catalogue qui correspondent le mieux :",
+    noProducts: "Aucun verre du catalogue ne correspond pour l’instant.",
+    sku: "SKU :",
+    price: "prix",
+    regularPrice: (price) => `au lieu de ${price}`,
+    noPrice: "prix non disponible",
+    outro: "Un opticien peut confirmer ce choix en magasin.",
+  },
+  en: {
+    sep: ", ",
+    intro: "Our assistant is temporarily unavailable; here is an automatic answer based on our catalog.",
+    index: (index) => `Recommended index: ${index}`,
+    design: {
+      "single-vision": "single-vision lenses",
+      progressive: "progressive lenses",
+      office: "office lenses (near/intermediate)",
+      bifocal: "bifocal lenses",
+    },
+    add: (add) => `addition ${add}`,
+    coatings: (list) => `Recommended coatings: ${list}.`,
+    coatingLabels: {
+      AR: "anti-reflective",
+      HARD: "hard coat",
+      HYDRO: "hydrophobic",
+      PHOTO: "photochromic",
+      BLUECUT: "blue-light filter",
+    },
+    askPrescription: "To recommend an index, please share your prescription (SPH, CYL, AXIS and ADD if any).",
+    outOfRange: "Some lenses are not listed: your prescription is outside their manufacturing range.",
+    products: "Best matching lenses from our catalog:",
+    noProducts: "No lens in our catalog matches yet.",
+    sku: "SKU:",
+    price: "price",
+    regularPrice: (price) => `instead of ${price}`,
+    noPrice: "price not available",
+    outro: "An optician can confirm this choice in store.",
+  },
+  ar: {
+    sep: "، ",
+    intro: "المساعد غير متاح مؤقتاً؛ هذا رد تلقائي حسب الكتالوج.",
+    index: (index) => `المؤشر المقترح: ${index}`,
+    design: {
+      "single-vision": "عدسات أحادية البؤرة",
+      progressive: "عدسات متدرجة",
+      office: "عدسات مكتبية (قريب/متوسط)",
+      bifocal: "عدسات ثنائية البؤرة",
+    },
+    add: (add) => `إضافة ${add}`,
+    coatings: (list) => `الطبقات المقترحة: ${list}.`,
+    coatingLabels: {
+      AR: "مضاد للانعكاس",
+      HARD: "مقاومة للخدوش",
+      HYDRO: "طاردة للماء",
+      PHOTO: "فوتوكروميك (تتلون مع الشمس)",
+      BLUECUT: "فلتر الضوء الأزرق",
+    },
+    askPrescription: "لاقتراح المؤشر المناسب، أعطني الوصفة الطبية (SPH، CYL، AXE و ADD إن وجد).",
+    outOfRange: "بعض العدسات غير مقترحة لأن الوصفة خارج مجال تصنيعها.",
+    products: "العدسات الأنسب من الكتالوج:",
+    noProducts: "لا توجد عدسة مناسبة في الكتالوج حالياً.",
+    sku: "SKU:",
+    price: "السعر",
+    regularPrice: (price) => `بدلاً من ${price}`,
+    noPrice: "السعر غير متوفر",
+    outro: "يمكن للنظاراتي تأكيد هذا الاختيار في المحل.",
+  },
+  dz: {
+    sep: "، ",
+    intro: "المساعد ماشي خدام دروك؛ هذا رد أوتوماتيك حسب الكتالوج.",
+    index: (index) => `الأنديس اللي نصحوك بيه: ${index}`,
+    design: {
+      "single-vision": "فيرات أونيفوكال",
+      progressive: "فيرات بروغريسيف",
+      office: "فيرات ديغريسيف (للبيرو)",
+      bifocal: "فيرات بيفوكال",
+    },
+    add: (add) => `أديسيون ${add}`,
+    coatings: (list) => `التريتمو اللي نصحوك بيهم: ${list}.`,
+    coatingLabels: {
+      AR: "أنتي روفليه",
+      HARD: "دورسي (ضد الخدوش)",
+      HYDRO: "هيدروفوب",
+      PHOTO: "فوتوكروميك",
+      BLUECUT: "بلو كات (الضو الزرق)",
+    },
+    askPrescription: "باش ننصحك بالأنديس، عطيني الأوردونونس (SPH، CYL، AXE و ADD إلا كاين).",
+    outOfRange: "كاين فيرات ما حطيناهمش خاطر الكوريكسيون تاعك برا المجال تاعهم.",
+    products: "الفيرات اللي يناسبوك من الكتالوج:",
+    noProducts: "ماكانش فير يناسب فالكتالوج دروك.",
+    sku: "SKU:",
+    price: "السومة",
+    regularPrice: (price) => `بلاصة ${price}`,
+    noPrice: "السومة ماكانش",
+    outro: "الأوبتيسيان يقدر يأكدلك هذا الاختيار فالمحل.",
+  },
+};
+
+function signed(n: number): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(2)}`;
+}
+
+// Catalog label in the answer's language; Darija falls back to Arabic, then French.
+function coatingLabel(c: CatalogHit["coatings"][number], lang: SupportedLanguage): string {
+  if (lang === "en") return c.labelEn;
+  if (lang === "ar") return c.labelAr || c.labelFr;
+  if (lang === "dz") return c.labelDarija || c.labelAr || c.labelFr;
+  return c.labelFr;
+}
+
+function productLine(h: CatalogHit, rank: number, input: DegradedAnswerInput, t: Texts): string {
+  const label = `${h.brand}${h.family ? " " + h.family : ""} ${h.index.toFixed(2)}`;
+  const coatings = h.coatings.map((c) => coatingLabel(c, input.lang)).join(t.sep);
+  const parts = [`${rank}. ${label} (${t.sku} ${h.sku})`];
+  if (coatings) parts.push(coatings);
+
+  if (input.includePrice) {
+    const inv = h.inventory;
+    const money = (cents: number, currency: string) =>
+      formatQuotedPrice(cents, currency, { lang: input.lang, quoteCurrency: input.quoteCurrency });
+    if (!inv) parts.push(t.noPrice);
+    else {
+      const regular = inv.promotion ? ` (${t.regularPrice(money(inv.basePriceCents, inv.currency))})` : "";
+      parts.push(`${t.price} ${money(inv.priceCents, inv.currency)}${regular}`);
+    }
+  }
+  return parts.join(" — ");
+}
+
+export function buildDegradedAnswer(input: DegradedAnswerInput): string {
+  const t = TEXTS[input.lang];
+  const rec = input.recommendation;
+
+  const advice: string[] = [];
+  if (rec.recommendedIndex !== undefined) {
+    const details = [rec.design ? t.design[rec.design] : "", rec.add !== undefined ? t.add(signed(rec.add)) : ""];
+    const extra = details.filter(Boolean).join(t.sep);
+    advice.push(`${t.index(rec.recommendedIndex.toFixed(2))}${extra ? ` (${extra})` : ""}.`);
+  } else if (rec.design) {
+    advice.push(`${t.design[rec.design]}.`);
+  }
+  advice.push(t.coatings(rec.coatings.map((c) => t.coatingLabels[c]).join(t.sep)));
+  if (!input.hasPrescription) advice.push(t.askPrescription);
+  if (input.outOfRange) advice.push(t.outOfRange);
+
+  const top = input.hits.slice(0, 3);
+  const products =
+    top.length > 0 ? [t.products, ...top.map((h, i) => productLine(h, i + 1, input, t))] : [t.noProducts];
+
+  return [t.intro, "", ...advice, "", ...products, "", t.outro].join("\n");
+}
@@ -0,0 +1,235 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+// Stock ledger. InventoryItem.quantity is a cached balance: it only changes through
+// recordMovement(), which appends an InventoryMovement in the same transaction. The history
+// lets staff replay what the bot saw at any point in time ("stock 10" yesterday, "0" today).
+// Units on hold for a customer are already taken out of `quantity`: it is the stock available
+// to other customers, and on-hand = quantity + active reservations.
+
+// "reservation" puts units on hold for a customer, "release" gives them back (expired or
+// cancelled hold); both are written by src/lib/reservations.ts only.
+export const MOVEMENT_TYPES = ["receipt", "sale", "adjustment", "reservation", "release", "return"] as const;
+
+export type MovementType = (typeof MOVEMENT_TYPES)[number];
+
+// Types staff can record directly (holds go through the reservation API).
+export const MANUAL_MOVEMENT_TYPES = ["receipt", "sale", "adjustment", "return"] as const;
+
+// Sign applied to `quantity` for each type. Adjustments are absolute counts (see below).
+const DIRECTION: Record<Exclude<MovementType, "adjustment">, 1 | -1> = {
+  receipt: 1,
+  return: 1,
+  release: 1,
+  sale: -1,
+  reservation: -1,
+};
+
+export type MovementInput = {
+  inventoryId: string;
+  type: MovementType;
+  // Units moved (> 0), or for "adjustment" the counted on-hand quantity: held units are part of
+  // the count, so the balance is set to the count minus the active reservations.
+  quantity: number;
+  user?: string | null;
+  reason?: string | null;
+};
+
+type Db = Prisma.TransactionClient;
+
+// Typed so the routes map them to 404 / 409 without depending on the wording.
+export class InventoryNotFoundError extends Error {
+  constructor() {
+    super("Ligne d’inventaire introuvable");
+    this.name = "InventoryNotFoundError";
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(
+    readonly available: number,
+    readonly requested: number,
+  ) {
+    super(`Stock insuffisant: ${available} disponible(s), ${requested} demandé(s)`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+export class CountBelowHoldsError extends Error {
+  constructor(
+    readonly counted: number,
+    readonly held: number,
+  ) {
+    super(`Quantité comptée (${counted}) inférieure aux unités réservées (${held}): libère d’abord des réservations`);
+    this.name = "CountBelowHoldsError";
+  }
+}
+
+// Units of the line on hold. They are still on the shelf, so a count includes them, but the
+// balance does not; read in the caller's transaction so a hold taken meanwhile is not missed.
+async function heldQuantity(tx: Db, inventoryId: string): Promise<number> {
+  const held = await tx.reservation.aggregate({
+    where: { inventoryId, status: "active" },
+    _sum: { quantity: true },
+  });
+  return held._sum.quantity ?? 0;
+}
+
+async function record(tx: Db, input: MovementInput) {
+  const item = await tx.inventoryItem.findUnique({ where: { id: input.inventoryId }, select: { quantity: true } });
+  if (!item) throw new InventoryNotFoundError();
+
+  let delta: number;
+  if (input.type === "adjustment") {
+    const held = await heldQuantity(tx, input.inventoryId);
+    if (input.quantity < held) throw new CountBelowHoldsError(input.quantity, held);
+    delta = input.quantity - held - item.quantity;
+  } else {
+    delta = DIRECTION[input.type] * input.quantity;
+  }
+  const quantityAfter = item.quantity + delta;
+  if (quantityAfter < 0) {
+    throw new InsufficientStockError(item.quantity, input.quantity);
+  }
+  // A count that matches the balance is not worth a ledger line.
+  if (delta === 0 && input.type === "adjustment") return null;
+
+  await tx.inventoryItem.update({ where: { id: input.inventoryId }, data: { quantity: quantityAfter } });
+  return tx.inventoryMovement.create({
+    data: {
+      inventoryId: input.inventoryId,
+      type: input.type,
+      delta,
+      quantityAfter,
+      user: input.user ?? null,
+      reason: input.reason ?? null,
+    },
+  });
+}
+
+// Pass `tx` to join a caller's transaction (e.g. catalog import); otherwise runs in its own.
+export async function recordMovement(input: MovementInput, tx?: Db) {
+  if (tx) return record(tx, input);
+  return prisma.$transaction((t) => record(t, input));
+}
+
+// Opening movement for a freshly created stock line.
+export async function recordOpeningBalance(
+  tx: Db,
+  item: { id: string; quantity: number },
+  meta: { user?: string | null; reason?: string | null } = {},
+) {
+  if (item.quantity === 0) return null;
+  return tx.inventoryMovement.create({
+    data: {
+      inventoryId: item.id,
+      type: "receipt",
+      delta: item.quantity,
+      quantityAfter: item.quantity,
+      user: meta.user ?? null,
+      reason: meta.reason ?? "Création de la ligne de stock",
+    },
+  });
+}
+
+export type ReconciliationIssue = {
+  inventoryId: string;
+  sku: string;
+  quantity: number;
+  ledgerQuantity: number;
+};
+
+// Stock lines whose cached quantity drifted from the ledger (direct DB edits, old scripts).
+// With `fix`, an adjustment movement is appended so both agree again on the cached value.
+export async function reconcileInventory(params: { sku?: string; fix?: boolean; user?: string | null } = {}) {
+  const items = await prisma.inventoryItem.findMany({
+    where: params.sku ? { lens: { sku: params.sku } } : {},
+    select: { id: true, quantity: true, lens: { select: { sku: true } } },
+  });
+  const sums = await prisma.inventoryMovement.groupBy({
+    by: ["inventoryId"],
+    where: { inventoryId: { in: items.map((i) => i.id) } },
+    _sum: { delta: true },
+  });
+  const ledger = new Map(sums.map((s) => [s.inventoryId, s._sum.delta ?? 0]));
+
+  const issues: ReconciliationIssue[] = items
+    .map((i) => ({ inventoryId: i.id, sku: i.lens.sku, quantity: i.quantity, ledgerQuantity: ledger.get(i.id) ?? 0 }))
+    .filter((i) => i.quantity !== i.ledgerQuantity);
+
+  if (params.fix && issues.length > 0) {
+    await prisma.inventoryMovement.createMany({
+      data: issues.map((i) => ({
+        inventoryId: i.inventoryId,
+        type: "adjustment",
+        delta: i.quantity - i.ledgerQuantity,
+        quantityAfter: i.quantity,
+        user: params.user ?? null,
+        reason: "Rapprochement avec la quantité enregistrée",
+      })),
+    });
+  }
+  return issues;
+}
+
+type BalanceAt = {
+  at: Date;
+  reportedQuantity: number | null;
+  lines: Array<{ inventoryId: string; quantity: number }>;
+};
+
+// Ledger of every stock line of a SKU, oldest first. With `at`, also the balance each line had
+// at that moment, i.e. what buildAvailabilityAnswer would have said then (isActive is not
+// historised, so the current active lines are used).
+export async function getStockHistory(sku: string, params: { from?: Date; to?: Date; at?: Date } = {}) {
+  const lens = await prisma.lensProduct.findUnique({
+    where: { sku },
+    select: {
+      id: true,
+      sku: true,
+      inventory: {
+        select: { id: true, supplier: { select: { id: true, name: true } }, quantity: true, isActive: true },
+        orderBy: { updatedAt: "desc" },
+      },
+    },
+  });
+  if (!lens) return null;
+
+  const inventoryIds = lens.inventory.map((i) => i.id);
+  const movements = await prisma.inventoryMovement.findMany({
+    where: {
+      inventoryId: { in: inventoryIds },
+      ...(params.from || params.to ? { createdAt: { gte: params.from, lte: params.to } } : {}),
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  // The chat reports the active line with the most stock (same rule as searchCatalog).
+  const active = lens.inventory.filter((i) => i.isActive);
+  const reported = (quantities: number[]) => (quantities.length > 0 ? Math.max(...quantities) : null);
+
+  let atBalance: BalanceAt | undefined;
+  if (params.at) {
+    const sums = await prisma.inventoryMovement.groupBy({
+      by: ["inventoryId"],
+      where: { inventoryId: { in: inventoryIds }, createdAt: { lte: params.at } },
+      _sum: { delta: true },
+    });
+    const byId = new Map(sums.map((s) => [s.inventoryId, s._sum.delta ?? 0]));
+    const lines = inventoryIds.map((id) => ({ inventoryId: id, quantity: byId.get(id) ?? 0 }));
+    atBalance = {
+      at: params.at,
+      reportedQuantity: reported(active.map((i) => byId.get(i.id) ?? 0)),
+      lines,
+    };
+  }
+
+  return {
+    sku: lens.sku,
+    lensId: lens.id,
+    inventory: lens.inventory,
+    reportedQuantity: reported(active.map((i) => i.quantity)),
+    ...(atBalance ? { balanceAt: atBalance } : {}),
+    movements,
+  };
+}
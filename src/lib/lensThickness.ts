@@ -0,0 +1,183 @@
+import type { EyePrescription, Prescription, Recommendation } from "@/lib/recommendation";
+
+// Approximate lens thickness/weight estimator, to answer "how much thinner is 1.67 vs 1.6?".
+// Model: spherical surfaces (sag formula), round lens cut to the frame eye size, decentration
+// from the frame PD vs the customer PD. Good enough to compare indices, not for lab ordering.
+
+export type LensIndex = NonNullable<Recommendation["recommendedIndex"]>;
+
+export type FrameMeasurements = {
+  // Horizontal box size of one lens ("calibre"), in mm.
+  eyeSizeMm: number;
+  // Distance between lenses (DBL / "pont"), in mm.
+  bridgeMm: number;
+  // Customer pupillary distance (binocular), in mm.
+  pdMm: number;
+};
+
+export type ThicknessEstimate = {
+  index: LensIndex;
+  // Thickest lens of the pair, in mm.
+  centerMm: number;
+  edgeMm: number;
+  // Pair weight, in grams.
+  weightG: number;
+  // Relative to the 1.50 index (1 = same as 1.50).
+  relativeThickness: number;
+  relativeWeight: number;
+};
+
+export type ThicknessComparison = {
+  frame: FrameMeasurements;
+  // True when frame measurements were not given and defaults were used.
+  assumedFrame: boolean;
+  rows: ThicknessEstimate[];
+};
+
+export const DEFAULT_FRAME: FrameMeasurements = { eyeSizeMm: 52, bridgeMm: 18, pdMm: 63 };
+
+export const LENS_INDICES: LensIndex[] = [1.5, 1.56, 1.6, 1.67, 1.74];
+
+// Typical material data: density (g/cm³) and minimum center thickness for minus lenses (mm).
+const MATERIAL: Record<LensIndex, { density: number; minCenterMm: number }> = {
+  1.5: { density: 1.32, minCenterMm: 2.0 },
+  1.56: { density: 1.28, minCenterMm: 1.8 },
+  1.6: { density: 1.3, minCenterMm: 1.5 },
+  1.67: { density: 1.35, minCenterMm: 1.4 },
+  1.74: { density: 1.47, minCenterMm: 1.3 },
+};
+
+// Minimum edge thickness for plus lenses (mm).
+const MIN_EDGE_MM = 1.0;
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function sagMm(powerD: number, index: number, radiusMm: number): number {
+  if (powerD === 0) return 0;
+  // Surface radius of curvature from the lensmaker's approximation: R = (n - 1) / P.
+  const curvatureRadius = ((index - 1) * 1000) / Math.abs(powerD);
+  if (radiusMm >= curvatureRadius) return curvatureRadius;
+  return curvatureRadius - Math.sqrt(curvatureRadius ** 2 - radiusMm ** 2);
+}
+
+function estimateEye(eye: EyePrescription, index: LensIndex, frame: FrameMeasurements) {
+  const sph = eye.sph ?? 0;
+  const cyl = eye.cyl ?? 0;
+  // Thickest meridian drives the edge (minus) or center (plus) thickness.
+  const meridians = [sph, sph + cyl];
+  const mostMinus = Math.min(...meridians);
+  const mostPlus = Math.max(...meridians);
+
+  const decentration = Math.max(0, (frame.eyeSizeMm + frame.bridgeMm - frame.pdMm) / 2);
+  const radius = frame.eyeSizeMm / 2 + decentration;
+  const { minCenterMm } = MATERIAL[index];
+
+  let centerMm: number;
+  let edgeMm: number;
+  if (mostPlus > 0 && Math.abs(mostPlus) >= Math.abs(mostMinus)) {
+    edgeMm = MIN_EDGE_MM;
+    centerMm = MIN_EDGE_MM + sagMm(mostPlus, index, radius);
+  } else {
+    centerMm = minCenterMm;
+    edgeMm = minCenterMm + sagMm(Math.min(0, mostMinus), index, radius);
+  }
+
+  // Volume of a round lens, averaging center and edge thickness (parabolic profile).
+  const lensRadius = frame.eyeSizeMm / 2;
+  const volumeMm3 = Math.PI * lensRadius ** 2 * ((centerMm + edgeMm) / 2);
+  const weightG = (volumeMm3 / 1000) * MATERIAL[index].density;
+
+  return { centerMm, edgeMm, weightG };
+}
+
+export function estimateThickness(params: {
+  prescription: Prescription;
+  index: LensIndex;
+  frame?: Partial<FrameMeasurements>;
+}): Omit<ThicknessEstimate, "relativeThickness" | "relativeWeight"> | undefined {
+  const frame = { ...DEFAULT_FRAME, ...params.frame };
+  const eyes = [params.prescription.od, params.prescription.os].filter(
+    (e): e is EyePrescription => e?.sph !== undefined || e?.cyl !== undefined,
+  );
+  if (eyes.length === 0) return undefined;
+
+  const perEye = eyes.map((e) => estimateEye(e, params.index, frame));
+  // A single known eye stands for both lenses of the pair.
+  const pairWeight = perEye.reduce((sum, e) => sum + e.weightG, 0) * (perEye.length === 1 ? 2 : 1);
+
+  return {
+    index: params.index,
+    centerMm: round(Math.max(...perEye.map((e) => e.centerMm)), 1),
+    edgeMm: round(Math.max(...perEye.map((e) => e.edgeMm)), 1),
+    weightG: round(pairWeight, 1),
+  };
+}
+
+export function compareLensIndices(params: {
+  prescription: Prescription;
+  frame?: Partial<FrameMeasurements>;
+  indices?: LensIndex[];
+}): ThicknessComparison | undefined {
+  const frame = { ...DEFAULT_FRAME, ...params.frame };
+  const assumedFrame = !(params.frame?.eyeSizeMm && params.frame?.bridgeMm && params.frame?.pdMm);
+  const indices = params.indices ?? LENS_INDICES;
+
+  const base = estimateThickness({ prescription: params.prescription, index: 1.5, frame });
+  if (!base) return undefined;
+  const baseThickness = Math.max(base.centerMm, base.edgeMm);
+
+  const rows = indices
+    .map((index) => estimateThickness({ prescription: params.prescription, index, frame }))
+    .filter((r): r is NonNullable<typeof r> => r !== undefined)
+    .map((r) => ({
+      ...r,
+      relativeThickness: round(Math.max(r.centerMm, r.edgeMm) / baseThickness, 2),
+      relativeWeight: round(r.weightG / base.weightG, 2),
+    }));
+
+  return { frame, assumedFrame, rows };
+}
+
+export function parseFrameMeasurements(text: string): Partial<FrameMeasurements> {
+  const t = text.replace(/(\d),(\d)/g, "$1.$2");
+  const frame: Partial<FrameMeasurements> = {};
+
+  // "52□18" as printed on frame temples, or "ma monture fait 52-18" / "calibre 52/18". Never the digits of a
+  // power or an axis: "-0.50 x 15" is a cylinder, not a frame.
+  const boxed =
+    /(?<![\d.])\b(4\d|5\d|6[0-2])\s*□\s*(1[2-9]|2[0-4])\b/.exec(t) ??
+    /(?:\bmonture|\bcalibre|\bframe)\b[^\d]{0,20}?(4\d|5\d|6[0-2])\s*[x\-/]\s*(1[2-9]|2[0-4])\b/i.exec(t);
+  if (boxed) {
+    frame.eyeSizeMm = Number(boxed[1]);
+    frame.bridgeMm = Number(boxed[2]);
+  }
+
+  const eyeSize = /(?:calibre|eye\s*size|taille\s+(?:du\s+)?verre)\s*[:=]?\s*(\d{2})/i.exec(t);
+  if (eyeSize) frame.eyeSizeMm = Number(eyeSize[1]);
+
+  const bridge = /(?:\bpont\b|\bbridge\b|\bDBL\b)\s*[:=]?\s*(\d{2})/i.exec(t);
+  if (bridge) frame.bridgeMm = Number(bridge[1]);
+
+  const pd = /(?:\bPD\b|\bEP\b|[ée]cart\s+pupillaire|pupillary\s+distance|المسافة\s*بين\s*الحدقتين)\s*[:=]?\s*(\d{2}(?:\.\d)?)/i.exec(t);
+  if (pd) {
+    const value = Number(pd[1]);
+    // Plausible adult/child binocular PD only.
+    if (value >= 45 && value <= 80) frame.pdMm = value;
+  }
+
+  return frame;
+}
+
+export function formatThicknessComparison(comparison: ThicknessComparison): string[] {
+  const { frame } = comparison;
+  return [
+    `Thickness estimate (approx., frame ${frame.eyeSizeMm}□${frame.bridgeMm}, PD ${frame.pdMm}${comparison.assumedFrame ? ", default measurements" : ""}):`,
+    ...comparison.rows.map(
+      (r) =>
+        `  index ${r.index.toFixed(2)}: center ${r.centerMm} mm, edge ${r.edgeMm} mm, pair ≈${r.weightG} g (thickness ×${r.relativeThickness}, weight ×${r.relativeWeight} vs 1.50)`,
+    ),
+  ];
+}
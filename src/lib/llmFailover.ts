@@ -0,0 +1,209 @@
+import {
+  createLlmProvider,
+  fallbackProfileNames,
+  listModelProfiles,
+  resolveModelProfile,
+  type LlmChatParams,
+  type LlmProvider,
+} from "@/lib/llmProviders";
+
+// Failover across LLM profiles for the chat. The chain is the requested profile followed by the
+// fallback profiles (LLM_FALLBACK, else the profiles file's "fallback"). Each attempt has its
+// profile's timeout; connection errors (server down, DNS, reset) are retried LLM_RETRIES times with
+// exponential backoff from LLM_RETRY_BACKOFF_MS before moving on. When the whole chain fails the
+// caller answers deterministically from the catalog.
+
+export type LlmFailure = {
+  profile: string;
+  provider: string;
+  error: string;
+  attempts: number;
+};
+
+// Who produced an assistant message, stored in ChatMessage.metadata.
+export type AnsweredBy = {
+  // "ollama", "openai-compat", … or "deterministic" (no LLM involved).
+  provider: string;
+  profile: string | null;
+  model: string | null;
+};
+
+export const DETERMINISTIC: AnsweredBy = { provider: "deterministic", profile: null, model: null };
+
+export function answeredBy(llm: LlmProvider): AnsweredBy {
+  return { provider: llm.kind, profile: llm.profile, model: llm.model };
+}
+
+export function messageMetadata(by: AnsweredBy, failures: LlmFailure[] = []): string {
+  return JSON.stringify(failures.length > 0 ? { answeredBy: by, failures } : { answeredBy: by });
+}
+
+// Requested profile first (an unknown name is an error), then the fallbacks that exist.
+export async function resolveLlmChain(name?: string | null): Promise<LlmProvider[]> {
+  const primary = await resolveModelProfile(name);
+  const profiles = await listModelProfiles();
+
+  const chain = [primary];
+  for (const fallback of fallbackProfileNames()) {
+    if (chain.some((p) => p.name === fallback)) continue;
+    const profile = profiles.find((p) => p.name === fallback);
+    if (profile) chain.push(profile);
+    else console.warn(`[llm] profil de repli inconnu: ${fallback}`);
+  }
+  return chain.map(createLlmProvider);
+}
+
+class LlmTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`LLM: délai dépassé (${ms} ms)`);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+const CONNECTION_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// fetch() reports network failures as "fetch failed" with the system error as `cause`.
+function isConnectionError(e: unknown): boolean {
+  if (e instanceof LlmTimeoutError) return false;
+  const cause = e instanceof Error ? (e.cause as { code?: string } | undefined) : undefined;
+  if (cause?.code && CONNECTION_CODES.has(cause.code)) return true;
+  const msg = e instanceof Error ? e.message : String(e);
+  return /fetch failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN/i.test(msg);
+}
+
+// "fetch failed (ECONNREFUSED)" rather than the bare fetch message.
+function errorText(e: unknown): string {
+  if (!(e instanceof Error)) return String(e);
+  const code = (e.cause as { code?: string } | undefined)?.code;
+  return code ? `${e.message} (${code})` : e.message;
+}
+
+function envInt(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+function retryPolicy() {
+  return { retries: envInt("LLM_RETRIES", 2), backoffMs: envInt("LLM_RETRY_BACKOFF_MS", 250) };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Abort signal firing `ms` after the last arm(): a whole-answer timeout, or an idle timeout when
+// re-armed on every streamed chunk.
+function deadline(ms: number) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const clear = () => clearTimeout(timer);
+  const arm = () => {
+    clear();
+    timer = setTimeout(() => controller.abort(new LlmTimeoutError(ms)), ms);
+  };
+  return { signal: controller.signal, arm, clear };
+}
+
+// Some fetch errors hide the abort reason; the signal still knows it.
+function reasonOf(e: unknown, signal: AbortSignal): unknown {
+  return signal.aborted && signal.reason instanceof LlmTimeoutError ? signal.reason : e;
+}
+
+// Runs `attempt` on each provider of the chain in turn, retrying connection errors.
+async function firstSuccessful<T>(
+  chain: LlmProvider[],
+  attempt: (llm: LlmProvider) => Promise<T>,
+): Promise<{ llm: LlmProvider; value: T; failures: LlmFailure[] } | { llm: null; failures: LlmFailure[] }> {
+  const { retries, backoffMs } = retryPolicy();
+  const failures: LlmFailure[] = [];
+
+  for (const llm of chain) {
+    for (let n = 0; ; n++) {
+      try {
+        return { llm, value: await attempt(llm), failures };
+      } catch (e) {
+        if (n < retries && isConnectionError(e)) {
+          await sleep(backoffMs * 2 ** n);
+          continue;
+        }
+        const error = errorText(e);
+        console.warn(`[llm] échec du profil ${llm.profile} (${llm.kind}) après ${n + 1} essai(s): ${error}`);
+        failures.push({ profile: llm.profile, provider: llm.kind, error, attempts: n + 1 });
+        break;
+      }
+    }
+  }
+  return { llm: null, failures };
+}
+
+export type FailoverAnswer = {
+  // null when every provider failed.
+  text: string | null;
+  llm: LlmProvider | null;
+  failures: LlmFailure[];
+};
+
+export async function chatWithFailover(chain: LlmProvider[], params: LlmChatParams): Promise<FailoverAnswer> {
+  const result = await firstSuccessful(chain, async (llm) => {
+    const timer = deadline(llm.timeoutMs);
+    timer.arm();
+    try {
+      return await llm.chat({ ...params, signal: timer.signal });
+    } catch (e) {
+      throw reasonOf(e, timer.signal);
+    } finally {
+      timer.clear();
+    }
+  });
+  return result.llm ? { text: result.value, llm: result.llm, failures: result.failures } : { ...result, text: null };
+}
+
+export type FailoverStream = {
+  // null when every provider failed.
+  chunks: AsyncGenerator<string, void, void> | null;
+  llm: LlmProvider | null;
+  failures: LlmFailure[];
+};
+
+// Streams from the first provider that yields its first chunk in time. Once text has reached the
+// customer there is no switching: a later failure ends the stream with an error, as before.
+export async function chatStreamWithFailover(chain: LlmProvider[], params: LlmChatParams): Promise<FailoverStream> {
+  const result = await firstSuccessful(chain, async (llm) => {
+    const timer = deadline(llm.timeoutMs);
+    const gen = llm.chatStream({ ...params, signal: timer.signal });
+    timer.arm();
+    try {
+      return { gen, timer, first: await gen.next() };
+    } catch (e) {
+      timer.clear();
+      throw reasonOf(e, timer.signal);
+    }
+  });
+  if (!result.llm) return { chunks: null, llm: null, failures: result.failures };
+
+  const { gen, timer, first } = result.value;
+  async function* chunks(): AsyncGenerator<string, void, void> {
+    try {
+      if (first.done) return;
+      yield first.value;
+      while (true) {
+        timer.arm();
+        const next = await gen.next();
+        if (next.done) return;
+        yield next.value;
+      }
+    } catch (e) {
+      throw reasonOf(e, timer.signal);
+    } finally {
+      timer.clear();
+    }
+  }
+  return { chunks: chunks(), llm: result.llm, failures: result.failures };
+}
@@ -0,0 +1,484 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { ollamaChat, ollamaChatStream, type OllamaMessage } from "@/lib/ollama";
+import { openaiCompatChat, openaiCompatChatStream } from "@/lib/openaiCompat";
+import { startMockLlmServer } from "@/lib/mockLlm";
+
+// LLM providers and model profiles. A provider kind ("ollama", "openai-compat", …) is registered
+// with its capabilities and a client factory; a model profile names a kind + model + endpoint.
+// Profiles come from three places, later ones overriding earlier ones with the same name:
+// - env:  one per provider kind, from its env vars (OLLAMA_*, OPENAI_COMPAT_*, MOCK_LLM_*)
+// - file: LLM_PROFILES_FILE (default ./llm-profiles.json, see llm-profiles.example.json)
+// - db:   LlmProfile rows, managed by /api/admin/llm-profiles
+// The chat route, smoke scripts and evals all go through resolveLlmProvider(); the chat route adds
+// timeouts, retries and the fallback chain on top (src/lib/llmFailover.ts).
+
+export type LlmMessage = OllamaMessage;
+
+export type LlmCapabilities = {
+  streaming: boolean;
+  toolCalls: boolean;
+  jsonMode: boolean;
+  // Context window in tokens; null = unknown (history is sent as is).
+  maxContextTokens: number | null;
+};
+
+export type LlmChatParams = {
+  messages: LlmMessage[];
+  temperature?: number;
+  // JSON answer; ignored by providers without jsonMode.
+  json?: boolean;
+  signal?: AbortSignal;
+};
+
+export type LlmProvider = {
+  profile: string;
+  kind: string;
+  model: string;
+  capabilities: LlmCapabilities;
+  // Per-attempt timeout (whole answer, or time between two chunks when streaming).
+  timeoutMs: number;
+  chat(params: LlmChatParams): Promise<string>;
+  // Providers without streaming yield the whole answer as a single chunk.
+  chatStream(params: LlmChatParams): AsyncGenerator<string, void, void>;
+};
+
+export const LLM_PROFILE_SOURCES = ["env", "file", "db"] as const;
+
+export type LlmProfileSource = (typeof LLM_PROFILE_SOURCES)[number];
+
+export type ModelProfile = {
+  name: string;
+  description: string | null;
+  provider: string;
+  model: string;
+  baseUrl: string | null;
+  // Name of the env var holding the API key.
+  apiKeyEnv: string | null;
+  temperature: number | null;
+  // null = LLM_TIMEOUT_MS.
+  timeoutMs: number | null;
+  // Overrides of the provider kind's capabilities.
+  capabilities: Partial<LlmCapabilities>;
+  isDefault: boolean;
+  source: LlmProfileSource;
+  // LlmProfile row id, for DB profiles.
+  id?: string;
+};
+
+type ProviderClient = Pick<LlmProvider, "chat" | "chatStream">;
+
+type ProviderKind = {
+  capabilities: LlmCapabilities;
+  // Profile built from the kind's env vars (model, endpoint).
+  envProfile: () => Pick<ModelProfile, "model" | "baseUrl" | "apiKeyEnv">;
+  create: (profile: ModelProfile, capabilities: LlmCapabilities) => ProviderClient;
+};
+
+const kinds = new Map<string, ProviderKind>();
+
+export function registerLlmProvider(kind: string, definition: ProviderKind): void {
+  kinds.set(kind, definition);
+}
+
+export function llmProviderKinds(): string[] {
+  return [...kinds.keys()];
+}
+
+// "openai_compat" was accepted by the former LLM_PROVIDER switch.
+function normalizeKind(kind: string): string {
+  const k = kind.trim().toLowerCase();
+  return k === "openai_compat" ? "openai-compat" : k;
+}
+
+const CapabilitiesInputSchema = z
+  .object({
+    streaming: z.boolean(),
+    toolCalls: z.boolean(),
+    jsonMode: z.boolean(),
+    maxContextTokens: z.number().int().min(256).nullable(),
+  })
+  .partial();
+
+// Variables a profile may read its API key from. Without the prefix, an admin (or a profiles file)
+// could point a profile at any secret of the server, e.g. DATABASE_URL or ADMIN_TOKEN, and have it
+// sent to the endpoint of their choice.
+export const API_KEY_ENV_PREFIX = "LLM_KEY_";
+
+// One profile, as written in LLM_PROFILES_FILE and accepted by the admin API.
+export const ModelProfileInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(500).nullable().optional(),
+  provider: z
+    .string()
+    .trim()
+    .transform(normalizeKind)
+    .refine((k) => kinds.has(k), { message: "Provider LLM inconnu" }),
+  model: z.string().trim().min(1).max(200),
+  baseUrl: z.string().trim().url().nullable().optional(),
+  apiKeyEnv: z
+    .string()
+    .trim()
+    .regex(
+      new RegExp(`^${API_KEY_ENV_PREFIX}[A-Za-z0-9_]+$`),
+      `Nom de variable d’environnement commençant par ${API_KEY_ENV_PREFIX}`,
+    )
+    .nullable()
+    .optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  timeoutMs: z.number().int().min(1000).max(600_000).nullable().optional(),
+  capabilities: CapabilitiesInputSchema.optional(),
+});
+
+export type ModelProfileInput = z.infer<typeof ModelProfileInputSchema>;
+
+const ProfilesFileSchema = z.object({
+  // Profile used when neither the request nor LLM_PROFILE names one (a DB default wins).
+  default: z.string().trim().min(1).optional(),
+  // Profiles tried, in order, when the requested one fails (LLM_FALLBACK wins).
+  fallback: z.array(z.string().trim().min(1)).optional(),
+  profiles: z.array(ModelProfileInputSchema),
+});
+
+function fromInput(input: ModelProfileInput, source: LlmProfileSource, isDefault: boolean): ModelProfile {
+  return {
+    name: input.name,
+    description: input.description ?? null,
+    provider: input.provider,
+    model: input.model,
+    baseUrl: input.baseUrl ?? null,
+    apiKeyEnv: input.apiKeyEnv ?? null,
+    temperature: input.temperature ?? null,
+    timeoutMs: input.timeoutMs ?? null,
+    capabilities: input.capabilities ?? {},
+    isDefault,
+    source,
+  };
+}
+
+// Prisma data for a create/update: capabilities are stored as columns.
+export function modelProfileToData<T extends Partial<ModelProfileInput>>(input: T) {
+  const { capabilities, ...rest } = input;
+  return { ...rest, ...(capabilities ?? {}) };
+}
+
+type LlmProfileRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  provider: string;
+  model: string;
+  baseUrl: string | null;
+  apiKeyEnv: string | null;
+  temperature: number | null;
+  timeoutMs: number | null;
+  streaming: boolean | null;
+  toolCalls: boolean | null;
+  jsonMode: boolean | null;
+  maxContextTokens: number | null;
+  isDefault: boolean;
+};
+
+export function modelProfileFromRow(row: LlmProfileRow): ModelProfile {
+  const capabilities: Partial<LlmCapabilities> = {};
+  if (row.streaming !== null) capabilities.streaming = row.streaming;
+  if (row.toolCalls !== null) capabilities.toolCalls = row.toolCalls;
+  if (row.jsonMode !== null) capabilities.jsonMode = row.jsonMode;
+  if (row.maxContextTokens !== null) capabilities.maxContextTokens = row.maxContextTokens;
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    provider: normalizeKind(row.provider),
+    model: row.model,
+    baseUrl: row.baseUrl,
+    apiKeyEnv: row.apiKeyEnv,
+    temperature: row.temperature,
+    timeoutMs: row.timeoutMs,
+    capabilities,
+    isDefault: row.isDefault,
+    source: "db",
+  };
+}
+
+function envProfiles(): ModelProfile[] {
+  return [...kinds].map(([name, kind]) => ({
+    name,
+    description: null,
+    provider: name,
+    temperature: null,
+    timeoutMs: null,
+    capabilities: {},
+    isDefault: false,
+    source: "env" as const,
+    ...kind.envProfile(),
+  }));
+}
+
+type ProfilesFile = { profiles: ModelProfile[]; fallback: string[] };
+
+let fileCache: ({ path: string; mtimeMs: number } & ProfilesFile) | null = null;
+
+// LLM_PROFILES_FILE, re-read when it changes. A missing default file is fine; a missing explicit
+// file or an invalid one is a configuration error.
+function profilesFile(): ProfilesFile {
+  const explicit = process.env.LLM_PROFILES_FILE;
+  const filePath = path.resolve(process.cwd(), explicit || "llm-profiles.json");
+
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(filePath);
+  } catch {
+    if (explicit) throw new Error(`LLM_PROFILES_FILE introuvable: ${filePath}`);
+    return { profiles: [], fallback: [] };
+  }
+  if (fileCache?.path === filePath && fileCache.mtimeMs === stat.mtimeMs) return fileCache;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (e) {
+    throw new Error(`LLM_PROFILES_FILE illisible (${filePath}): ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const parsed = ProfilesFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`LLM_PROFILES_FILE invalide (${filePath}): ${issues}`);
+  }
+
+  const profiles = parsed.data.profiles.map((p) => fromInput(p, "file", p.name === parsed.data.default));
+  fileCache = { path: filePath, mtimeMs: stat.mtimeMs, profiles, fallback: parsed.data.fallback ?? [] };
+  return fileCache;
+}
+
+async function dbProfiles(): Promise<ModelProfile[]> {
+  try {
+    const rows = await prisma.llmProfile.findMany({ orderBy: { name: "asc" } });
+    return rows.map(modelProfileFromRow);
+  } catch (e) {
+    // Scripts may run without a migrated DB: env and file profiles still work.
+    console.warn("[llm] profils en base indisponibles", e instanceof Error ? e.message : e);
+    return [];
+  }
+}
+
+// Every known profile, one per name (db > file > env), sorted by name.
+export async function listModelProfiles(): Promise<ModelProfile[]> {
+  const byName = new Map<string, ModelProfile>();
+  for (const p of [...envProfiles(), ...profilesFile().profiles, ...(await dbProfiles())]) byName.set(p.name, p);
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const SOURCE_RANK: Record<LlmProfileSource, number> = { db: 0, file: 1, env: 2 };
+
+// A profile name passed by the caller (e.g. `llmProfile` of a chat request) that matches no profile.
+export class LlmProfileNotFoundError extends Error {
+  constructor(readonly profile: string) {
+    super(`Profil LLM introuvable: ${profile}`);
+    this.name = "LlmProfileNotFoundError";
+  }
+}
+
+// Resolution order: explicit name > LLM_PROFILE > default profile (DB, then file) > the env
+// profile of LLM_PROVIDER (ollama by default). An unknown name is an error: LlmProfileNotFoundError
+// for `name`, a plain (configuration) error for LLM_PROFILE.
+export async function resolveModelProfile(name?: string | null): Promise<ModelProfile> {
+  const profiles = await listModelProfiles();
+  const requested = name || process.env.LLM_PROFILE?.trim();
+  if (requested) {
+    const profile = profiles.find((p) => p.name === requested);
+    if (!profile && name) throw new LlmProfileNotFoundError(name);
+    if (!profile) throw new Error(`LLM_PROFILE: profil LLM introuvable: ${requested}`);
+    return profile;
+  }
+
+  const defaults = profiles.filter((p) => p.isDefault).sort((a, b) => SOURCE_RANK[a.source] - SOURCE_RANK[b.source]);
+  if (defaults[0]) return defaults[0];
+
+  const kind = normalizeKind(process.env.LLM_PROVIDER ?? "ollama");
+  const profile = profiles.find((p) => p.source === "env" && p.name === kind);
+  if (!profile) throw new Error(`Provider LLM inconnu: ${kind}`);
+  return profile;
+}
+
+// Profiles a public chat request may name in `llmProfile` (LLM_PUBLIC_PROFILES, comma-separated).
+// Admin requests may name any profile.
+export function publicProfileNames(): string[] {
+  return (process.env.LLM_PUBLIC_PROFILES ?? "")
+    .split(",")
+    .map((n) => n.trim())
+    .filter(Boolean);
+}
+
+// Fallback profile names: LLM_FALLBACK (comma-separated), else the profiles file's "fallback".
+export function fallbackProfileNames(): string[] {
+  const env = process.env.LLM_FALLBACK;
+  if (env !== undefined) {
+    return env
+      .split(",")
+      .map((n) => n.trim())
+      .filter(Boolean);
+  }
+  return profilesFile().fallback;
+}
+
+export function profileCapabilities(profile: ModelProfile): LlmCapabilities {
+  const kind = kinds.get(profile.provider);
+  if (!kind) throw new Error(`Provider LLM inconnu: ${profile.provider}`);
+  const overrides = Object.fromEntries(Object.entries(profile.capabilities).filter(([, v]) => v !== undefined));
+  return { ...kind.capabilities, ...overrides };
+}
+
+// Rough token estimate (~4 characters per token, plus a few per message for the chat template).
+function estimateTokens(message: LlmMessage): number {
+  return Math.ceil(message.content.length / 4) + 4;
+}
+
+// Drops the oldest history messages so the prompt leaves a quarter of the window for the answer.
+// The system prompt and the last message are always kept.
+export function fitToContext(messages: LlmMessage[], maxContextTokens: number | null): LlmMessage[] {
+  if (!maxContextTokens || messages.length <= 2) return messages;
+  const budget = Math.floor(maxContextTokens * 0.75);
+
+  const system = messages[0]?.role === "system" ? [messages[0]] : [];
+  const rest = messages.slice(system.length);
+  let used = system.reduce((n, m) => n + estimateTokens(m), 0);
+  const kept: LlmMessage[] = [];
+  for (let i = rest.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(rest[i]);
+    if (kept.length > 0 && used + cost > budget) break;
+    kept.unshift(rest[i]);
+    used += cost;
+  }
+  return [...system, ...kept];
+}
+
+function defaultTimeoutMs(): number {
+  const ms = Number(process.env.LLM_TIMEOUT_MS);
+  return Number.isFinite(ms) && ms > 0 ? ms : 60_000;
+}
+
+export function createLlmProvider(profile: ModelProfile): LlmProvider {
+  const kind = kinds.get(profile.provider);
+  if (!kind) throw new Error(`Provider LLM inconnu: ${profile.provider}`);
+  const capabilities = profileCapabilities(profile);
+  const client = kind.create(profile, capabilities);
+
+  const prepare = (params: LlmChatParams): LlmChatParams => ({
+    messages: fitToContext(params.messages, capabilities.maxContextTokens),
+    temperature: params.temperature ?? profile.temperature ?? undefined,
+    json: params.json && capabilities.jsonMode,
+    signal: params.signal,
+  });
+
+  return {
+    profile: profile.name,
+    kind: profile.provider,
+    model: profile.model,
+    capabilities,
+    timeoutMs: profile.timeoutMs ?? defaultTimeoutMs(),
+    chat: (params) => client.chat(prepare(params)),
+    chatStream: capabilities.streaming
+      ? (params) => client.chatStream(prepare(params))
+      : async function* (params) {
+          yield await client.chat(prepare(params));
+        },
+  };
+}
+
+export async function resolveLlmProvider(name?: string | null): Promise<LlmProvider> {
+  return createLlmProvider(await resolveModelProfile(name));
+}
+
+// Environment profiles name their variable in code; stored profiles only read LLM_KEY_* ones
+// (rows written before the prefix was enforced included).
+function apiKeyOf(profile: ModelProfile): string | undefined {
+  if (!profile.apiKeyEnv) return undefined;
+  if (profile.source !== "env" && !profile.apiKeyEnv.startsWith(API_KEY_ENV_PREFIX)) return undefined;
+  return process.env[profile.apiKeyEnv] || undefined;
+}
+
+// Shape returned by the admin API: effective capabilities, and whether the key env var is set.
+export function serializeModelProfile(profile: ModelProfile) {
+  return {
+    ...profile,
+    effectiveCapabilities: kinds.has(profile.provider) ? profileCapabilities(profile) : null,
+    apiKeySet: Boolean(apiKeyOf(profile)),
+  };
+}
+
+// --- ollama ---
+
+registerLlmProvider("ollama", {
+  capabilities: { streaming: true, toolCalls: true, jsonMode: true, maxContextTokens: null },
+  envProfile: () => ({
+    model: process.env.OLLAMA_MODEL ?? "qwen2.5:7b-instruct",
+    baseUrl: process.env.OLLAMA_BASE_URL ?? null,
+    apiKeyEnv: null,
+  }),
+  create: (profile, capabilities) => {
+    const options = {
+      model: profile.model,
+      baseUrl: profile.baseUrl ?? undefined,
+      // Without num_ctx Ollama silently truncates to its own default window.
+      numCtx: capabilities.maxContextTokens ?? undefined,
+    };
+    return {
+      chat: (params) => ollamaChat({ ...params, ...options }),
+      chatStream: (params) => ollamaChatStream({ ...params, ...options }),
+    };
+  },
+});
+
+// --- openai-compat (vLLM, llama.cpp server, …) ---
+
+registerLlmProvider("openai-compat", {
+  // Tool calling depends on the server and the model; profiles enable it explicitly.
+  capabilities: { streaming: true, toolCalls: false, jsonMode: true, maxContextTokens: null },
+  envProfile: () => ({
+    // Empty when unset: the client then reports that OPENAI_COMPAT_MODEL is required.
+    model: process.env.OPENAI_COMPAT_MODEL ?? "",
+    baseUrl: process.env.OPENAI_COMPAT_BASE_URL ?? null,
+    apiKeyEnv: "OPENAI_COMPAT_API_KEY",
+  }),
+  create: (profile) => {
+    const options = { model: profile.model, baseUrl: profile.baseUrl ?? undefined, apiKey: apiKeyOf(profile) };
+    return {
+      chat: (params) => openaiCompatChat({ ...params, ...options }),
+      chatStream: (params) => openaiCompatChatStream({ ...params, ...options }),
+    };
+  },
+});
+
+// --- mock (tests, local dev without a model; see src/lib/mockLlm.ts) ---
+
+// Not a provider in production unless explicitly selected: it would answer customers with canned
+// replies and record their conversations in memory.
+if (process.env.NODE_ENV !== "production" || process.env.LLM_PROVIDER === "mock") {
+  registerLlmProvider("mock", {
+    capabilities: { streaming: true, toolCalls: false, jsonMode: true, maxContextTokens: null },
+    envProfile: () => ({
+      // The model names the wire format: "ndjson" (Ollama) or "sse" (OpenAI-compatible).
+      model: process.env.MOCK_LLM_WIRE ?? "ndjson",
+      // A running `npm run mock:llm`; otherwise the server is started in-process.
+      baseUrl: process.env.MOCK_LLM_BASE_URL ?? null,
+      apiKeyEnv: null,
+    }),
+    create: (profile) => {
+      const sse = profile.model === "sse";
+      const baseUrl = async () => profile.baseUrl ?? (await startMockLlmServer());
+      return {
+        chat: async (params) =>
+          sse
+            ? openaiCompatChat({ ...params, model: "mock", baseUrl: await baseUrl() })
+            : ollamaChat({ ...params, model: "mock", baseUrl: await baseUrl() }),
+        chatStream: async function* (params) {
+          const options = { ...params, model: "mock", baseUrl: await baseUrl() };
+          yield* sse ? openaiCompatChatStream(options) : ollamaChatStream(options);
+        },
+      };
+    },
+  });
+}
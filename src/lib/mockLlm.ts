@@ -0,0 +1,218 @@
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { detectLanguageInfo, type SupportedLanguage } from "@/lib/language";
+import type { OllamaMessage } from "@/lib/ollama";
+
+// Mock LLM server, for tests and local development without a model. It speaks both wire formats
+// so the real clients and their stream parsers are exercised:
+// - POST /api/chat             Ollama: NDJSON when streaming, one JSON object otherwise
+// - POST /v1/chat/completions  OpenAI-compatible: SSE ("data: …", then "data: [DONE]") or JSON
+// Replies are scripted (MOCK_LLM_SCRIPT or setMockLlmScript(): first rule matching the last user
+// message wins) or rule-based (a short answer in the customer's language quoting the recommended
+// index and the first SKU of the system prompt). Every request is recorded with the exact messages
+// received, system prompt included: mockLlmRequests() in-process, GET /mock/requests over HTTP
+// (DELETE clears them).
+// The "mock" provider kind (LLM_PROVIDER=mock) starts it in-process; `npm run mock:llm` serves it
+// on a port for `npm run dev`.
+
+export type MockLlmWire = "ndjson" | "sse";
+
+export type MockLlmRule = {
+  // Case-insensitive regex tested on the last user message; no match = always applies.
+  match?: string;
+  reply?: string;
+  // HTTP error returned instead of a reply (failover tests).
+  status?: number;
+  // Delay before answering, in ms (timeout tests).
+  delayMs?: number;
+};
+
+export type MockLlmRequest = {
+  wire: MockLlmWire;
+  model: string;
+  stream: boolean;
+  messages: OllamaMessage[];
+  // Temperature, format/response_format, num_ctx…: the request body minus model/stream/messages.
+  options: Record<string, unknown>;
+  receivedAt: Date;
+};
+
+let script: MockLlmRule[] | null = null;
+// Most recent requests only: a long-running mock server must not grow without bound.
+const MAX_RECORDED_REQUESTS = 100;
+const requests: MockLlmRequest[] = [];
+
+// Overrides MOCK_LLM_SCRIPT; null goes back to it.
+export function setMockLlmScript(rules: MockLlmRule[] | null): void {
+  script = rules;
+}
+
+function scriptRules(): MockLlmRule[] {
+  if (script) return script;
+  const file = process.env.MOCK_LLM_SCRIPT;
+  if (!file) return [];
+  const raw: unknown = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw)) throw new Error(`MOCK_LLM_SCRIPT invalide (${file}): tableau de règles attendu`);
+  return raw as MockLlmRule[];
+}
+
+export function mockLlmRequests(): MockLlmRequest[] {
+  return [...requests];
+}
+
+export function clearMockLlmRequests(): void {
+  requests.length = 0;
+}
+
+const RULE_BASED: Record<SupportedLanguage, (index: string | null, sku: string | null) => string> = {
+  fr: (index, sku) =>
+    [
+      "Réponse simulée (mock).",
+      index ? `Indice conseillé : ${index}.` : "Indiquez votre ordonnance pour un conseil d’indice.",
+      sku ? `Verre proposé : SKU ${sku}.` : "",
+    ].join(" "),
+  en: (index, sku) =>
+    [
+      "Mock reply.",
+      index ? `Recommended index: ${index}.` : "Share your prescription for an index recommendation.",
+      sku ? `Suggested lens: SKU ${sku}.` : "",
+    ].join(" "),
+  ar: (index, sku) =>
+    [
+      "رد تجريبي (mock).",
+      index ? `المؤشر المقترح: ${index}.` : "أعطني الوصفة الطبية لاقتراح المؤشر.",
+      sku ? `العدسة المقترحة: SKU ${sku}.` : "",
+    ].join(" "),
+  dz: (index, sku) =>
+    [
+      "رد تاع تجربة (mock).",
+      index ? `الأنديس اللي نصحوك بيه: ${index}.` : "عطيني الأوردونونس باش ننصحك.",
+      sku ? `الفير المقترح: SKU ${sku}.` : "",
+    ].join(" "),
+};
+
+function ruleBasedReply(messages: OllamaMessage[]): string {
+  const system = messages.find((m) => m.role === "system")?.content ?? "";
+  const lastUser = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  const index = /Recommended index: ([\d.]+)/.exec(system)?.[1] ?? null;
+  const sku = /SKU=([^\s|]+)/.exec(system)?.[1] ?? null;
+  return RULE_BASED[detectLanguageInfo(lastUser).lang](index, sku).trim();
+}
+
+function pickRule(messages: OllamaMessage[]): MockLlmRule | null {
+  const lastUser = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  return scriptRules().find((r) => !r.match || new RegExp(r.match, "i").test(lastUser)) ?? null;
+}
+
+// Word-sized chunks, whitespace kept, like a model streaming tokens.
+function chunksOf(text: string): string[] {
+  return text.match(/\s*\S+/g) ?? [];
+}
+
+function writeNdjson(res: http.ServerResponse, model: string, reply: string, stream: boolean): void {
+  const message = (content: string) => ({ role: "assistant", content });
+  if (!stream) {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ model, message: message(reply), done: true }));
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+  for (const chunk of chunksOf(reply)) {
+    res.write(JSON.stringify({ model, message: message(chunk), done: false }) + "\n");
+  }
+  res.end(JSON.stringify({ model, message: message(""), done: true }) + "\n");
+}
+
+function writeSse(res: http.ServerResponse, model: string, reply: string, stream: boolean): void {
+  if (!stream) {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        model,
+        choices: [{ index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" }],
+      }),
+    );
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  const event = (delta: Record<string, string>, finish: string | null) =>
+    `data: ${JSON.stringify({ model, choices: [{ index: 0, delta, finish_reason: finish }] })}\n\n`;
+  res.write(event({ role: "assistant" }, null));
+  for (const chunk of chunksOf(reply)) res.write(event({ content: chunk }, null));
+  res.write(event({}, "stop"));
+  res.end("data: [DONE]\n\n");
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return JSON.parse(body || "{}") as Record<string, unknown>;
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const path = (req.url ?? "").split("?")[0];
+  if (path === "/mock/requests" && (req.method === "GET" || req.method === "DELETE")) {
+    if (req.method === "DELETE") clearMockLlmRequests();
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ requests }));
+    return;
+  }
+
+  const wire: MockLlmWire | null = path === "/api/chat" ? "ndjson" : path === "/v1/chat/completions" ? "sse" : null;
+  if (req.method !== "POST" || !wire) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "not found" }));
+    return;
+  }
+
+  const { model, stream, messages, ...options } = await readJson(req);
+  const received = {
+    wire,
+    model: String(model ?? ""),
+    // Ollama streams unless told otherwise; OpenAI-compatible servers do not.
+    stream: wire === "ndjson" ? stream !== false : stream === true,
+    messages: Array.isArray(messages) ? (messages as OllamaMessage[]) : [],
+    options,
+    receivedAt: new Date(),
+  };
+  requests.push(received);
+  if (requests.length > MAX_RECORDED_REQUESTS) requests.splice(0, requests.length - MAX_RECORDED_REQUESTS);
+
+  const rule = pickRule(received.messages);
+  if (rule?.delayMs) await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
+  if (rule?.status) {
+    res.writeHead(rule.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: `mock: HTTP ${rule.status}` }));
+    return;
+  }
+
+  const reply = rule?.reply ?? ruleBasedReply(received.messages);
+  if (wire === "ndjson") writeNdjson(res, received.model, reply, received.stream);
+  else writeSse(res, received.model, reply, received.stream);
+}
+
+export function createMockLlmServer(): http.Server {
+  return http.createServer((req, res) => {
+    handle(req, res).catch((e: unknown) => {
+      if (!res.headersSent) res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }));
+    });
+  });
+}
+
+let running: Promise<string> | null = null;
+
+// In-process server on a free local port, started once; resolves to its base URL.
+export function startMockLlmServer(): Promise<string> {
+  running ??= new Promise((resolve, reject) => {
+    const server = createMockLlmServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      // Does not keep scripts alive once their work is done.
+      server.unref();
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+  return running;
+}
@@ -15,27 +15,47 @@ type OllamaChatStreamChunk = {
 // Minimal Ollama client:
 // - `ollamaChatStream` yields raw text chunks as they arrive (newline-delimited JSON)
 // - `ollamaChat` returns the final assistant text for non-stream responses
+// Model and base URL come from the caller (LLM profile, see src/lib/llmProviders.ts), else OLLAMA_*.
 
-export async function* ollamaChatStream(params: {
+export type OllamaChatParams = {
   messages: OllamaMessage[];
   temperature?: number;
   model?: string;
-}): AsyncGenerator<string, void, void> {
-  const baseUrl = process.env.OLLAMA_BASE_URL ?? "http://127.0.0.1:11434";
+  baseUrl?: string;
+  // Constrain the answer to valid JSON (Ollama `format: "json"`).
+  json?: boolean;
+  // Context window (`num_ctx`); the server default otherwise.
+  numCtx?: number;
+  // Aborts the request, including a stream being read (timeouts, see src/lib/llmFailover.ts).
+  signal?: AbortSignal;
+};
+
+function ollamaRequest(params: OllamaChatParams, stream: boolean): [string, RequestInit] {
+  const baseUrl = (params.baseUrl ?? process.env.OLLAMA_BASE_URL ?? "http://127.0.0.1:11434").replace(/\/+$/, "");
   const model = params.model ?? process.env.OLLAMA_MODEL ?? "qwen2.5:7b-instruct";
 
-  const res = await fetch(`${baseUrl}/api/chat`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      model,
-      stream: true,
-      messages: params.messages,
-      options: {
-        temperature: params.temperature ?? 0.2,
-      },
-    }),
-  });
+  return [
+    `${baseUrl}/api/chat`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: params.messages,
+        ...(params.json ? { format: "json" } : {}),
+        options: {
+          temperature: params.temperature ?? 0.2,
+          ...(params.numCtx ? { num_ctx: params.numCtx } : {}),
+        },
+      }),
+      signal: params.signal,
+    },
+  ];
+}
+
+export async function* ollamaChatStream(params: OllamaChatParams): AsyncGenerator<string, void, void> {
+  const res = await fetch(...ollamaRequest(params, true));
 
   if (!res.ok) {
     const body = await res.text().catch(() => "");
@@ -70,26 +90,8 @@ export async function* ollamaChatStream(params: {
   }
 }
 
-export async function ollamaChat(params: {
-  messages: OllamaMessage[];
-  temperature?: number;
-  model?: string;
-}): Promise<string> {
-  const baseUrl = process.env.OLLAMA_BASE_URL ?? "http://127.0.0.1:11434";
-  const model = params.model ?? process.env.OLLAMA_MODEL ?? "qwen2.5:7b-instruct";
-
-  const res = await fetch(`${baseUrl}/api/chat`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      model,
-      stream: false,
-      messages: params.messages,
-      options: {
-        temperature: params.temperature ?? 0.2,
-      },
-    }),
-  });
+export async function ollamaChat(params: OllamaChatParams): Promise<string> {
+  const res = await fetch(...ollamaRequest(params, false));
 
   if (!res.ok) {
     const body = await res.text().catch(() => "");
@@ -2,7 +2,9 @@ import type { OllamaMessage } from "@/lib/ollama";
 
 // OpenAI-compatible client (local/self-hosted):
 // Supports servers that expose `/v1/chat/completions` with OpenAI-like streaming SSE events.
-// This is used when `LLM_PROVIDER=openai-compat`.
+// Used by the "openai-compat" provider kind (src/lib/llmProviders.ts); OPENAI_COMPAT_BASE_URL and
+// OPENAI_COMPAT_MODEL are the defaults when the caller does not pass a base URL or model. The key is
+// never defaulted: only the caller knows whether the profile may use OPENAI_COMPAT_API_KEY.
 
 type OpenAICompatChatCompletion = {
   choices?: Array<{
@@ -23,23 +25,20 @@ function normalizeBaseUrl(raw: string): string {
   return trimmed.endsWith("/v1") ? trimmed : `${trimmed}/v1`;
 }
 
-function getHeaders(): Record<string, string> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-
-  const key = process.env.OPENAI_COMPAT_API_KEY;
-  if (key) headers.Authorization = `Bearer ${key}`;
-
-  return headers;
-}
-
-export async function* openaiCompatChatStream(params: {
+export type OpenAICompatChatParams = {
   messages: OllamaMessage[];
   temperature?: number;
   model?: string;
-}): AsyncGenerator<string, void, void> {
-  const baseUrl = normalizeBaseUrl(process.env.OPENAI_COMPAT_BASE_URL ?? "http://127.0.0.1:8000");
+  baseUrl?: string;
+  apiKey?: string;
+  // Ask for a JSON object (`response_format`), for servers that support it.
+  json?: boolean;
+  // Aborts the request, including a stream being read.
+  signal?: AbortSignal;
+};
+
+function openaiCompatRequest(params: OpenAICompatChatParams, stream: boolean): [string, RequestInit] {
+  const baseUrl = normalizeBaseUrl(params.baseUrl ?? process.env.OPENAI_COMPAT_BASE_URL ?? "http://127.0.0.1:8000");
   const model = params.model ?? process.env.OPENAI_COMPAT_MODEL;
 
   if (!model) {
@@ -48,16 +47,30 @@ export async function* openaiCompatChatStream(params: {
     );
   }
 
-  const res = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: getHeaders(),
-    body: JSON.stringify({
-      model,
-      stream: true,
-      temperature: params.temperature ?? 0.2,
-      messages: params.messages,
-    }),
-  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (params.apiKey) headers.Authorization = `Bearer ${params.apiKey}`;
+
+  return [
+    `${baseUrl}/chat/completions`,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        stream,
+        temperature: params.temperature ?? 0.2,
+        messages: params.messages,
+        ...(params.json ? { response_format: { type: "json_object" } } : {}),
+      }),
+      signal: params.signal,
+    },
+  ];
+}
+
+export async function* openaiCompatChatStream(params: OpenAICompatChatParams): AsyncGenerator<string, void, void> {
+  const res = await fetch(...openaiCompatRequest(params, true));
 
   if (!res.ok) {
     const body = await res.text().catch(() => "");
@@ -107,30 +120,8 @@ export async function* openaiCompatChatStream(params: {
   }
 }
 
-export async function openaiCompatChat(params: {
-  messages: OllamaMessage[];
-  temperature?: number;
-  model?: string;
-}): Promise<string> {
-  const baseUrl = normalizeBaseUrl(process.env.OPENAI_COMPAT_BASE_URL ?? "http://127.0.0.1:8000");
-  const model = params.model ?? process.env.OPENAI_COMPAT_MODEL;
-
-  if (!model) {
-    throw new Error(
-      "OPENAI_COMPAT_MODEL est requis quand LLM_PROVIDER=openai-compat.",
-    );
-  }
-
-  const res = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: getHeaders(),
-    body: JSON.stringify({
-      model,
-      stream: false,
-      temperature: params.temperature ?? 0.2,
-      messages: params.messages,
-    }),
-  });
+export async function openaiCompatChat(params: OpenAICompatChatParams): Promise<string> {
+  const res = await fetch(...openaiCompatRequest(params, false));
 
   if (!res.ok) {
     const body = await res.text().catch(() => "");
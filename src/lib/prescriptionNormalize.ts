@@ -0,0 +1,186 @@
+import type { Eye, EyePrescription, Prescription } from "@/lib/recommendation";
+
+// Prescription normalization:
+// - transpose plus-cylinder notation to minus-cylinder (the convention of our catalog ranges)
+// - round powers to 0.25 D steps and validate the axis (1–180)
+// - drop implausible values instead of guessing, and report them as structured warnings
+
+export type PrescriptionWarningCode =
+  | "sph-out-of-range"
+  | "cyl-out-of-range"
+  | "add-out-of-range"
+  | "axis-out-of-range"
+  | "axis-missing"
+  | "rounded"
+  | "transposed";
+
+export type PrescriptionWarning = {
+  eye: Eye;
+  field: "sph" | "cyl" | "axis" | "add";
+  code: PrescriptionWarningCode;
+  severity: "info" | "warning";
+  value: number | null;
+  message: string;
+};
+
+export type NormalizedPrescription = {
+  prescription?: Prescription;
+  warnings: PrescriptionWarning[];
+};
+
+// Plausibility limits for spectacle prescriptions (beyond these, the value is almost certainly a typo).
+const MAX_ABS_SPH = 30;
+const MAX_ABS_CYL = 10;
+const MIN_ADD = 0.25;
+const MAX_ADD = 4;
+
+const EYE_LABEL: Record<Eye, string> = { od: "OD", os: "OG" };
+
+export function roundToQuarter(value: number): number {
+  const rounded = Math.round(value * 4) / 4;
+  // Avoid "-0".
+  return rounded === 0 ? 0 : rounded;
+}
+
+export function sphericalEquivalent(eye: EyePrescription): number {
+  return (eye.sph ?? 0) + (eye.cyl ?? 0) / 2;
+}
+
+export function transposeToMinusCyl(eye: EyePrescription): EyePrescription {
+  if (eye.cyl === undefined || eye.cyl <= 0) return { ...eye };
+  const axis = eye.axis !== undefined ? (eye.axis <= 90 ? eye.axis + 90 : eye.axis - 90) : undefined;
+  return {
+    ...eye,
+    sph: (eye.sph ?? 0) + eye.cyl,
+    cyl: -eye.cyl,
+    axis,
+  };
+}
+
+function formatPower(n: number): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(2)}`;
+}
+
+function normalizeEye(eye: Eye, raw: EyePrescription): { eye?: EyePrescription; warnings: PrescriptionWarning[] } {
+  const warnings: PrescriptionWarning[] = [];
+  const label = EYE_LABEL[eye];
+  const next: EyePrescription = { ...raw };
+
+  if (next.sph !== undefined && Math.abs(next.sph) > MAX_ABS_SPH) {
+    warnings.push({
+      eye,
+      field: "sph",
+      code: "sph-out-of-range",
+      severity: "warning",
+      value: next.sph,
+      message: `${label}: SPH ${formatPower(next.sph)} invalide (attendu entre -${MAX_ABS_SPH} et +${MAX_ABS_SPH}).`,
+    });
+    next.sph = undefined;
+  }
+
+  if (next.cyl !== undefined && Math.abs(next.cyl) > MAX_ABS_CYL) {
+    warnings.push({
+      eye,
+      field: "cyl",
+      code: "cyl-out-of-range",
+      severity: "warning",
+      value: next.cyl,
+      message: `${label}: CYL ${formatPower(next.cyl)} invalide (attendu entre -${MAX_ABS_CYL} et +${MAX_ABS_CYL}).`,
+    });
+    next.cyl = undefined;
+    next.axis = undefined;
+  }
+
+  if (next.add !== undefined && (next.add < MIN_ADD || next.add > MAX_ADD)) {
+    warnings.push({
+      eye,
+      field: "add",
+      code: "add-out-of-range",
+      severity: "warning",
+      value: next.add,
+      message: `${label}: ADD ${formatPower(next.add)} invalide (attendu entre +${MIN_ADD.toFixed(2)} et +${MAX_ADD.toFixed(2)}).`,
+    });
+    next.add = undefined;
+  }
+
+  if (next.axis !== undefined) {
+    // 0° and 180° describe the same meridian; opticians write both.
+    if (next.axis === 0) next.axis = 180;
+    if (!Number.isInteger(next.axis) || next.axis < 1 || next.axis > 180) {
+      warnings.push({
+        eye,
+        field: "axis",
+        code: "axis-out-of-range",
+        severity: "warning",
+        value: next.axis,
+        message: `${label}: axe ${next.axis}° invalide (attendu entre 1 et 180).`,
+      });
+      next.axis = undefined;
+    }
+  }
+
+  if (next.cyl !== undefined && next.cyl !== 0 && next.axis === undefined) {
+    warnings.push({
+      eye,
+      field: "axis",
+      code: "axis-missing",
+      severity: "warning",
+      value: null,
+      message: `${label}: cylindre sans axe valide; demander l’axe de l’ordonnance.`,
+    });
+  }
+
+  for (const field of ["sph", "cyl", "add"] as const) {
+    const value = next[field];
+    if (value === undefined) continue;
+    const rounded = roundToQuarter(value);
+    if (rounded !== value) {
+      warnings.push({
+        eye,
+        field,
+        code: "rounded",
+        severity: "info",
+        value,
+        message: `${label}: ${field.toUpperCase()} ${formatPower(value)} arrondi au pas de 0.25 D (${formatPower(rounded)}).`,
+      });
+    }
+    next[field] = rounded;
+  }
+
+  if (next.cyl !== undefined && next.cyl > 0) {
+    const transposed = transposeToMinusCyl(next);
+    warnings.push({
+      eye,
+      field: "cyl",
+      code: "transposed",
+      severity: "info",
+      value: next.cyl,
+      message: `${label}: cylindre positif transposé en cylindre négatif (SPH ${formatPower(transposed.sph ?? 0)} CYL ${formatPower(transposed.cyl ?? 0)}${transposed.axis !== undefined ? ` AX ${transposed.axis}°` : ""}).`,
+    });
+    Object.assign(next, transposed);
+  }
+
+  // A zero cylinder carries no axis.
+  if (next.cyl === 0) next.axis = undefined;
+
+  const empty = next.sph === undefined && next.cyl === undefined && next.add === undefined;
+  return { eye: empty ? undefined : next, warnings };
+}
+
+export function normalizePrescription(prescription: Prescription): NormalizedPrescription {
+  const warnings: PrescriptionWarning[] = [];
+  const normalized: Prescription = {};
+
+  for (const eye of ["od", "os"] as const) {
+    const raw = prescription[eye];
+    if (!raw) continue;
+    const result = normalizeEye(eye, raw);
+    warnings.push(...result.warnings);
+    if (result.eye) normalized[eye] = result.eye;
+  }
+
+  return {
+    prescription: normalized.od || normalized.os ? normalized : undefined,
+    warnings,
+  };
+}
@@ -0,0 +1,265 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { convertMinor, currencyBase, quotePrice } from "@/lib/currency";
+import { InventoryNotFoundError } from "@/lib/inventoryLedger";
+
+// Prices and promotions. InventoryItem.priceCents is the regular price in force: it only changes
+// through setInventoryPrice(), which appends an InventoryPrice entry. A price with a future
+// `effectiveFrom` is scheduled and copied to the item once due (applyScheduledPrices).
+// Promotions never touch the stored price: effectivePrice() applies them when a price is shown.
+
+export const PROMOTION_KINDS = ["percent", "fixed"] as const;
+
+export type PromotionKind = (typeof PROMOTION_KINDS)[number];
+
+export const PROMOTION_SCOPES = ["brand", "family", "coating", "sku"] as const;
+
+export type PromotionScope = (typeof PROMOTION_SCOPES)[number];
+
+type Db = Prisma.TransactionClient;
+
+export type PriceInput = {
+  inventoryId: string;
+  priceCents: number;
+  currency?: string;
+  // Defaults to now; a later date schedules the change.
+  effectiveFrom?: Date;
+  user?: string | null;
+  reason?: string | null;
+};
+
+async function setPrice(tx: Db, input: PriceInput) {
+  const item = await tx.inventoryItem.findUnique({
+    where: { id: input.inventoryId },
+    select: { priceCents: true, currency: true },
+  });
+  if (!item) throw new InventoryNotFoundError();
+
+  const now = new Date();
+  const effectiveFrom = input.effectiveFrom ?? now;
+  const currency = input.currency ?? item.currency;
+  const immediate = effectiveFrom <= now;
+  // Re-entering the current price is not worth a history line.
+  if (immediate && item.priceCents === input.priceCents && item.currency === currency) return null;
+
+  if (immediate) {
+    await tx.inventoryItem.update({
+      where: { id: input.inventoryId },
+      data: { priceCents: input.priceCents, currency },
+    });
+  }
+  return tx.inventoryPrice.create({
+    data: {
+      inventoryId: input.inventoryId,
+      priceCents: input.priceCents,
+      currency,
+      effectiveFrom,
+      appliedAt: immediate ? now : null,
+      user: input.user ?? null,
+      reason: input.reason ?? null,
+    },
+  });
+}
+
+// Pass `tx` to join a caller's transaction (e.g. catalog import); otherwise runs in its own.
+export async function setInventoryPrice(input: PriceInput, tx?: Db) {
+  if (tx) return setPrice(tx, input);
+  return prisma.$transaction((t) => setPrice(t, input));
+}
+
+// Opening entry for a freshly created stock line.
+export async function recordOpeningPrice(
+  tx: Db,
+  item: { id: string; priceCents: number; currency: string },
+  meta: { user?: string | null; reason?: string | null } = {},
+) {
+  const now = new Date();
+  return tx.inventoryPrice.create({
+    data: {
+      inventoryId: item.id,
+      priceCents: item.priceCents,
+      currency: item.currency,
+      effectiveFrom: now,
+      appliedAt: now,
+      user: meta.user ?? null,
+      reason: meta.reason ?? "Création de la ligne de stock",
+    },
+  });
+}
+
+// Copies scheduled prices that became due to their stock line, oldest first.
+export async function applyScheduledPrices(now = new Date()): Promise<number> {
+  const due = await prisma.inventoryPrice.findMany({
+    where: { appliedAt: null, effectiveFrom: { lte: now } },
+    orderBy: [{ effectiveFrom: "asc" }, { createdAt: "asc" }],
+  });
+  for (const entry of due) {
+    await prisma.$transaction([
+      prisma.inventoryItem.update({
+        where: { id: entry.inventoryId },
+        data: { priceCents: entry.priceCents, currency: entry.currency },
+      }),
+      prisma.inventoryPrice.update({ where: { id: entry.id }, data: { appliedAt: now } }),
+    ]);
+  }
+  return due.length;
+}
+
+const SWEEP_INTERVAL_MS = 30_000;
+let lastSweep = 0;
+
+// Throttled variant for hot paths (every chat turn).
+export async function sweepScheduledPrices(): Promise<void> {
+  if (Date.now() - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = Date.now();
+  await applyScheduledPrices();
+}
+
+export function getActivePromotions(now = new Date()) {
+  return prisma.promotion.findMany({
+    where: { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } },
+    orderBy: { endsAt: "asc" },
+  });
+}
+
+type PromotionRule = {
+  id: string;
+  name: string;
+  kind: string;
+  value: number;
+  currency: string | null;
+  scope: string;
+  target: string;
+  endsAt: Date;
+};
+
+// What a promotion needs to know about a product.
+export type PricedProduct = {
+  sku: string;
+  family: string | null;
+  brand: { name: string };
+  coatings: Array<{ coating: { code: string } }>;
+};
+
+function same(a: string | null | undefined, b: string): boolean {
+  return (a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function promotionApplies(promotion: Pick<PromotionRule, "scope" | "target">, product: PricedProduct): boolean {
+  switch (promotion.scope) {
+    case "brand":
+      return same(product.brand.name, promotion.target);
+    case "family":
+      return same(product.family, promotion.target);
+    case "coating":
+      return product.coatings.some((c) => same(c.coating.code, promotion.target));
+    case "sku":
+      return same(product.sku, promotion.target);
+    default:
+      return false;
+  }
+}
+
+export type AppliedPromotion = {
+  id: string;
+  name: string;
+  kind: PromotionKind;
+  value: number;
+  endsAt: Date;
+};
+
+export type EffectivePrice = {
+  priceCents: number;
+  // Regular price, before promotion.
+  basePriceCents: number;
+  currency: string;
+  promotion: AppliedPromotion | null;
+};
+
+function discountCents(promotion: PromotionRule, priceCents: number, currency: string): number {
+  if (promotion.kind === "percent") return Math.round((priceCents * Math.min(100, promotion.value)) / 100);
+  if (promotion.kind === "fixed") {
+    // Fixed amounts are in the promotion's currency (CURRENCY_BASE when unset), converted to the line's.
+    const discount = convertMinor(promotion.value, promotion.currency ?? currencyBase(), currency);
+    return discount === null ? 0 : Math.min(priceCents, discount);
+  }
+  return 0;
+}
+
+// Price to show for a stock line: the best applicable promotion (no stacking) on the regular price.
+export function effectivePrice(
+  item: { priceCents: number; currency: string },
+  product: PricedProduct,
+  promotions: PromotionRule[],
+): EffectivePrice {
+  let best: { promotion: PromotionRule; discount: number } | null = null;
+  for (const promotion of promotions) {
+    if (!promotionApplies(promotion, product)) continue;
+    const discount = discountCents(promotion, item.priceCents, item.currency);
+    if (discount > 0 && (!best || discount > best.discount)) best = { promotion, discount };
+  }
+
+  return {
+    priceCents: item.priceCents - (best?.discount ?? 0),
+    basePriceCents: item.priceCents,
+    currency: item.currency,
+    promotion: best
+      ? {
+          id: best.promotion.id,
+          name: best.promotion.name,
+          kind: best.promotion.kind as PromotionKind,
+          value: best.promotion.value,
+          endsAt: best.promotion.endsAt,
+        }
+      : null,
+  };
+}
+
+export type PriceRange = { currency: string; minCents: number; maxCents: number };
+
+// Cheapest and most expensive active stock line at today's effective prices, one range per currency.
+// With a quote currency, lines are converted to it when a rate is known (see src/lib/currency.ts).
+export async function getEffectivePriceRanges(quoteCurrency?: string | null): Promise<PriceRange[]> {
+  const [items, promotions] = await Promise.all([
+    prisma.inventoryItem.findMany({
+      where: { isActive: true },
+      select: {
+        priceCents: true,
+        currency: true,
+        lens: {
+          select: {
+            sku: true,
+            family: true,
+            brand: { select: { name: true } },
+            coatings: { select: { coating: { select: { code: true } } } },
+          },
+        },
+      },
+    }),
+    getActivePromotions(),
+  ]);
+
+  const byCurrency = new Map<string, PriceRange>();
+  for (const item of items) {
+    const price = effectivePrice(item, item.lens, promotions);
+    const { amountMinor, currency } = quotePrice(price.priceCents, price.currency, quoteCurrency);
+    const range = byCurrency.get(currency);
+    if (!range) byCurrency.set(currency, { currency, minCents: amountMinor, maxCents: amountMinor });
+    else {
+      range.minCents = Math.min(range.minCents, amountMinor);
+      range.maxCents = Math.max(range.maxCents, amountMinor);
+    }
+  }
+  // Quote currency first, then alphabetical order for stable prompts.
+  const rank = (r: PriceRange) => (r.currency === quoteCurrency ? 0 : 1);
+  return [...byCurrency.values()].sort((a, b) => rank(a) - rank(b) || a.currency.localeCompare(b.currency));
+}
+
+// Currency to quote prices in: the store's, else STORE_CURRENCY; null keeps each line's currency.
+export async function resolveQuoteCurrency(storeCode?: string | null): Promise<string | null> {
+  if (storeCode) {
+    const store = await prisma.store.findUnique({ where: { code: storeCode }, select: { currency: true } });
+    if (store?.currency) return store.currency;
+  }
+  return process.env.STORE_CURRENCY?.trim().toUpperCase() || null;
+}
@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+
+// Catalog ranking profiles: named weight sets stored in DB (RankingProfile), selectable per request
+// or per store. Without any profile in DB, the built-in weights reproduce the historical ranking.
+
+export type PriceBand = "low" | "mid" | "high";
+
+export type RankingWeights = {
+  inStockWeight: number;
+  stockQuantityWeight: number;
+  indexWeight: number;
+  featureWeight: number;
+  coatingWeight: number;
+  rangeWeight: number;
+  preferredBrands: string[];
+  brandWeight: number;
+  priceBand: PriceBand | null;
+  priceWeight: number;
+};
+
+export type RankingProfile = RankingWeights & {
+  name: string;
+  // "request", "store", "default" (DB default profile) or "builtin".
+  source: "request" | "store" | "default" | "builtin";
+};
+
+// Thrown when a request names a profile that does not exist (HTTP 404 in the routes).
+export class RankingProfileNotFoundError extends Error {
+  constructor(readonly profile: string) {
+    super(`Profil de classement introuvable: ${profile}`);
+    this.name = "RankingProfileNotFoundError";
+  }
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  inStockWeight: 5,
+  stockQuantityWeight: 0,
+  indexWeight: 4,
+  featureWeight: 2,
+  coatingWeight: 2,
+  rangeWeight: 1,
+  preferredBrands: [],
+  brandWeight: 0,
+  priceBand: null,
+  priceWeight: 0,
+};
+
+export const BUILTIN_PROFILE_NAME = "builtin";
+
+const WeightSchema = z.number().min(0).max(20);
+
+// Shared by the admin create/update routes (all fields optional; defaults come from the DB schema).
+export const RankingWeightsInputSchema = z.object({
+  inStockWeight: WeightSchema.optional(),
+  stockQuantityWeight: WeightSchema.optional(),
+  indexWeight: WeightSchema.optional(),
+  featureWeight: WeightSchema.optional(),
+  coatingWeight: WeightSchema.optional(),
+  rangeWeight: WeightSchema.optional(),
+  preferredBrands: z.array(z.string().trim().min(1).max(80)).max(20).optional(),
+  brandWeight: WeightSchema.optional(),
+  priceBand: z.enum(["low", "mid", "high"]).nullable().optional(),
+  priceWeight: WeightSchema.optional(),
+});
+
+export type RankingWeightsInput = z.infer<typeof RankingWeightsInputSchema>;
+
+// Prisma data for a create/update: preferredBrands is stored as a JSON string.
+export function rankingWeightsToData(input: RankingWeightsInput) {
+  const { preferredBrands, ...rest } = input;
+  return {
+    ...rest,
+    ...(preferredBrands !== undefined ? { preferredBrands: JSON.stringify(preferredBrands) } : {}),
+  };
+}
+
+export function applyRankingWeightsInput(base: RankingWeights, input: RankingWeightsInput): RankingWeights {
+  const next = { ...base };
+  for (const [key, value] of Object.entries(input)) {
+    if (value !== undefined) Object.assign(next, { [key]: value });
+  }
+  return next;
+}
+
+type RankingProfileRow = {
+  name: string;
+  inStockWeight: number;
+  stockQuantityWeight: number;
+  indexWeight: number;
+  featureWeight: number;
+  coatingWeight: number;
+  rangeWeight: number;
+  preferredBrands: string;
+  brandWeight: number;
+  priceBand: string | null;
+  priceWeight: number;
+};
+
+function parsePriceBand(value: string | null): PriceBand | null {
+  return value === "low" || value === "mid" || value === "high" ? value : null;
+}
+
+export function parsePreferredBrands(value: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((b): b is string => typeof b === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rankingWeightsFromRow(row: RankingProfileRow): RankingWeights {
+  return {
+    inStockWeight: row.inStockWeight,
+    stockQuantityWeight: row.stockQuantityWeight,
+    indexWeight: row.indexWeight,
+    featureWeight: row.featureWeight,
+    coatingWeight: row.coatingWeight,
+    rangeWeight: row.rangeWeight,
+    preferredBrands: parsePreferredBrands(row.preferredBrands),
+    brandWeight: row.brandWeight,
+    priceBand: parsePriceBand(row.priceBand),
+    priceWeight: row.priceWeight,
+  };
+}
+
+// Resolution order: explicit profile name > store profile > DB default profile > built-in weights.
+// An unknown profile name is an error (the caller asked for something specific); an unknown store is not.
+export async function resolveRankingProfile(params: { profile?: string; store?: string }): Promise<RankingProfile> {
+  if (params.profile && params.profile !== BUILTIN_PROFILE_NAME) {
+    const row = await prisma.rankingProfile.findUnique({ where: { name: params.profile } });
+    if (!row) throw new RankingProfileNotFoundError(params.profile);
+    return { ...rankingWeightsFromRow(row), name: row.name, source: "request" };
+  }
+  if (params.profile === BUILTIN_PROFILE_NAME) {
+    return { ...DEFAULT_RANKING_WEIGHTS, name: BUILTIN_PROFILE_NAME, source: "builtin" };
+  }
+
+  if (params.store) {
+    const store = await prisma.store.findUnique({
+      where: { code: params.store },
+      include: { rankingProfile: true },
+    });
+    if (store?.rankingProfile) {
+      return { ...rankingWeightsFromRow(store.rankingProfile), name: store.rankingProfile.name, source: "store" };
+    }
+  }
+
+  const row = await prisma.rankingProfile.findFirst({
+    where: { isDefault: true },
+    orderBy: { updatedAt: "desc" },
+  });
+  if (row) return { ...rankingWeightsFromRow(row), name: row.name, source: "default" };
+
+  return { ...DEFAULT_RANKING_WEIGHTS, name: BUILTIN_PROFILE_NAME, source: "builtin" };
+}
+
+// Shape returned by the admin API (preferredBrands decoded).
+export function serializeRankingProfile<T extends RankingProfileRow>(row: T) {
+  return { ...row, preferredBrands: parsePreferredBrands(row.preferredBrands) };
+}
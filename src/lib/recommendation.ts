@@ -1,7 +1,24 @@
-export type Prescription = {
+import {
+  normalizePrescription,
+  sphericalEquivalent,
+  type NormalizedPrescription,
+} from "@/lib/prescriptionNormalize";
+
+export type EyePrescription = {
   sph?: number;
   cyl?: number;
   axis?: number;
+  // Near addition (presbyopia), usually identical for both eyes.
+  add?: number;
+};
+
+export type Eye = "od" | "os";
+
+// OD = right eye (oculus dexter), OS = left eye (oculus sinister, "OG" in French).
+// When the text has no eye labels, the same values are applied to both eyes.
+export type Prescription = {
+  od?: EyePrescription;
+  os?: EyePrescription;
 };
 
 export type VisualNeed =
@@ -9,21 +26,51 @@ export type VisualNeed =
   | "outdoor"
   | "driving"
   | "easy-clean"
-  | "premium-clarity";
+  | "premium-clarity"
+  | "reading"
+  | "office";
+
+export const VISUAL_NEEDS: readonly VisualNeed[] = [
+  "screen",
+  "outdoor",
+  "driving",
+  "easy-clean",
+  "premium-clarity",
+  "reading",
+  "office",
+];
+
+export function isVisualNeed(value: unknown): value is VisualNeed {
+  return typeof value === "string" && (VISUAL_NEEDS as readonly string[]).includes(value);
+}
+
+// Stored as a plain string on LensProduct.design.
+export type LensDesign = "single-vision" | "progressive" | "office" | "bifocal";
+
+export const LENS_DESIGNS: readonly LensDesign[] = ["single-vision", "progressive", "office", "bifocal"];
 
 export type Budget = "basic" | "mid" | "premium";
 
+export const BUDGETS: readonly Budget[] = ["basic", "mid", "premium"];
+
 export type Recommendation = {
   recommendedIndex?: 1.5 | 1.56 | 1.6 | 1.67 | 1.74;
+  design?: LensDesign;
+  add?: number;
   wantPhotochromic?: boolean;
   wantBlueCut?: boolean;
   coatings: Array<"AR" | "HARD" | "HYDRO" | "PHOTO" | "BLUECUT">;
   rationale: string[];
+  // Difference in spherical equivalent between both eyes (diopters), when both are known.
+  anisometropia?: number;
+  largeAnisometropia?: boolean;
 };
 
 // Recommendation logic is intentionally simple and explainable:
-// - parse a rough prescription (SPH/CYL/AX)
-// - pick an index based on max optical power (sph and sph+cyl)
+// - parse a rough prescription (SPH/CYL/AX), per eye when OD/OG labels are present,
+//   then normalize it (see prescriptionNormalize.ts)
+// - pick an index based on max optical power (sph and sph+cyl) of the stronger eye
+// - pick a lens design from the ADD power and near-vision needs (reading/office)
 // - add coatings based on needs (screen/outdoor/driving)
 // This is not a medical device; it's a sales-assistant heuristic.
 
@@ -35,35 +82,201 @@ function clampIndex(idx: number): Recommendation["recommendedIndex"] {
   return 1.74;
 }
 
-export function parsePrescription(text: string): Prescription | undefined {
+function finiteOrUndefined(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function isEmptyEye(eye: EyePrescription): boolean {
+  return eye.sph === undefined && eye.cyl === undefined && eye.axis === undefined && eye.add === undefined;
+}
+
+function parseAdd(text: string): number | undefined {
+  // "ADD +2.00", "add: 2.5", "addition 1,75", "إضافة 2.00"
+  const m = /(?:\bADD\b|\baddition\b|إضافة|اضافة)\s*[:=]?\s*\+?(\d+(?:\.\d+)?)/i.exec(text);
+  const add = finiteOrUndefined(m?.[1]);
+  // "addition" is also the French word for the bill; ignore amounts. Implausible ADDs are reported by normalization.
+  return add !== undefined && add <= 10 ? add : undefined;
+}
+
+function parseLabeledEye(text: string): EyePrescription | undefined {
   // Accept formats like: SPH -2.50 CYL -1.25 AX 180
   // Or: sph:-2.5 cyl:-1.25 axis:180
+  const sphMatch = /(?:\bSPH\b|\bsph\b)\s*[:=]?\s*([+-]?\d+(?:\.\d+)?)/i.exec(text);
+  const cylMatch = /(?:\bCYL\b|\bcyl\b)\s*[:=]?\s*([+-]?\d+(?:\.\d+)?)/i.exec(text);
+  const axisMatch = /(?:\bAX(?:IS)?\b|\baxe\b)\s*[:=]?\s*(\d{1,3})/i.exec(text);
+
+  const eye: EyePrescription = {
+    sph: finiteOrUndefined(sphMatch?.[1]),
+    cyl: finiteOrUndefined(cylMatch?.[1]),
+    axis: finiteOrUndefined(axisMatch?.[1]),
+  };
+  return isEmptyEye(eye) ? undefined : eye;
+}
+
+// Unsigned values that are lens indices, not powers: "OD 1.67 ou 1.74 ?" asks about a material.
+const INDEX_VALUES = [1.5, 1.56, 1.6, 1.67, 1.74];
+
+function parsePositionalEye(text: string): EyePrescription | undefined {
+  // Optician shorthand right after an eye label: "-2.00 (-0.75) 180", "-2.00 -0.75 x 180", "plan".
+  // The cylinder must be signed or decimal so that a bare axis is not mistaken for it.
+  const m =
+    /^[\s:=]*([+-]?\d+(?:\.\d+)?|plan\b|pl\b)(?:\s*\(?\s*([+-]\d+(?:\.\d+)?|\d+\.\d+)\s*\)?)?(?:\s*(?:x|à|a|@|ax|axe)?\s*(\d{1,3})(?!\.\d)\s*°?)?/i.exec(
+      text,
+    );
+  if (!m) return undefined;
+  if (/^\d/.test(m[1]) && INDEX_VALUES.includes(Number(m[1]))) return undefined;
+
+  const sph = /^pl/i.test(m[1]) ? 0 : finiteOrUndefined(m[1]);
+  const cyl = finiteOrUndefined(m[2]);
+  // An axis only makes sense with a cylinder.
+  const axis = cyl !== undefined ? finiteOrUndefined(m[3]) : undefined;
+
+  const eye: EyePrescription = { sph, cyl, axis };
+  return isEmptyEye(eye) ? undefined : eye;
+}
+
+// Eye labels: OD/OG/OS (FR/latin) and RE/LE (EN), uppercase only to avoid matching the French
+// "os" or "le"; spelled-out FR/EN forms and Arabic "العين اليمنى/اليسرى".
+const EYE_LABELS: Array<{ eye: Eye; re: RegExp }> = [
+  { eye: "od", re: /\b(?:OD|O\.D\.)(?![\w.])/g },
+  { eye: "od", re: /\bRE\b/g },
+  { eye: "od", re: /(?:[œo]e?il\s+droit|\bright\s+eye)\b/gi },
+  { eye: "od", re: /(?:العين\s*)?اليمنى|(?:العين\s*)?اليمين/g },
+  { eye: "os", re: /\b(?:OG|OS|O\.G\.|O\.S\.)(?![\w.])/g },
+  { eye: "os", re: /\bLE\b/g },
+  { eye: "os", re: /(?:[œo]e?il\s+gauche|\bleft\s+eye)\b/gi },
+  { eye: "os", re: /(?:العين\s*)?اليسرى|(?:العين\s*)?اليسار/g },
+];
+
+function findEyeLabels(text: string): Array<{ eye: Eye; start: number; end: number }> {
+  const found: Array<{ eye: Eye; start: number; end: number }> = [];
+  for (const { eye, re } of EYE_LABELS) {
+    re.lastIndex = 0;
+    for (let m = re.exec(text); m; m = re.exec(text)) {
+      found.push({ eye, start: m.index, end: m.index + m[0].length });
+    }
+  }
+
+  // Drop labels nested inside a longer one (e.g. "اليمنى" inside "العين اليمنى").
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const labels: typeof found = [];
+  for (const l of found) {
+    const prev = labels[labels.length - 1];
+    if (prev && l.start < prev.end) continue;
+    labels.push(l);
+  }
+  return labels;
+}
+
+function parseRawPrescription(text: string): Prescription | undefined {
+  // Per-eye formats: "OD -2.00 (-0.75) 180 / OG -2.50", "RE: SPH -1 CYL -0.5 AX 90, LE: SPH -1.25",
+  // "العين اليمنى -2.00 العين اليسرى -2.50".
+  // Without eye labels, the first SPH/CYL/AX found applies to both eyes.
   const normalized = text
-    .replace(/,/g, ".")
+    .replace(/(\d),(\d)/g, "$1.$2")
     .replace(/\s+/g, " ")
     .trim();
 
-  const sphMatch = /(?:\bSPH\b|\bsph\b)\s*[:=]?\s*([+-]?\d+(?:\.\d+)?)/i.exec(normalized);
-  const cylMatch = /(?:\bCYL\b|\bcyl\b)\s*[:=]?\s*([+-]?\d+(?:\.\d+)?)/i.exec(normalized);
-  const axisMatch = /(?:\bAX(?:IS)?\b|\baxe\b)\s*[:=]?\s*(\d{1,3})/i.exec(normalized);
+  const labels = findEyeLabels(normalized);
+  const perEye: Prescription = {};
 
-  const sph = sphMatch ? Number(sphMatch[1]) : undefined;
-  const cyl = cylMatch ? Number(cylMatch[1]) : undefined;
-  const axis = axisMatch ? Number(axisMatch[1]) : undefined;
+  labels.forEach((label, i) => {
+    if (perEye[label.eye]) return;
+    const next = labels[i + 1];
+    const segment = normalized.slice(label.end, next ? next.start : undefined);
+    const eye = parseLabeledEye(segment) ?? parsePositionalEye(segment);
+    const add = parseAdd(segment);
+    if (eye || add !== undefined) perEye[label.eye] = { ...eye, ...(add !== undefined ? { add } : {}) };
+  });
 
-  if (sph === undefined && cyl === undefined && axis === undefined) return undefined;
+  // A single ADD written once (often after the last eye) applies to both eyes.
+  const add = parseAdd(normalized);
 
-  return {
-    sph: Number.isFinite(sph as number) ? sph : undefined,
-    cyl: Number.isFinite(cyl as number) ? cyl : undefined,
-    axis: Number.isFinite(axis as number) ? axis : undefined,
-  };
+  if (perEye.od || perEye.os) {
+    if (add !== undefined) {
+      for (const eye of ["od", "os"] as const) {
+        const rx = perEye[eye];
+        if (rx && rx.add === undefined) rx.add = add;
+      }
+    }
+    return perEye;
+  }
+
+  const both = parseLabeledEye(normalized);
+  if (!both && add === undefined) return undefined;
+  const eye: EyePrescription = { ...both, ...(add !== undefined ? { add } : {}) };
+  return { od: eye, os: { ...eye } };
+}
+
+// Parses then normalizes (minus-cyl, 0.25 D steps, axis 1–180). Invalid values are dropped
+// and reported in `warnings`.
+export function parsePrescriptionDetailed(text: string): NormalizedPrescription | undefined {
+  const raw = parseRawPrescription(text);
+  return raw ? normalizePrescription(raw) : undefined;
+}
+
+export function parsePrescription(text: string): Prescription | undefined {
+  return parsePrescriptionDetailed(text)?.prescription;
+}
+
+export function getPrescriptionAdd(p: Prescription | undefined): number | undefined {
+  const adds = [p?.od?.add, p?.os?.add].filter((a): a is number => a !== undefined);
+  return adds.length ? Math.max(...adds) : undefined;
+}
+
+export function parseLensDesign(text: string): LensDesign | undefined {
+  // Explicit design requests in FR/EN/AR/Darija.
+  if (/(d[ée]gressif|verres?\s+(?:de\s+)?bureau|office\s+lens|mi-distance|occupational)/i.test(text)) return "office";
+  if (/(bifocal|double\s+foyer|ثنائي\s*البؤرة|بيفوكال)/i.test(text)) return "bifocal";
+  if (/(progressi(?:f|fs|ve|ves)|varifocal|multifocal|varilux|تدريجي|متعدد\s*البؤر|بروغريسيف)/i.test(text)) return "progressive";
+  if (/(unifocal|monofocal|single\s*vision|أحادي\s*البؤرة)/i.test(text)) return "single-vision";
+  return undefined;
+}
+
+export function formatPrescription(p: Prescription): string {
+  const fmt = (n: number) => `${n > 0 ? "+" : ""}${n.toFixed(2)}`;
+  const eye = (e: EyePrescription) =>
+    [
+      e.sph !== undefined ? `SPH ${fmt(e.sph)}` : "",
+      e.cyl !== undefined ? `CYL ${fmt(e.cyl)}` : "",
+      e.axis !== undefined ? `AX ${e.axis}°` : "",
+      e.add !== undefined ? `ADD ${fmt(e.add)}` : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+  return [p.od ? `OD ${eye(p.od)}` : "", p.os ? `OG ${eye(p.os)}` : ""].filter(Boolean).join(" / ");
+}
+
+function maxMeridianPower(eye: EyePrescription): number {
+  // Two principal meridians: sph and sph+cyl
+  const sph = eye.sph ?? 0;
+  const cyl = eye.cyl ?? 0;
+  return Math.max(Math.abs(sph), Math.abs(sph + cyl));
+}
+
+function hasPower(eye: EyePrescription | undefined): eye is EyePrescription {
+  return eye?.sph !== undefined || eye?.cyl !== undefined;
 }
 
+// Above this difference between eyes, image size differences may be hard to tolerate.
+const LARGE_ANISOMETROPIA_D = 2;
+
+const DESIGN_LABEL_FR: Record<LensDesign, string> = {
+  "single-vision": "unifocal",
+  progressive: "progressif",
+  office: "dégressif (bureau)",
+  bifocal: "bifocal",
+};
+
 export function recommendFromInputs(params: {
   prescription?: Prescription;
   needs?: VisualNeed[];
   budget?: Budget;
+  // Explicit design asked by the customer (e.g. "verres progressifs").
+  design?: LensDesign;
 }): Recommendation {
   const coatings: Recommendation["coatings"] = ["AR", "HARD", "HYDRO"];
   const rationale: string[] = [
@@ -91,26 +304,45 @@ export function recommendFromInputs(params: {
   }
 
   // Index recommendation based on power magnitude.
+  // Both lenses share the same index, chosen from the stronger eye.
   let recommendedIndex: Recommendation["recommendedIndex"] | undefined;
-  const { prescription } = params;
-  if (prescription?.sph !== undefined || prescription?.cyl !== undefined) {
-    const sph = prescription.sph ?? 0;
-    const cyl = prescription.cyl ?? 0;
-    // Two principal meridians: sph and sph+cyl
-    const p1 = Math.abs(sph);
-    const p2 = Math.abs(sph + cyl);
-    const maxPower = Math.max(p1, p2);
-
-    if (maxPower <= 2) recommendedIndex = 1.5;
-    else if (maxPower <= 3.5) recommendedIndex = 1.56;
-    else if (maxPower <= 6) recommendedIndex = 1.6;
-    else if (maxPower <= 8) recommendedIndex = 1.67;
+  let anisometropia: number | undefined;
+  let largeAnisometropia: boolean | undefined;
+  const eyes = (["od", "os"] as const)
+    .map((eye) => ({ eye, rx: params.prescription?.[eye] }))
+    .filter((e): e is { eye: Eye; rx: EyePrescription } => hasPower(e.rx));
+
+  if (eyes.length > 0) {
+    const stronger = eyes.reduce((a, b) => (maxMeridianPower(b.rx) > maxMeridianPower(a.rx) ? b : a));
+    const maxPowerValue = maxMeridianPower(stronger.rx);
+    const cyl = Math.max(...eyes.map((e) => Math.abs(e.rx.cyl ?? 0)));
+
+    if (maxPowerValue <= 2) recommendedIndex = 1.5;
+    else if (maxPowerValue <= 3.5) recommendedIndex = 1.56;
+    else if (maxPowerValue <= 6) recommendedIndex = 1.6;
+    else if (maxPowerValue <= 8) recommendedIndex = 1.67;
     else recommendedIndex = 1.74;
 
-    rationale.push(`Indice recommandé basé sur la puissance max (~${maxPower.toFixed(2)}D).`);
+    const differentEyes =
+      eyes.length === 2 && maxMeridianPower(eyes[0].rx) !== maxMeridianPower(eyes[1].rx);
+    rationale.push(
+      differentEyes
+        ? `Indice recommandé basé sur l’œil le plus fort (${stronger.eye === "od" ? "OD" : "OG"}, puissance max ~${maxPowerValue.toFixed(2)}D).`
+        : `Indice recommandé basé sur la puissance max (~${maxPowerValue.toFixed(2)}D).`,
+    );
+
+    if (eyes.length === 2) {
+      anisometropia = Math.abs(sphericalEquivalent(eyes[0].rx) - sphericalEquivalent(eyes[1].rx));
+      largeAnisometropia = anisometropia >= LARGE_ANISOMETROPIA_D;
+      if (largeAnisometropia) {
+        rationale.push(
+          `Anisométropie importante (~${anisometropia.toFixed(2)}D entre OD et OG): même indice (fin) pour les deux yeux, et faire valider la tolérance par l’opticien.`,
+        );
+      }
+    }
 
     // If cylinder high, bias to higher index / aspheric.
-    if (Math.abs(cyl) >= 2) {
+    if (cyl >= 2) {
       const bumped = clampIndex((recommendedIndex ?? 1.6) + 0.07);
       if (bumped !== recommendedIndex) {
         recommendedIndex = bumped;
@@ -119,6 +351,35 @@ export function recommendFromInputs(params: {
     }
   }
 
+  // Lens design: an explicit request wins, otherwise it follows the ADD and near-vision needs.
+  const add = getPrescriptionAdd(params.prescription);
+  const nearNeed = needs.includes("reading") || needs.includes("office");
+  let design: LensDesign | undefined = params.design;
+  if (!design) {
+    if (add !== undefined) design = needs.includes("office") ? "office" : "progressive";
+    else if (eyes.length > 0 || nearNeed) design = "single-vision";
+  }
+
+  if (design === "progressive") {
+    rationale.push("Progressif: vision de loin, intermédiaire et de près dans un seul verre (adaptation de quelques jours).");
+  } else if (design === "office") {
+    rationale.push("Dégressif (bureau): vision de près et intermédiaire (écran) élargie; pas adapté à la conduite.");
+  } else if (design === "bifocal") {
+    rationale.push("Bifocal: zone de loin + segment de près visible; alternative économique au progressif.");
+  } else if (design === "single-vision" && add !== undefined && needs.includes("reading")) {
+    rationale.push("Unifocal de près (lunettes de lecture) possible si le besoin est uniquement la lecture.");
+  }
+
+  if (design && design !== "single-vision") {
+    rationale.push(
+      add !== undefined
+        ? `Addition (ADD) +${add.toFixed(2)}D prise en compte pour le verre ${DESIGN_LABEL_FR[design]}.`
+        : `Verre ${DESIGN_LABEL_FR[design]} demandé sans addition (ADD): demander la valeur ADD de l’ordonnance.`,
+    );
+  } else if (add === undefined && nearNeed && eyes.length === 0) {
+    rationale.push("Besoin de près: demander l’ordonnance (SPH et addition ADD) pour choisir entre unifocal de près et progressif.");
+  }
+
   // Budget constraints (light bias)
   if (params.budget === "basic") {
     rationale.push("Budget basique: on privilégie l’essentiel (AR + durci), et on propose des options si besoin.");
@@ -128,9 +389,13 @@ export function recommendFromInputs(params: {
 
   return {
     recommendedIndex,
+    design,
+    add,
     wantBlueCut,
     wantPhotochromic,
     coatings,
     rationale,
+    anisometropia,
+    largeAnisometropia,
   };
 }
@@ -0,0 +1,108 @@
+import type { SupportedLanguage } from "@/lib/language";
+
+// Chat side of stock reservations: spotting "reserve it for me" and wording the deterministic
+// answers (FR/EN/AR/Darija). The hold itself is made by src/lib/reservations.ts.
+
+export type ReservationRequest = { quantity: number };
+
+// Requests only (imperative or first person): "réservez-le", "je veux réserver", "reserve it",
+// "can you reserve", "احجزلي". Questions ("vous réservez les verres ?", "c'est réservé ?") and the
+// noun ("en réserve", "in reserve") do not put anything on hold.
+const RESERVE_PATTERNS: RegExp[] = [
+  /\br[ée]serve[- ](?:moi|le|la|les)\b/i,
+  /(?<!\bvous\s)\br[ée]servez\b/i,
+  /\bje\s+(?:vous\s+)?r[ée]serve\b/i,
+  /\b(?:je\s+(?:veux|voudrais|souhaite|souhaiterais|vais|peux)|j['’]aimerais|j['’]aimerai|(?:pouvez|pourriez)[- ]vous|vous\s+(?:pouvez|pourriez)|peux[- ]tu|tu\s+peux)\s+(?:me\s+|le\s+|la\s+|les\s+|en\s+|me\s+les\s+|me\s+le\s+|me\s+la\s+)?r[ée]server\b/i,
+  /\bmet(?:s|tez)?[- ](?:le|la|les)[- ]moi\s+de\s+c[oô]t[ée]\b|\bmettre\s+de\s+c[oô]t[ée]\b|\bgarde[zr]?[- ](?:le|la|les)[- ]moi\b/i,
+  /\breserve\s+(?:it|them|one|two|three|\d|an?\b|the\b|me\b|this|that|those|these)/i,
+  /\b(?:like|want|need|wanna)\s+to\s+reserve\b|\b(?:can|could|would)\s+you\s+(?:please\s+)?reserve\b/i,
+  /\bput\s+(?:it|them|one|two)\s+aside\b|\bhold\s+(?:it|them|one|two)\b/i,
+  /احجز|نحجز|تحجزلي|تحجزهولي|\b7jez|\bhjez|\bn7jez|خبيلي|خبيهولي|حبسهولي/i,
+];
+
+// A count followed by a unit ("2 paires", "x 2"), never digits of a lens index ("1.67 x 2").
+const QUANTITY_PATTERN =
+  /(?<![\d.,])\b(\d{1,2})(?![.,]\d)\s*(?:paires?|pairs?|unit[ée]s?|pi[eè]ces?|pcs|verres?|lenses?|x)\b|\bx\s*(\d{1,2})\b(?![.,]\d)|(?<![\d.,])(\d{1,2})\s*(?:حبات|حبة|أزواج|زوج)/i;
+
+const WORD_QUANTITIES: Array<[RegExp, number]> = [
+  [/\b(deux|two|zouj|zoudj)\b|زوج/i, 2],
+  [/\b(trois|three)\b/i, 3],
+];
+
+export function getReservationRequest(text: string): ReservationRequest | null {
+  if (!RESERVE_PATTERNS.some((re) => re.test(text))) return null;
+
+  // Not capped here: the per-chat limit (chatHoldLimit) is checked against what the chat holds.
+  const m = QUANTITY_PATTERN.exec(text);
+  const n = Number(m?.[1] ?? m?.[2] ?? m?.[3]);
+  if (Number.isInteger(n) && n > 0) return { quantity: n };
+  for (const [re, q] of WORD_QUANTITIES) if (re.test(text)) return { quantity: q };
+  return { quantity: 1 };
+}
+
+const LOCALES: Record<SupportedLanguage, string> = { fr: "fr-FR", en: "en-GB", ar: "ar-DZ", dz: "ar-DZ" };
+
+export function formatHoldExpiry(date: Date, lang: SupportedLanguage): string {
+  return new Intl.DateTimeFormat(LOCALES[lang], {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: process.env.STORE_TIMEZONE || "Africa/Algiers",
+  }).format(date);
+}
+
+export type ReservationOutcome =
+  | { kind: "reserved"; label: string; sku: string; quantity: number; expiresAt: Date }
+  | { kind: "insufficient"; label: string; sku: string; quantity: number; available: number }
+  | { kind: "limit"; quantity: number; held: number; max: number }
+  | { kind: "unknown-product" };
+
+export function buildReservationAnswer(lang: SupportedLanguage, outcome: ReservationOutcome): string {
+  if (outcome.kind === "unknown-product") {
+    if (lang === "ar") return "أي منتج تريد أن أحجزه لك؟ أعطني المرجع/SKU أو اسم العائلة بالضبط.";
+    if (lang === "dz") return "واش من منتوج تحب نحجزلك؟ عطيني المرجع/SKU ولا الاسم بالضبط.";
+    if (lang === "en") return "Which product should I reserve for you? Please share the SKU/reference or the exact product name.";
+    return "Quel produit voulez-vous que je réserve ? Donnez-moi la référence/SKU ou le nom exact du verre.";
+  }
+
+  if (outcome.kind === "limit") {
+    const { held, max } = outcome;
+    if (lang === "ar") {
+      return `يمكنني حجز ${max} عدسات كحد أقصى في كل محادثة (${held} محجوزة حالياً). لكمية أكبر، يرجى التواصل مع المتجر مباشرة.`;
+    }
+    if (lang === "dz") {
+      return `نقدر نحجز ${max} على الأكثر في كل محادثة (${held} محجوزين ديجا). إذا تحب أكثر، اتصل بالمحل.`;
+    }
+    if (lang === "en") {
+      return `I can hold at most ${max} lens(es) per conversation (${held} already reserved). For more, please contact the store directly.`;
+    }
+    return `Je peux mettre de côté au plus ${max} verre(s) par conversation (${held} déjà réservé(s)). Pour davantage, contactez directement le magasin.`;
+  }
+
+  const { label, sku, quantity } = outcome;
+  if (outcome.kind === "insufficient") {
+    const { available } = outcome;
+    if (lang === "ar") {
+      return `لا يمكنني حجز ${quantity} من ${label} (SKU: ${sku}): المتاح حالياً ${available} فقط.`;
+    }
+    if (lang === "dz") return `ما نقدرش نحجز ${quantity} من ${label} (SKU: ${sku}): كاين غير ${available} متاحين دروك.`;
+    if (lang === "en") {
+      return `I can't reserve ${quantity} × ${label} (SKU: ${sku}): only ${available} available right now.`;
+    }
+    return `Je ne peux pas réserver ${quantity} × ${label} (SKU : ${sku}) : seulement ${available} disponible(s) actuellement.`;
+  }
+
+  const until = formatHoldExpiry(outcome.expiresAt, lang);
+  if (lang === "ar") {
+    return `تم الحجز: ${quantity} × ${label} (SKU: ${sku}) محجوزة لك حتى ${until}. بعد هذا الموعد يُلغى الحجز تلقائياً.`;
+  }
+  if (lang === "dz") {
+    return `تم الحجز: ${quantity} × ${label} (SKU: ${sku}) محجوزين ليك حتى ${until}. من بعد يتنحاو وحدهم.`;
+  }
+  if (lang === "en") {
+    return `Done: ${quantity} × ${label} (SKU: ${sku}) reserved for you until ${until}. After that the hold is released automatically.`;
+  }
+  return `C’est réservé : ${quantity} × ${label} (SKU : ${sku}) mis de côté pour vous jusqu’au ${until}. Passé ce délai, la réservation est libérée automatiquement.`;
+}
@@ -0,0 +1,228 @@
+import { prisma } from "@/lib/db";
+import { invalidateCatalogIndex } from "@/lib/catalogIndex";
+import { InsufficientStockError, recordMovement } from "@/lib/inventoryLedger";
+
+// Stock holds for a chat or a walk-in customer. Reserving writes a "reservation" movement, so
+// InventoryItem.quantity (what the chat and other conversations see) drops immediately; an
+// expired or cancelled hold writes a "release" movement that puts the units back.
+
+export const RESERVATION_STATUSES = ["active", "released", "expired", "fulfilled"] as const;
+
+export type ReservationStatus = (typeof RESERVATION_STATUSES)[number];
+
+const DEFAULT_HOLD_HOURS = 48;
+const DEFAULT_CHAT_MAX_UNITS = 4;
+
+export class ProductNotFoundError extends Error {
+  constructor(readonly sku: string) {
+    super("Produit introuvable");
+    this.name = "ProductNotFoundError";
+  }
+}
+
+export class ReservationNotFoundError extends Error {
+  constructor() {
+    super("Réservation introuvable");
+    this.name = "ReservationNotFoundError";
+  }
+}
+
+export class ReservationClosedError extends Error {
+  constructor(readonly status: string) {
+    super(`Réservation déjà clôturée (${status})`);
+    this.name = "ReservationClosedError";
+  }
+}
+
+export function reservationHoldHours(): number {
+  const n = Number(process.env.RESERVATION_HOLD_HOURS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_HOLD_HOURS;
+}
+
+// Units one chat may hold at once (all products): a conversation must not empty the shelf.
+export function chatHoldLimit(): number {
+  const n = Number(process.env.RESERVATION_CHAT_MAX_UNITS);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_CHAT_MAX_UNITS;
+}
+
+export async function chatHeldQuantity(chatId: string): Promise<number> {
+  const held = await prisma.reservation.aggregate({
+    where: { chatId, status: "active" },
+    _sum: { quantity: true },
+  });
+  return held._sum.quantity ?? 0;
+}
+
+export const reservationInclude = {
+  inventory: {
+    select: {
+      id: true,
+      supplier: { select: { id: true, name: true } },
+      quantity: true,
+      lens: { select: { id: true, sku: true, family: true, index: true, brand: { select: { name: true } } } },
+    },
+  },
+};
+
+export async function reserveStock(params: {
+  sku: string;
+  quantity: number;
+  chatId?: string | null;
+  customerName?: string | null;
+  customerPhone?: string | null;
+  holdHours?: number;
+  user?: string | null;
+}) {
+  await releaseExpiredReservations();
+
+  const reservation = await prisma.$transaction(async (tx) => {
+    const lens = await tx.lensProduct.findUnique({
+      where: { sku: params.sku },
+      select: {
+        inventory: {
+          where: { isActive: true },
+          orderBy: [{ quantity: "desc" }, { updatedAt: "desc" }],
+          select: { id: true, quantity: true },
+        },
+      },
+    });
+    if (!lens) throw new ProductNotFoundError(params.sku);
+
+    // Same line as the one searchCatalog shows: the active line with the most stock.
+    const line = lens.inventory[0];
+    if (!line || line.quantity < params.quantity) {
+      throw new InsufficientStockError(line?.quantity ?? 0, params.quantity);
+    }
+
+    const hours = params.holdHours ?? reservationHoldHours();
+    const created = await tx.reservation.create({
+      data: {
+        inventoryId: line.id,
+        chatId: params.chatId ?? null,
+        customerName: params.customerName ?? null,
+        customerPhone: params.customerPhone ?? null,
+        quantity: params.quantity,
+        expiresAt: new Date(Date.now() + hours * 3600_000),
+        createdBy: params.user ?? null,
+      },
+    });
+    await recordMovement(
+      {
+        inventoryId: line.id,
+        type: "reservation",
+        quantity: params.quantity,
+        user: params.user ?? null,
+        reason: `Réservation ${created.id}${params.chatId ? ` (chat ${params.chatId})` : ""}`,
+      },
+      tx,
+    );
+    return tx.reservation.findUniqueOrThrow({ where: { id: created.id }, include: reservationInclude });
+  });
+
+  invalidateCatalogIndex();
+  return reservation;
+}
+
+const CLOSE_LABELS: Record<Exclude<ReservationStatus, "active">, string> = {
+  released: "annulée",
+  expired: "expirée",
+  fulfilled: "retirée en magasin",
+};
+
+// Ends an active hold. "fulfilled" means the customer picked the lenses up: the units are
+// released and sold in the same transaction so the ledger shows a regular sale.
+export async function closeReservation(
+  id: string,
+  status: Exclude<ReservationStatus, "active">,
+  meta: { user?: string | null } = {},
+) {
+  const closed = await prisma.$transaction(async (tx) => {
+    const existing = await tx.reservation.findUnique({ where: { id } });
+    if (!existing) throw new ReservationNotFoundError();
+
+    // Conditional update: two concurrent closes (e.g. expiry sweep + staff) release only once.
+    const { count } = await tx.reservation.updateMany({ where: { id, status: "active" }, data: { status } });
+    if (count === 0) throw new ReservationClosedError(existing.status);
+
+    const reason = `Réservation ${id} ${CLOSE_LABELS[status]}`;
+    await recordMovement(
+      { inventoryId: existing.inventoryId, type: "release", quantity: existing.quantity, user: meta.user, reason },
+      tx,
+    );
+    if (status === "fulfilled") {
+      await recordMovement(
+        { inventoryId: existing.inventoryId, type: "sale", quantity: existing.quantity, user: meta.user, reason },
+        tx,
+      );
+    }
+    return tx.reservation.findUniqueOrThrow({ where: { id }, include: reservationInclude });
+  });
+
+  invalidateCatalogIndex();
+  return closed;
+}
+
+export async function extendReservation(id: string, holdHours: number) {
+  const existing = await prisma.reservation.findUnique({ where: { id } });
+  if (!existing) throw new ReservationNotFoundError();
+  if (existing.status !== "active") throw new ReservationClosedError(existing.status);
+
+  return prisma.reservation.update({
+    where: { id },
+    data: { expiresAt: new Date(Date.now() + holdHours * 3600_000) },
+    include: reservationInclude,
+  });
+}
+
+// Releases every hold past its expiry. Called lazily before stock is read or reserved, and by
+// `npm run reservations:release` for a cron job.
+export async function releaseExpiredReservations(now = new Date()): Promise<number> {
+  const expired = await prisma.reservation.findMany({
+    where: { status: "active", expiresAt: { lte: now } },
+    select: { id: true },
+  });
+  let released = 0;
+  for (const r of expired) {
+    try {
+      await closeReservation(r.id, "expired", { user: "system" });
+      released++;
+    } catch {
+      // Closed concurrently by another request or by staff; nothing left to do.
+    }
+  }
+  return released;
+}
+
+const SWEEP_INTERVAL_MS = 30_000;
+let lastSweep = 0;
+
+// Throttled variant for hot paths (every chat turn).
+export async function sweepExpiredReservations(): Promise<void> {
+  if (Date.now() - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = Date.now();
+  await releaseExpiredReservations();
+}
+
+export type ReservedQuantity = {
+  // Units on hold for any customer, and the part held for the given chat.
+  reserved: number;
+  mine: number;
+};
+
+export async function getReservedQuantities(
+  inventoryIds: string[],
+  chatId?: string | null,
+): Promise<Map<string, ReservedQuantity>> {
+  const active = await prisma.reservation.findMany({
+    where: { inventoryId: { in: inventoryIds }, status: "active" },
+    select: { inventoryId: true, chatId: true, quantity: true },
+  });
+  const out = new Map<string, ReservedQuantity>();
+  for (const r of active) {
+    const entry = out.get(r.inventoryId) ?? { reserved: 0, mine: 0 };
+    entry.reserved += r.quantity;
+    if (chatId && r.chatId === chatId) entry.mine += r.quantity;
+    out.set(r.inventoryId, entry);
+  }
+  return out;
+}
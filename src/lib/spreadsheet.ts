@@ -0,0 +1,205 @@
+import zlib from "node:zlib";
+
+// Minimal spreadsheet readers for supplier price lists: CSV (comma or semicolon, quoted fields)
+// and XLSX (first worksheet, values only). Every cell comes back as a trimmed string, with the
+// spreadsheet line number so validation errors can point at the right row.
+
+export type SheetRow = { line: number; cells: string[] };
+
+export type SheetRows = SheetRow[];
+
+function nonEmpty(rows: SheetRows): SheetRows {
+  return rows.filter((r) => r.cells.some((c) => c !== ""));
+}
+
+export function parseCsv(text: string): SheetRows {
+  const input = text.replace(/^\uFEFF/, "");
+  // Excel in French locales exports ";"-separated files.
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field.trim());
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  return nonEmpty(rows);
+}
+
+// --- XLSX: a zip archive of XML parts ---
+
+// Total decompressed size of the archive's entries. The upload cap applies to the compressed file,
+// and a few kB of crafted deflate data can expand to gigabytes.
+export const MAX_XLSX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+function tooLarge(maxBytes: number): Error {
+  return new Error(`Fichier XLSX trop volumineux une fois décompressé (${Math.round(maxBytes / 1024 / 1024)} Mo max)`);
+}
+
+function readZipEntries(buf: Buffer, maxBytes: number): Map<string, Buffer> {
+  // End of central directory record (last 22 bytes + optional comment).
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Fichier XLSX invalide (archive zip illisible)");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+  let total = 0;
+
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(offset) !== 0x02014b50) throw new Error("Fichier XLSX invalide (répertoire zip)");
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const localNameLength = buf.readUInt16LE(localOffset + 26);
+    const localExtraLength = buf.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const data = buf.subarray(start, start + compressedSize);
+    let content: Buffer;
+    try {
+      // Never inflate more than what is left of the budget (+1 byte to detect the overflow).
+      content = method === 8 ? zlib.inflateRawSync(data, { maxOutputLength: maxBytes - total + 1 }) : Buffer.from(data);
+    } catch (e) {
+      if ((e as { code?: string }).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge(maxBytes);
+      throw new Error("Fichier XLSX invalide (données compressées illisibles)");
+    }
+    total += content.length;
+    if (total > maxBytes) throw tooLarge(maxBytes);
+    entries.set(name, content);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, d: string) => String.fromCodePoint(Number(d)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, h: string) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Concatenated <t> runs of a shared string / inline string.
+function textRuns(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join("");
+}
+
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] ?? "A";
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function firstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get("xl/workbook.xml")?.toString("utf8") ?? "";
+  const rels = entries.get("xl/_rels/workbook.xml.rels")?.toString("utf8") ?? "";
+  const relId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const target = relId
+    ? new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*\\bTarget="([^"]+)"`).exec(rels)?.[1] ??
+      new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${relId}"`).exec(rels)?.[1]
+    : undefined;
+  if (!target) return "xl/worksheets/sheet1.xml";
+  return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+}
+
+export function parseXlsx(buf: Buffer, maxUncompressedBytes = MAX_XLSX_UNCOMPRESSED_BYTES): SheetRows {
+  const entries = readZipEntries(buf, maxUncompressedBytes);
+  const sharedXml = entries.get("xl/sharedStrings.xml")?.toString("utf8") ?? "";
+  const shared = [...sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => textRuns(m[1]));
+
+  const sheet = entries.get(firstSheetPath(entries))?.toString("utf8");
+  if (!sheet) throw new Error("Fichier XLSX invalide (aucune feuille)");
+
+  const rows: SheetRows = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    const line = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1] ?? rows.length + 1);
+    for (const cell of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const body = cell[2] ?? "";
+      const ref = /\br="([A-Z]+\d+)"/.exec(attrs)?.[1];
+      const type = /\bt="([^"]+)"/.exec(attrs)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = "";
+      if (type === "s" && raw !== undefined) value = shared[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (type === "b") value = raw === "1" ? "true" : "false";
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      const col = ref ? columnIndex(ref) : row.length;
+      while (row.length < col) row.push("");
+      row[col] = value.trim();
+    }
+    rows.push({ line, cells: row });
+  }
+
+  return nonEmpty(rows);
+}
+
+export function readSpreadsheet(buf: Buffer, filename: string): SheetRows {
+  if (/\.xlsx$/i.test(filename)) return parseXlsx(buf);
+  if (/\.(csv|txt)$/i.test(filename)) return parseCsv(buf.toString("utf8"));
+  throw new Error(`Format non supporté: ${filename} (attendu .csv ou .xlsx)`);
+}
+
+// Quotes fields containing the delimiter, quotes or line breaks; BOM so Excel reads UTF-8.
+export function formatCsv(rows: string[][], delimiter: "," | ";" = ";"): string {
+  const escape = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return "\uFEFF" + rows.map((row) => row.map(escape).join(delimiter)).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,215 @@
+import { prisma } from "@/lib/db";
+import { getAlertNotifiers, type StockAlertNotice } from "@/lib/alertNotifiers";
+
+// Low-stock alerts for products customers actually ask about. Demand comes from the chat
+// (DemandSignal: products shown in catalogHits and stock questions, with the quantity given);
+// stock is the sum of active inventory lines (holds already deducted). A product is watched once
+// its demand over ALERT_WINDOW_DAYS reaches ALERT_MIN_DEMAND, or as soon as a customer was told
+// "stock 0". Alerts are created, escalated (low → out) and resolved by evaluateStockAlerts().
+
+export const ALERT_STATUSES = ["open", "acknowledged", "resolved"] as const;
+
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+function envNumber(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export function alertSettings() {
+  return {
+    defaultThreshold: envNumber("LOW_STOCK_THRESHOLD", 2),
+    windowDays: envNumber("ALERT_WINDOW_DAYS", 7),
+    minDemand: envNumber("ALERT_MIN_DEMAND", 3),
+  };
+}
+
+// Records what the chat showed/answered; returns the products a customer was just told are at 0.
+export async function recordDemandSignals(params: {
+  chatId?: string | null;
+  surfaced?: string[];
+  availability?: Array<{ sku: string; quantity: number | null }>;
+}): Promise<string[]> {
+  const skus = [...new Set([...(params.surfaced ?? []), ...(params.availability ?? []).map((a) => a.sku)])];
+  if (skus.length === 0) return [];
+  const lenses = await prisma.lensProduct.findMany({ where: { sku: { in: skus } }, select: { id: true, sku: true } });
+  const idBySku = new Map(lenses.map((l) => [l.sku, l.id]));
+
+  const surfaced = [...new Set(params.surfaced ?? [])].flatMap((sku) => {
+    const lensId = idBySku.get(sku);
+    return lensId ? [{ lensId, kind: "surfaced", chatId: params.chatId }] : [];
+  });
+  const availability = (params.availability ?? []).flatMap((a) => {
+    const lensId = idBySku.get(a.sku);
+    return lensId ? [{ lensId, kind: "availability", quantity: a.quantity, chatId: params.chatId }] : [];
+  });
+  if (surfaced.length + availability.length > 0) {
+    await prisma.demandSignal.createMany({ data: [...surfaced, ...availability] });
+  }
+  return availability.filter((a) => a.quantity === 0).map((a) => a.lensId);
+}
+
+type Demand = { surfaced: number; availability: number; missed: number };
+
+async function demandByLens(since: Date, lensIds?: string[]): Promise<Map<string, Demand>> {
+  const rows = await prisma.demandSignal.groupBy({
+    by: ["lensId", "kind"],
+    where: { createdAt: { gte: since }, ...(lensIds ? { lensId: { in: lensIds } } : {}) },
+    _count: { _all: true },
+  });
+  const missed = await prisma.demandSignal.groupBy({
+    by: ["lensId"],
+    where: {
+      createdAt: { gte: since },
+      kind: "availability",
+      quantity: 0,
+      ...(lensIds ? { lensId: { in: lensIds } } : {}),
+    },
+    _count: { _all: true },
+  });
+
+  const out = new Map<string, Demand>();
+  const entry = (id: string) => {
+    if (!out.has(id)) out.set(id, { surfaced: 0, availability: 0, missed: 0 });
+    return out.get(id)!;
+  };
+  for (const r of rows) {
+    if (r.kind === "surfaced") entry(r.lensId).surfaced = r._count._all;
+    if (r.kind === "availability") entry(r.lensId).availability = r._count._all;
+  }
+  for (const r of missed) entry(r.lensId).missed = r._count._all;
+  return out;
+}
+
+export type AlertEvaluation = {
+  created: number;
+  escalated: number;
+  resolved: number;
+  notified: number;
+  notifyErrors: string[];
+};
+
+// Re-evaluates watched products (or only `lensIds`) and notifies new/escalated alerts.
+export async function evaluateStockAlerts(params: { lensIds?: string[] } = {}): Promise<AlertEvaluation> {
+  const settings = alertSettings();
+  const since = new Date(Date.now() - settings.windowDays * 86400_000);
+  const demand = await demandByLens(since, params.lensIds);
+
+  const unresolved = await prisma.stockAlert.findMany({
+    where: { status: { not: "resolved" }, ...(params.lensIds ? { lensId: { in: params.lensIds } } : {}) },
+    select: { lensId: true },
+  });
+  const watched = new Set([
+    ...[...demand]
+      .filter(([, d]) => d.surfaced + d.availability >= settings.minDemand || d.missed > 0)
+      .map(([id]) => id),
+    ...unresolved.map((a) => a.lensId),
+  ]);
+  if (watched.size === 0) return { created: 0, escalated: 0, resolved: 0, notified: 0, notifyErrors: [] };
+
+  const lenses = await prisma.lensProduct.findMany({
+    where: { id: { in: [...watched] } },
+    select: {
+      id: true,
+      sku: true,
+      family: true,
+      index: true,
+      lowStockThreshold: true,
+      brand: { select: { name: true } },
+      inventory: { where: { isActive: true }, select: { quantity: true } },
+    },
+  });
+
+  const result: AlertEvaluation = { created: 0, escalated: 0, resolved: 0, notified: 0, notifyErrors: [] };
+  const notices: StockAlertNotice[] = [];
+
+  for (const lens of lenses) {
+    const d = demand.get(lens.id) ?? { surfaced: 0, availability: 0, missed: 0 };
+    const quantity = lens.inventory.reduce((n, i) => n + i.quantity, 0);
+    const threshold = lens.lowStockThreshold ?? settings.defaultThreshold;
+    const level = quantity <= 0 ? "out" : quantity <= threshold ? "low" : null;
+    const counts = { surfacedCount: d.surfaced, availabilityCount: d.availability, missedCount: d.missed };
+
+    if (!level) {
+      const { count } = await prisma.stockAlert.updateMany({
+        where: { lensId: lens.id, status: { not: "resolved" } },
+        data: { status: "resolved", resolvedAt: new Date(), quantity, ...counts },
+      });
+      result.resolved += count;
+      continue;
+    }
+
+    // Read and create in one transaction: a chat turn and the periodic pass evaluating the same
+    // product at once must not both open an alert for it.
+    const alert = await prisma.$transaction(async (tx) => {
+      const existing = await tx.stockAlert.findFirst({ where: { lensId: lens.id, status: { not: "resolved" } } });
+      if (!existing) {
+        const created = await tx.stockAlert.create({
+          data: { lensId: lens.id, level, quantity, threshold, ...counts },
+        });
+        return { id: created.id, created: true, escalated: false };
+      }
+      const escalated = existing.level === "low" && level === "out";
+      await tx.stockAlert.update({
+        where: { id: existing.id },
+        // An escalation re-opens an acknowledged alert.
+        data: { level, quantity, threshold, ...counts, ...(escalated ? { status: "open" } : {}) },
+      });
+      return { id: existing.id, created: false, escalated };
+    });
+    // Already notified; only an escalation is worth a new notification.
+    if (!alert.created && !alert.escalated) continue;
+    if (alert.created) result.created++;
+    else result.escalated++;
+
+    notices.push({
+      alertId: alert.id,
+      sku: lens.sku,
+      label: `${lens.brand.name}${lens.family ? " " + lens.family : ""} ${lens.index.toFixed(2)}`,
+      level,
+      escalated: alert.escalated,
+      quantity,
+      threshold,
+      surfacedCount: d.surfaced,
+      availabilityCount: d.availability,
+      missedCount: d.missed,
+      windowDays: settings.windowDays,
+    });
+  }
+
+  if (notices.length > 0) {
+    for (const notifier of getAlertNotifiers()) {
+      try {
+        await notifier.send(notices);
+        result.notified++;
+      } catch (e) {
+        result.notifyErrors.push(`${notifier.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    await prisma.stockAlert.updateMany({
+      where: { id: { in: notices.map((n) => n.alertId) } },
+      data: { notifiedAt: new Date(), notifyError: result.notifyErrors.join("\n") || null },
+    });
+  }
+
+  return result;
+}
+
+const CHECK_INTERVAL_MS = 5 * 60_000;
+let lastCheck = 0;
+
+// Called after chat turns: immediate for products just reported at stock 0, otherwise a full
+// pass at most every 5 minutes. Never throws (alerting must not break the chat).
+export async function checkStockAlertsAfterChat(params: { outOfStockLensIds: string[] }): Promise<void> {
+  try {
+    if (params.outOfStockLensIds.length > 0) {
+      await evaluateStockAlerts({ lensIds: params.outOfStockLensIds });
+    }
+    if (Date.now() - lastCheck >= CHECK_INTERVAL_MS) {
+      lastCheck = Date.now();
+      await evaluateStockAlerts();
+    }
+  } catch (e) {
+    console.error("[stock-alerts] évaluation impossible", e);
+  }
+}
@@ -0,0 +1,197 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { alertSettings } from "@/lib/stockAlerts";
+import { getReservedQuantities } from "@/lib/reservations";
+
+// Suppliers, what they deliver (SupplierProduct: reference, lead time, minimum order) and the
+// reorder report. A product's order lead time is the shortest of its suppliers'; it is what the
+// chat quotes when a lens is out of stock ("disponible sur commande sous environ N jours").
+
+type Db = Prisma.TransactionClient;
+
+// Supplier by name, created on first use (catalog import, seed).
+export async function findOrCreateSupplier(name: string, tx?: Db) {
+  const db = tx ?? prisma;
+  return db.supplier.upsert({ where: { name }, update: {}, create: { name } });
+}
+
+type SupplierLeadTime = { defaultLeadTimeDays: number | null };
+
+export type LeadTimeSource = {
+  supplierOffers: Array<{ leadTimeDays: number | null; supplier: SupplierLeadTime }>;
+  inventory: Array<{ supplier: SupplierLeadTime | null }>;
+};
+
+function shortest(days: Array<number | null>): number | null {
+  const known = days.filter((d): d is number => d !== null);
+  return known.length > 0 ? Math.min(...known) : null;
+}
+
+// Days to get the product on order: the supplier offers first, else the default lead time of the
+// suppliers of its stock lines; null when nobody knows.
+export function orderLeadTimeDays(product: LeadTimeSource): number | null {
+  const offered = shortest(product.supplierOffers.map((o) => o.leadTimeDays ?? o.supplier.defaultLeadTimeDays));
+  if (offered !== null) return offered;
+  return shortest(product.inventory.map((i) => i.supplier?.defaultLeadTimeDays ?? null));
+}
+
+export type ReorderLine = {
+  lensId: string;
+  sku: string;
+  label: string;
+  supplierSku: string | null;
+  // Stock other customers can buy (holds deducted) and units on hold.
+  available: number;
+  reserved: number;
+  threshold: number;
+  // Net sales (sales − returns) per day over the window.
+  dailyDemand: number;
+  leadTimeDays: number | null;
+  reorderPoint: number;
+  minOrderQuantity: number;
+  suggestedQuantity: number;
+  alertLevel: string | null;
+};
+
+export type ReorderGroup = {
+  supplier: {
+    id: string;
+    name: string;
+    contactName: string | null;
+    email: string | null;
+    phone: string | null;
+  } | null;
+  lines: ReorderLine[];
+};
+
+export type ReorderReport = {
+  generatedAt: Date;
+  windowDays: number;
+  coverDays: number;
+  groups: ReorderGroup[];
+};
+
+// Products at or below their reorder point (or with an unresolved stock alert), grouped by the
+// supplier to order from. Reorder point = max(alert threshold, demand during the lead time);
+// the suggestion covers the lead time plus `coverDays` of demand, at least the supplier's minimum.
+export async function buildReorderReport(
+  params: { windowDays?: number; coverDays?: number; supplierId?: string } = {},
+): Promise<ReorderReport> {
+  const windowDays = params.windowDays ?? 30;
+  const coverDays = params.coverDays ?? 30;
+  const since = new Date(Date.now() - windowDays * 86400_000);
+  const { defaultThreshold } = alertSettings();
+
+  const supplierSelect = {
+    id: true,
+    name: true,
+    contactName: true,
+    email: true,
+    phone: true,
+    defaultLeadTimeDays: true,
+  } as const;
+  const products = await prisma.lensProduct.findMany({
+    where: params.supplierId
+      ? {
+          OR: [
+            { supplierOffers: { some: { supplierId: params.supplierId } } },
+            { inventory: { some: { supplierId: params.supplierId } } },
+          ],
+        }
+      : {},
+    orderBy: { sku: "asc" },
+    select: {
+      id: true,
+      sku: true,
+      family: true,
+      index: true,
+      lowStockThreshold: true,
+      brand: { select: { name: true } },
+      inventory: {
+        select: { id: true, quantity: true, isActive: true, supplier: { select: supplierSelect } },
+      },
+      supplierOffers: { include: { supplier: { select: supplierSelect } } },
+      stockAlerts: { where: { status: { not: "resolved" } }, select: { level: true } },
+    },
+  });
+
+  const inventoryIds = products.flatMap((p) => p.inventory.map((i) => i.id));
+  const [sales, reserved] = await Promise.all([
+    prisma.inventoryMovement.groupBy({
+      by: ["inventoryId", "type"],
+      where: { inventoryId: { in: inventoryIds }, type: { in: ["sale", "return"] }, createdAt: { gte: since } },
+      _sum: { delta: true },
+    }),
+    getReservedQuantities(inventoryIds),
+  ]);
+  // Sale deltas are negative and return deltas positive: net units sold = −sum.
+  const soldByItem = new Map<string, number>();
+  for (const s of sales) soldByItem.set(s.inventoryId, (soldByItem.get(s.inventoryId) ?? 0) - (s._sum.delta ?? 0));
+
+  const groups = new Map<string, ReorderGroup>();
+  for (const p of products) {
+    const active = p.inventory.filter((i) => i.isActive);
+    const available = active.reduce((n, i) => n + i.quantity, 0);
+    const onHold = active.reduce((n, i) => n + (reserved.get(i.id)?.reserved ?? 0), 0);
+    const sold = p.inventory.reduce((n, i) => n + (soldByItem.get(i.id) ?? 0), 0);
+    const dailyDemand = Math.max(0, sold) / Math.max(1, windowDays);
+    const threshold = p.lowStockThreshold ?? defaultThreshold;
+    const alertLevel = p.stockAlerts.find((a) => a.level === "out")?.level ?? p.stockAlerts[0]?.level ?? null;
+
+    // Order from the supplier with the shortest lead time (the filtered one when asked).
+    const offers = p.supplierOffers
+      .filter((o) => !params.supplierId || o.supplierId === params.supplierId)
+      .map((o) => ({ ...o, days: o.leadTimeDays ?? o.supplier.defaultLeadTimeDays }))
+      .sort((a, b) => (a.days ?? Infinity) - (b.days ?? Infinity));
+    const offer = offers[0];
+    const supplier =
+      offer?.supplier ??
+      p.inventory.find((i) => i.supplier && (!params.supplierId || i.supplier.id === params.supplierId))?.supplier ??
+      null;
+    const leadTimeDays = offer ? offer.days : (supplier?.defaultLeadTimeDays ?? null);
+
+    const reorderPoint = Math.max(threshold, Math.ceil(dailyDemand * (leadTimeDays ?? 0)));
+    if (available > reorderPoint && !alertLevel) continue;
+
+    const minOrderQuantity = offer?.minOrderQuantity ?? 1;
+    const target = Math.max(threshold + 1, Math.ceil(dailyDemand * ((leadTimeDays ?? 0) + coverDays)));
+    const line: ReorderLine = {
+      lensId: p.id,
+      sku: p.sku,
+      label: `${p.brand.name}${p.family ? " " + p.family : ""} ${p.index.toFixed(2)}`,
+      supplierSku: offer?.supplierSku ?? null,
+      available,
+      reserved: onHold,
+      threshold,
+      dailyDemand: Math.round(dailyDemand * 100) / 100,
+      leadTimeDays,
+      reorderPoint,
+      minOrderQuantity,
+      suggestedQuantity: Math.max(minOrderQuantity, target - available),
+      alertLevel,
+    };
+
+    const key = supplier?.id ?? "";
+    const group = groups.get(key) ?? {
+      supplier: supplier
+        ? {
+            id: supplier.id,
+            name: supplier.name,
+            contactName: supplier.contactName,
+            email: supplier.email,
+            phone: supplier.phone,
+          }
+        : null,
+      lines: [],
+    };
+    group.lines.push(line);
+    groups.set(key, group);
+  }
+
+  // Named suppliers alphabetically, lines without a supplier last.
+  const sorted = [...groups.values()].sort(
+    (a, b) =>
+      (a.supplier ? 0 : 1) - (b.supplier ? 0 : 1) || (a.supplier?.name ?? "").localeCompare(b.supplier?.name ?? ""),
+  );
+  return { generatedAt: new Date(), windowDays, coverDays, groups: sorted };
+}
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { postProcessAssistantChunk, postProcessAssistantText } from "@/lib/assistantText";
+
+describe("postProcessAssistantText", () => {
+  it("strips chat-template tokens and non-Latin scripts from French answers", () => {
+    assert.equal(
+      postProcessAssistantText("Bonjour <|im_end|>le verre привет 1.60 est 好的 conseillé. مرحبا", "fr"),
+      "Bonjour le verre 1.60 est conseillé.",
+    );
+  });
+
+  it("keeps Arabic and Latin (SKUs) in Arabic answers", () => {
+    assert.equal(postProcessAssistantText("مرحبا привет SKU ZEISS-AR-150 好", "ar"), "مرحبا SKU ZEISS-AR-150");
+  });
+
+  it("keeps both scripts in Darija answers", () => {
+    assert.equal(postProcessAssistantText("salam مرحبا Привет", "dz"), "salam مرحبا");
+  });
+});
+
+describe("postProcessAssistantChunk", () => {
+  it("keeps the surrounding whitespace of streamed chunks", () => {
+    assert.equal(postProcessAssistantChunk(" verre ", "en"), " verre ");
+    assert.equal(postProcessAssistantChunk("<|im_start|>", "en"), "");
+  });
+});
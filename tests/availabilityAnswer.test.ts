@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildAvailabilityAnswer, getAvailabilityQuestionType, type AvailabilityHit } from "@/lib/availabilityAnswer";
+
+describe("getAvailabilityQuestionType", () => {
+  const cases: Array<[string, ReturnType<typeof getAvailabilityQuestionType>]> = [
+    ["Vous avez le Zeiss 1.5 en stock ?", "availability"],
+    ["disponible", "availability"],
+    ["هل متوفر؟", "availability"],
+    ["Combien en stock ?", "quantity"],
+    ["how many do you have?", "quantity"],
+    ["ch7al kayen f stock?", "quantity"],
+    // Price questions and plain requests are not stock questions.
+    ["بكم هذا؟", null],
+    ["quel prix ?", null],
+    ["Je veux un antireflet", null],
+  ];
+
+  for (const [text, expected] of cases) {
+    it(`${JSON.stringify(text)} → ${expected}`, () => {
+      assert.equal(getAvailabilityQuestionType(text), expected);
+    });
+  }
+});
+
+function hit(overrides: Partial<AvailabilityHit> = {}): AvailabilityHit {
+  return {
+    brand: "Zeiss",
+    family: null,
+    index: 1.5,
+    sku: "ZEISS-AR-150",
+    inventory: { quantity: 10, reserved: 0, mine: 0 },
+    leadTimeDays: null,
+    ...overrides,
+  };
+}
+
+describe("buildAvailabilityAnswer", () => {
+  it("confirms stock for the best match", () => {
+    const answer = buildAvailabilityAnswer({
+      lang: "en",
+      userText: "is it available?",
+      hits: [hit()],
+      type: "availability",
+    });
+    assert.match(answer, /Zeiss 1\.50 \(SKU: ZEISS-AR-150\)/);
+    assert.match(answer, /\b10\b/);
+  });
+
+  it("lists quantities, Zeiss first when the customer names it", () => {
+    const hits = [hit({ brand: "Hoya", sku: "HOYA-AR-156", index: 1.56 }), hit()];
+    const answer = buildAvailabilityAnswer({
+      lang: "fr",
+      userText: "combien en stock du zeiss ?",
+      hits,
+      type: "quantity",
+    });
+    assert.match(answer, /ZEISS-AR-150/);
+    assert.doesNotMatch(answer, /HOYA-AR-156/);
+  });
+
+  it("details holds and quotes the supplier lead time when out of stock", () => {
+    const held = hit({ inventory: { quantity: 0, reserved: 2, mine: 0 }, leadTimeDays: 7 });
+    const answer = buildAvailabilityAnswer({ lang: "en", userText: "available?", hits: [held], type: "availability" });
+    assert.match(answer, /all 2 units in the shop are reserved/);
+    assert.match(answer, /Available on order in about 7 days/);
+  });
+
+  it("answers in the customer's language when nothing matches", () => {
+    const answer = buildAvailabilityAnswer({ lang: "ar", userText: "متوفر؟", hits: [], type: "availability" });
+    assert.match(answer, /SKU/);
+    assert.match(answer, /\p{Script=Arabic}/u);
+  });
+});
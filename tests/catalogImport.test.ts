@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { after, before, describe } from "node:test";
+import { parseCsv } from "@/lib/spreadsheet";
+import { createTestDatabase, dbIt } from "./testDb";
+
+const testDb = createTestDatabase();
+const catalogImport = import("@/lib/catalogImport");
+const db = import("@/lib/db");
+
+describe("planCatalogImport with deactivateMissing", () => {
+  before(async () => {
+    const { prisma } = await db;
+    await testDb.prepare(prisma);
+  });
+
+  after(async () => {
+    const { prisma } = await db;
+    await testDb.close(prisma);
+  });
+
+  // A partial price list from Zeiss, without a supplier column.
+  const rows = parseCsv("sku;marque;indice\nZEISS-AR-150;Zeiss;1.5\n");
+
+  dbIt(testDb, "refuses to deactivate without a supplier scope", async () => {
+    const { planCatalogImport } = await catalogImport;
+    const plan = await planCatalogImport({ rows, deactivateMissing: true });
+
+    assert.deepEqual(plan.deactivated, []);
+    assert.equal(plan.errors.length, 1);
+    assert.equal(plan.errors[0].column, "supplier");
+  });
+
+  dbIt(testDb, "only deactivates the missing stock of the given supplier", async () => {
+    const { planCatalogImport } = await catalogImport;
+    const plan = await planCatalogImport({ rows, deactivateMissing: true, supplier: "Zeiss" });
+
+    assert.deepEqual(plan.errors, []);
+    assert.deepEqual(
+      plan.deactivated.map((d) => [d.sku, d.supplier]),
+      [["ZEISS-OFFICE-150", "Zeiss"]],
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildCatalogIndex, matchCatalogQuery, type CatalogIndexRow } from "@/lib/catalogIndex";
+import { prisma } from "@/lib/db";
+import { ignoreUnusedPrismaClient } from "./testDb";
+
+ignoreUnusedPrismaClient(prisma);
+
+// Brands and families of prisma/seed.ts.
+const rows: CatalogIndexRow[] = [
+  ["ZEISS-AR-150", "Zeiss", "SmartLife"],
+  ["ESSILOR-CRIZAL-160-BLUE", "Crizal", "Crizal"],
+  ["HOYA-PHOTO-167", "Hoya", "Sensity"],
+  ["HOYA-AR-156", "Hoya", "Nulux"],
+  ["ZEISS-BLUE-156", "Zeiss", "BlueProtect"],
+  ["HOYA-HI-174-BLUE", "Hoya", "HiVision"],
+  ["ESSILOR-VARILUX-160", "Essilor", "Varilux Comfort"],
+  ["HOYA-PROG-167-BLUE", "Hoya", "Hoyalux"],
+  ["ZEISS-OFFICE-150", "Zeiss", "Officelens"],
+].map(([sku, brand, family]) => ({
+  id: sku,
+  sku,
+  family,
+  description: null,
+  brand: { name: brand },
+  photochromicTech: null,
+}));
+
+const index = buildCatalogIndex(rows);
+
+describe("matchCatalogQuery", () => {
+  it("keeps the brand filter when the brand is a prefix of a family", () => {
+    const match = matchCatalogQuery(index, "Vous avez du Hoya 1.56 en stock ?");
+    assert.deepEqual(match.brands, ["Hoya"]);
+    assert.deepEqual(match.familyIds, []);
+  });
+
+  it("does not glue stopwords into a family name", () => {
+    const match = matchCatalogQuery(index, "c'est pour la vision de loin");
+    assert.deepEqual(match.familyIds, []);
+    assert.deepEqual(match.brands, []);
+  });
+
+  it("narrows to a family named exactly or with a typo", () => {
+    assert.deepEqual(matchCatalogQuery(index, "le Hoyalux en 1.67").familyIds, ["HOYA-PROG-167-BLUE"]);
+    assert.deepEqual(matchCatalogQuery(index, "vous avez du varilux ?").familyIds, ["ESSILOR-VARILUX-160"]);
+    assert.deepEqual(matchCatalogQuery(index, "Hoya Hi Vison").familyIds, ["HOYA-HI-174-BLUE"]);
+  });
+
+  it("ignores a family of another brand than the one named", () => {
+    const match = matchCatalogQuery(index, "Zeiss Nulux");
+    assert.deepEqual(match.brands, ["Zeiss"]);
+    assert.deepEqual(match.familyIds, []);
+  });
+
+  it("finds a SKU typed with a typo", () => {
+    assert.deepEqual(matchCatalogQuery(index, "le ZEIS-AR-150 svp").skuIds, ["ZEISS-AR-150"]);
+  });
+});
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { clearMockLlmRequests, mockLlmRequests, setMockLlmScript } from "@/lib/mockLlm";
+import { createTestDatabase, dbIt } from "./testDb";
+
+// End-to-end: POST /api/chat against a temporary SQLite database (committed migrations +
+// prisma/seed.ts, see testDb.ts) and the in-process mock LLM. Nothing leaves the machine.
+
+// Set before the route (and src/lib/db.ts) is imported.
+const testDb = createTestDatabase();
+const profilesFile = path.join(path.dirname(testDb.url.slice("file:".length)), "llm-profiles.json");
+Object.assign(process.env, {
+  LLM_PROFILES_FILE: profilesFile,
+  LLM_FALLBACK: "",
+  LLM_RETRIES: "0",
+  LLM_PUBLIC_PROFILES: "mock-sse",
+});
+delete process.env.LLM_PROFILE;
+delete process.env.MOCK_LLM_BASE_URL;
+delete process.env.MOCK_LLM_SCRIPT;
+
+fs.writeFileSync(
+  profilesFile,
+  JSON.stringify({
+    default: "mock-ndjson",
+    profiles: [
+      { name: "mock-ndjson", provider: "mock", model: "ndjson" },
+      { name: "mock-sse", provider: "mock", model: "sse" },
+    ],
+  }),
+);
+
+// Imported after the environment is set. mockLlm is imported statically instead: tsx gives a
+// dynamic import() of it its own module instance, not the one the route records requests in.
+const route = import("@/app/api/chat/route");
+const db = import("@/lib/db");
+
+async function postChat(body: Record<string, unknown>): Promise<Response> {
+  const { POST } = await route;
+  return POST(
+    new Request("http://localhost:3000/api/chat", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+async function lastAssistantMessage(chatId: string) {
+  const { prisma } = await db;
+  const message = await prisma.chatMessage.findFirst({
+    where: { chatId, role: "assistant" },
+    orderBy: { createdAt: "desc" },
+    select: { content: true, metadata: true },
+  });
+  assert.ok(message, "message assistant non enregistré");
+  return { content: message.content, metadata: JSON.parse(message.metadata ?? "null") };
+}
+
+const PRESCRIPTION_FR = "Bonjour. SPH -2.50 CYL -1.25. Je veux blue cut pour écrans et un bon antireflet.";
+
+describe("POST /api/chat (mock LLM, SQLite temporaire)", () => {
+  before(async () => {
+    const { prisma } = await db;
+    await testDb.prepare(prisma);
+  });
+
+  beforeEach(() => {
+    clearMockLlmRequests();
+    setMockLlmScript(null);
+  });
+
+  after(async () => {
+    const { prisma } = await db;
+    await testDb.close(prisma);
+  });
+
+  dbIt(testDb, "answers through the LLM with the catalog in the system prompt", async () => {
+    const res = await postChat({ messages: [{ role: "user", content: PRESCRIPTION_FR }] });
+    assert.equal(res.status, 200);
+    const json = await res.json();
+
+    assert.equal(json.language, "fr");
+    assert.equal(json.recommendation.recommendedIndex, 1.6);
+    assert.ok(json.catalogHits.length > 0);
+    assert.deepEqual(json.answeredBy, { provider: "mock", profile: "mock-ndjson", model: "ndjson" });
+    assert.match(json.answer, /Indice conseillé : 1\.6\./);
+
+    const [request] = mockLlmRequests();
+    assert.equal(request.wire, "ndjson");
+    const system = request.messages[0];
+    assert.equal(system.role, "system");
+    assert.match(system.content, /Recommended index: 1\.6/);
+    assert.match(system.content, new RegExp(`SKU=${json.catalogHits[0].sku}`));
+    assert.equal(request.messages.at(-1)?.content, PRESCRIPTION_FR);
+
+    const stored = await lastAssistantMessage(json.chatId);
+    assert.equal(stored.content, json.answer);
+    assert.deepEqual(stored.metadata, { answeredBy: json.answeredBy });
+  });
+
+  dbIt(testDb, "streams an OpenAI-compatible (SSE) answer and stores it", async () => {
+    const res = await postChat({
+      llmProfile: "mock-sse",
+      stream: true,
+      messages: [{ role: "user", content: "Hello, I need lenses for my computer. SPH -2.50 CYL -1.25" }],
+    });
+    assert.equal(res.status, 200);
+    const chatId = res.headers.get("X-Chat-Id");
+    assert.ok(chatId);
+    const text = await res.text();
+
+    assert.match(text, /^Mock reply\. Recommended index: 1\.6\. Suggested lens: SKU \S+\.$/);
+    assert.deepEqual(
+      mockLlmRequests().map((r) => [r.wire, r.stream]),
+      [["sse", true]],
+    );
+
+    const stored = await lastAssistantMessage(chatId);
+    assert.equal(stored.content, text);
+    assert.deepEqual(stored.metadata.answeredBy, { provider: "mock", profile: "mock-sse", model: "sse" });
+  });
+
+  it("refuses a model profile outside LLM_PUBLIC_PROFILES without the admin token", async () => {
+    const res = await postChat({ llmProfile: "mock-ndjson", messages: [{ role: "user", content: PRESCRIPTION_FR }] });
+    assert.equal(res.status, 403);
+    assert.equal(mockLlmRequests().length, 0);
+  });
+
+  dbIt(testDb, "answers stock questions from the database without calling the LLM", async () => {
+    const res = await postChat({ messages: [{ role: "user", content: "Vous avez le ZEISS-AR-150 en stock ?" }] });
+    assert.equal(res.status, 200);
+    const json = await res.json();
+
+    assert.equal(json.answeredBy.provider, "deterministic");
+    // Seeded with 10 units.
+    assert.match(json.answer, /\(SKU\s*: ZEISS-AR-150\)\s*: 10\b/);
+    assert.equal(mockLlmRequests().length, 0);
+  });
+
+  dbIt(testDb, "falls back to the degraded answer when the LLM fails", async () => {
+    setMockLlmScript([{ status: 503 }]);
+
+    const res = await postChat({ messages: [{ role: "user", content: PRESCRIPTION_FR }] });
+    assert.equal(res.status, 200);
+    const json = await res.json();
+
+    assert.equal(json.answeredBy.provider, "deterministic");
+    assert.match(json.answer, /^L’assistant est momentanément indisponible/);
+    assert.match(json.answer, /Indice conseillé : 1\.60/);
+
+    const stored = await lastAssistantMessage(json.chatId);
+    assert.equal(stored.metadata.failures.length, 1);
+    assert.equal(stored.metadata.failures[0].profile, "mock-ndjson");
+    assert.match(stored.metadata.failures[0].error, /503/);
+  });
+
+  dbIt(testDb, "reserves on request only, within the per-chat limit", async () => {
+    const ask = async (content: string, chatId?: string) => {
+      const res = await postChat({ chatId, messages: [{ role: "user", content }] });
+      assert.equal(res.status, 200);
+      return (await res.json()) as { chatId: string; answer: string };
+    };
+    const { prisma } = await db;
+    const held = async (chatId: string) =>
+      (await prisma.reservation.findMany({ where: { chatId, status: "active" } })).map((r) => r.quantity);
+
+    const { chatId } = await ask("Vous avez le ZEISS-AR-150 en stock ?");
+    await ask("Vous l'avez en réserve ?", chatId);
+    assert.deepEqual(await held(chatId), []);
+
+    const reserved = await ask("Réservez-m'en 3 paires", chatId);
+    assert.match(reserved.answer, /^C’est réservé : 3 × .*\(SKU : ZEISS-AR-150\)/);
+    assert.deepEqual(await held(chatId), [3]);
+
+    // RESERVATION_CHAT_MAX_UNITS defaults to 4.
+    const refused = await ask("je veux réserver 1.50 x 2", chatId);
+    assert.match(refused.answer, /au plus 4 verre\(s\) par conversation \(3 déjà/);
+    assert.deepEqual(await held(chatId), [3]);
+  });
+});
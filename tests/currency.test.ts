@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { convertMinor, formatMoney, minorUnits, quotePrice, toMinor } from "@/lib/currency";
+
+describe("minor units", () => {
+  it("follows ISO 4217 digits", () => {
+    assert.equal(minorUnits("DZD"), 2);
+    assert.equal(minorUnits("TND"), 3);
+    assert.equal(minorUnits("JPY"), 0);
+    assert.equal(minorUnits("XYZ"), 2);
+    assert.equal(toMinor(12.345, "TND"), 12345);
+  });
+
+  it("shows decimals only when the amount has some", () => {
+    assert.equal(formatMoney(980000, "EUR", "en"), "€9,800");
+    assert.equal(formatMoney(980050, "EUR", "en"), "€9,800.50");
+    assert.match(formatMoney(1500, "XYZ"), /^15\sXYZ$/);
+  });
+});
+
+describe("conversion", () => {
+  afterEach(() => {
+    delete process.env.CURRENCY_BASE;
+    delete process.env.CURRENCY_RATES;
+  });
+
+  it("converts through CURRENCY_BASE rates", () => {
+    process.env.CURRENCY_RATES = "EUR=148.5, usd=135, bad=x";
+    assert.equal(convertMinor(1000, "EUR", "DZD"), 148500);
+    assert.equal(convertMinor(148500, "DZD", "EUR"), 1000);
+    assert.equal(convertMinor(1000, "EUR", "USD"), 1100);
+    assert.equal(convertMinor(1000, "EUR", "GBP"), null);
+  });
+
+  it("quotes in the store currency when a rate is known, else as stored", () => {
+    process.env.CURRENCY_RATES = "EUR=150";
+    assert.deepEqual(quotePrice(1000, "EUR", "DZD"), { amountMinor: 150000, currency: "DZD", converted: true });
+    assert.deepEqual(quotePrice(1000, "GBP", "DZD"), { amountMinor: 1000, currency: "GBP", converted: false });
+    assert.deepEqual(quotePrice(1000, "EUR", null), { amountMinor: 1000, currency: "EUR", converted: false });
+  });
+});
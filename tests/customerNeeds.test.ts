@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractCustomerNeeds, mergeCustomerNeeds } from "@/lib/customerNeeds";
+
+describe("extractCustomerNeeds", () => {
+  it("detects needs and the budget level", () => {
+    assert.deepEqual(extractCustomerNeeds("je travaille sur ordinateur et je conduis, pas très cher"), {
+      needs: ["screen", "driving"],
+      budget: "basic",
+    });
+    assert.deepEqual(extractCustomerNeeds("I read a lot, high-end please"), { needs: ["reading"], budget: "premium" });
+  });
+
+  it("ignores negated needs", () => {
+    for (const text of [
+      "je ne conduis pas",
+      "je n'ai pas de voiture",
+      "sans écran",
+      "I don't drive",
+      "no screens at all",
+      "ما نسوقش",
+    ]) {
+      assert.deepEqual(extractCustomerNeeds(text).needs, [], text);
+    }
+  });
+
+  it("keeps a need mentioned again without negation", () => {
+    assert.deepEqual(extractCustomerNeeds("pas d'écran, mais je conduis la nuit").needs, ["driving"]);
+    assert.deepEqual(extractCustomerNeeds("je ne vois pas bien de près").needs, ["reading"]);
+  });
+});
+
+describe("mergeCustomerNeeds", () => {
+  it("accumulates needs and keeps the latest budget", () => {
+    assert.deepEqual(
+      mergeCustomerNeeds({ needs: ["screen"], budget: "basic" }, { needs: ["driving", "screen"], budget: "premium" }),
+      { needs: ["screen", "driving"], budget: "premium" },
+    );
+    assert.deepEqual(mergeCustomerNeeds({ needs: ["screen"], budget: "mid" }, { needs: [] }), {
+      needs: ["screen"],
+      budget: "mid",
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { after, before, describe } from "node:test";
+import { createTestDatabase, dbIt } from "./testDb";
+
+const testDb = createTestDatabase();
+const ledger = import("@/lib/inventoryLedger");
+const reservations = import("@/lib/reservations");
+const db = import("@/lib/db");
+
+describe("stock count adjustments with active reservations", () => {
+  before(async () => {
+    const { prisma } = await db;
+    await testDb.prepare(prisma);
+  });
+
+  after(async () => {
+    const { prisma } = await db;
+    await testDb.close(prisma);
+  });
+
+  dbIt(testDb, "counts held units as on hand and keeps them out of the available stock", async () => {
+    const { CountBelowHoldsError, recordMovement } = await ledger;
+    const { closeReservation, reserveStock } = await reservations;
+    const { prisma } = await db;
+    const available = async (id: string) =>
+      (await prisma.inventoryItem.findUniqueOrThrow({ where: { id }, select: { quantity: true } })).quantity;
+
+    // Seeded with 10 units.
+    const reservation = await reserveStock({ sku: "ZEISS-AR-150", quantity: 3 });
+    const inventoryId = reservation.inventoryId;
+    assert.equal(await available(inventoryId), 7);
+
+    // The shelf still holds the 10 units: nothing to adjust.
+    assert.equal(await recordMovement({ inventoryId, type: "adjustment", quantity: 10 }), null);
+    assert.equal(await available(inventoryId), 7);
+
+    // 2 units missing at the count: the 3 held stay held, 5 remain for other customers.
+    const movement = await recordMovement({ inventoryId, type: "adjustment", quantity: 8 });
+    assert.equal(movement?.delta, -2);
+    assert.equal(await available(inventoryId), 5);
+
+    await assert.rejects(recordMovement({ inventoryId, type: "adjustment", quantity: 2 }), CountBelowHoldsError);
+
+    await closeReservation(reservation.id, "released");
+    assert.equal(await available(inventoryId), 8);
+  });
+});
@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectLanguageInfo } from "@/lib/language";
+
+describe("detectLanguageInfo", () => {
+  const cases: Array<[string, ReturnType<typeof detectLanguageInfo>]> = [
+    ["Bonjour, je cherche des verres", { lang: "fr", confidence: "high" }],
+    ["Hello, I need new glasses for my computer", { lang: "en", confidence: "medium" }],
+    ["السلام عليكم", { lang: "ar", confidence: "high" }],
+    ["wesh sahbi chhal el prix", { lang: "dz", confidence: "medium" }],
+    // Ambiguous or empty messages default to French.
+    ["ok", { lang: "fr", confidence: "low" }],
+    ["", { lang: "fr", confidence: "low" }],
+  ];
+
+  for (const [text, expected] of cases) {
+    it(`${JSON.stringify(text)} → ${expected.lang} (${expected.confidence})`, () => {
+      assert.deepEqual(detectLanguageInfo(text), expected);
+    });
+  }
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compareLensIndices, estimateThickness, parseFrameMeasurements } from "@/lib/lensThickness";
+
+describe("compareLensIndices", () => {
+  it("gets thinner edges with higher indices for a myope", () => {
+    const comparison = compareLensIndices({ prescription: { od: { sph: -6 }, os: { sph: -5.5, cyl: -0.5 } } });
+    assert.ok(comparison);
+    assert.equal(comparison.assumedFrame, true);
+    assert.deepEqual(
+      comparison.rows.map((r) => r.index),
+      [1.5, 1.56, 1.6, 1.67, 1.74],
+    );
+    const edges = comparison.rows.map((r) => r.edgeMm);
+    assert.deepEqual(
+      [...edges].sort((a, b) => b - a),
+      edges,
+    );
+    assert.ok(comparison.rows.every((r) => r.edgeMm > r.centerMm));
+    assert.equal(comparison.rows[0].relativeThickness, 1);
+    assert.ok(comparison.rows[4].relativeThickness < 0.8);
+  });
+
+  it("keeps the minimum edge and a thicker center for a hyperope", () => {
+    const estimate = estimateThickness({ prescription: { od: { sph: 4 } }, index: 1.6 });
+    assert.ok(estimate);
+    assert.equal(estimate.edgeMm, 1);
+    assert.ok(estimate.centerMm > estimate.edgeMm);
+  });
+
+  it("uses the given frame and needs a power", () => {
+    const frame = { eyeSizeMm: 48, bridgeMm: 20, pdMm: 66 };
+    assert.equal(compareLensIndices({ prescription: { od: { sph: -2 } }, frame })?.assumedFrame, false);
+    assert.equal(compareLensIndices({ prescription: { od: { add: 2 } } }), undefined);
+  });
+});
+
+describe("parseFrameMeasurements", () => {
+  it("reads boxed measurements and frame keywords", () => {
+    assert.deepEqual(parseFrameMeasurements("monture 52□18, EP 64"), { eyeSizeMm: 52, bridgeMm: 18, pdMm: 64 });
+    assert.deepEqual(parseFrameMeasurements("ma monture fait 54-17"), { eyeSizeMm: 54, bridgeMm: 17 });
+    assert.deepEqual(parseFrameMeasurements("calibre 50/20"), { eyeSizeMm: 50, bridgeMm: 20 });
+  });
+
+  it("does not read a cylinder and its axis as a frame", () => {
+    assert.deepEqual(parseFrameMeasurements("OD -2.00 -0.50 x 15"), {});
+    assert.deepEqual(parseFrameMeasurements("SPH -1,50 x 18"), {});
+    assert.deepEqual(parseFrameMeasurements("52-18"), {});
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { prisma } from "@/lib/db";
+import { chatStreamWithFailover, chatWithFailover, messageMetadata, DETERMINISTIC } from "@/lib/llmFailover";
+import type { LlmChatParams, LlmProvider } from "@/lib/llmProviders";
+import { ignoreUnusedPrismaClient } from "./testDb";
+
+ignoreUnusedPrismaClient(prisma);
+
+const params: LlmChatParams = { messages: [{ role: "user", content: "bonjour" }] };
+
+function connectionError(): Error {
+  return new TypeError("fetch failed", { cause: { code: "ECONNREFUSED" } });
+}
+
+// Never answers: only the failover deadline ends the call.
+function hang(signal?: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => signal?.addEventListener("abort", () => reject(signal.reason)));
+}
+
+function provider(profile: string, chat: (params: LlmChatParams) => Promise<string>, timeoutMs = 1000): LlmProvider {
+  return {
+    profile,
+    kind: "openai-compat",
+    model: `${profile}-model`,
+    capabilities: { streaming: true, toolCalls: false, jsonMode: false, maxContextTokens: null },
+    timeoutMs,
+    chat,
+    chatStream: async function* (p) {
+      yield await chat(p);
+    },
+  };
+}
+
+describe("chatWithFailover", () => {
+  before(() => {
+    process.env.LLM_RETRIES = "2";
+    process.env.LLM_RETRY_BACKOFF_MS = "0";
+  });
+
+  after(() => {
+    delete process.env.LLM_RETRIES;
+    delete process.env.LLM_RETRY_BACKOFF_MS;
+  });
+
+  it("retries connection errors, then moves on to the next profile", async () => {
+    let calls = 0;
+    const down = provider("local", async () => {
+      calls++;
+      throw connectionError();
+    });
+    const answer = await chatWithFailover([down, provider("backup", async () => "ok")], params);
+
+    assert.equal(calls, 3);
+    assert.equal(answer.text, "ok");
+    assert.equal(answer.llm?.profile, "backup");
+    assert.deepEqual(answer.failures, [
+      { profile: "local", provider: "openai-compat", error: "fetch failed (ECONNREFUSED)", attempts: 3 },
+    ]);
+  });
+
+  it("does not retry other errors and times out slow profiles", async () => {
+    const broken = provider("broken", async () => {
+      throw new Error("OpenAI-compatible error 500: boom");
+    });
+    const slow = provider("slow", (p) => hang(p.signal), 20);
+    const answer = await chatWithFailover([broken, slow], params);
+
+    assert.equal(answer.text, null);
+    assert.equal(answer.llm, null);
+    assert.deepEqual(
+      answer.failures.map((f) => [f.profile, f.attempts, f.error]),
+      [
+        ["broken", 1, "OpenAI-compatible error 500: boom"],
+        ["slow", 1, "LLM: délai dépassé (20 ms)"],
+      ],
+    );
+  });
+});
+
+describe("chatStreamWithFailover", () => {
+  it("switches profile only before the first chunk", async () => {
+    const failing = provider("local", async () => {
+      throw new Error("boom");
+    });
+    const midStream: LlmProvider = {
+      ...provider("backup", async () => ""),
+      chatStream: async function* () {
+        yield "Bonjour";
+        throw new Error("connection lost");
+      },
+    };
+    const stream = await chatStreamWithFailover([failing, midStream, provider("last", async () => "ok")], params);
+    assert.equal(stream.llm?.profile, "backup");
+    assert.equal(stream.failures.length, 1);
+
+    const received: string[] = [];
+    await assert.rejects(async () => {
+      for await (const chunk of stream.chunks!) received.push(chunk);
+    }, /connection lost/);
+    assert.deepEqual(received, ["Bonjour"]);
+  });
+});
+
+describe("messageMetadata", () => {
+  it("records failures only when there were some", () => {
+    assert.equal(messageMetadata(DETERMINISTIC), JSON.stringify({ answeredBy: DETERMINISTIC }));
+    const failures = [{ profile: "local", provider: "ollama", error: "boom", attempts: 1 }];
+    assert.deepEqual(JSON.parse(messageMetadata(DETERMINISTIC, failures)).failures, failures);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { prisma } from "@/lib/db";
+import { createLlmProvider, type ModelProfile } from "@/lib/llmProviders";
+import { ignoreUnusedPrismaClient } from "./testDb";
+
+ignoreUnusedPrismaClient(prisma);
+
+function profile(overrides: Partial<ModelProfile>): ModelProfile {
+  return {
+    name: "vllm",
+    description: null,
+    provider: "openai-compat",
+    model: "qwen",
+    baseUrl: "http://llm.test",
+    apiKeyEnv: null,
+    temperature: null,
+    timeoutMs: null,
+    capabilities: {},
+    isDefault: false,
+    source: "file",
+    ...overrides,
+  };
+}
+
+describe("openai-compat API key", () => {
+  let authorization: string | null | undefined;
+
+  beforeEach(() => {
+    process.env.OPENAI_COMPAT_API_KEY = "server-key";
+    process.env.LLM_KEY_VLLM = "vllm-key";
+    authorization = undefined;
+    mock.method(globalThis, "fetch", async (_url: string, init: RequestInit) => {
+      authorization = new Headers(init.headers).get("Authorization");
+      return Response.json({ choices: [{ message: { content: "ok" } }] });
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    delete process.env.OPENAI_COMPAT_API_KEY;
+    delete process.env.LLM_KEY_VLLM;
+  });
+
+  const send = (p: ModelProfile) => createLlmProvider(p).chat({ messages: [{ role: "user", content: "bonjour" }] });
+
+  it("sends OPENAI_COMPAT_API_KEY for the environment profile", async () => {
+    await send(profile({ source: "env", apiKeyEnv: "OPENAI_COMPAT_API_KEY" }));
+    assert.equal(authorization, "Bearer server-key");
+  });
+
+  it("sends no key for a custom profile without an LLM_KEY_* variable", async () => {
+    await send(profile({ apiKeyEnv: null }));
+    assert.equal(authorization, null);
+    await send(profile({ source: "db", apiKeyEnv: "OPENAI_COMPAT_API_KEY" }));
+    assert.equal(authorization, null);
+  });
+
+  it("sends the LLM_KEY_* variable of a custom profile", async () => {
+    await send(profile({ apiKeyEnv: "LLM_KEY_VLLM" }));
+    assert.equal(authorization, "Bearer vllm-key");
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizePrescription, roundToQuarter, transposeToMinusCyl } from "@/lib/prescriptionNormalize";
+
+describe("normalizePrescription", () => {
+  it("transposes plus cylinder and reports it", () => {
+    const { prescription, warnings } = normalizePrescription({ od: { sph: 1, cyl: 0.5, axis: 30 } });
+    assert.deepEqual(prescription, { od: { sph: 1.5, cyl: -0.5, axis: 120 } });
+    assert.deepEqual(
+      warnings.map((w) => w.code),
+      ["transposed"],
+    );
+  });
+
+  it("rounds powers to 0.25 D and treats axis 0 as 180", () => {
+    const { prescription, warnings } = normalizePrescription({ os: { sph: -2.1, cyl: -0.5, axis: 0 } });
+    assert.deepEqual(prescription, { os: { sph: -2, cyl: -0.5, axis: 180 } });
+    assert.deepEqual(
+      warnings.map((w) => [w.field, w.code, w.severity]),
+      [["sph", "rounded", "info"]],
+    );
+  });
+
+  it("drops implausible values instead of guessing", () => {
+    const { prescription, warnings } = normalizePrescription({
+      od: { sph: -45, cyl: -1, axis: 200 },
+      os: { add: 6 },
+    });
+    assert.equal(prescription?.od?.sph, undefined);
+    assert.equal(prescription?.od?.cyl, -1);
+    assert.equal(prescription?.os, undefined);
+    assert.deepEqual(
+      warnings.map((w) => [w.eye, w.code]),
+      [
+        ["od", "sph-out-of-range"],
+        ["od", "axis-out-of-range"],
+        ["od", "axis-missing"],
+        ["os", "add-out-of-range"],
+      ],
+    );
+    assert.ok(warnings.every((w) => w.severity === "warning"));
+  });
+
+  it("returns no prescription when nothing valid remains", () => {
+    assert.equal(normalizePrescription({ od: { sph: 99 } }).prescription, undefined);
+  });
+});
+
+describe("roundToQuarter / transposeToMinusCyl", () => {
+  it("never returns -0", () => {
+    assert.ok(Object.is(roundToQuarter(-0.1), 0));
+  });
+
+  it("leaves minus cylinder untouched", () => {
+    assert.deepEqual(transposeToMinusCyl({ sph: -1, cyl: -0.75, axis: 90 }), { sph: -1, cyl: -0.75, axis: 90 });
+    assert.deepEqual(transposeToMinusCyl({ sph: -1, cyl: 0.75, axis: 120 }), { sph: -0.25, cyl: -0.75, axis: 30 });
+  });
+});
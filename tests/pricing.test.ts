@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { prisma } from "@/lib/db";
+import { effectivePrice, promotionApplies, type PricedProduct } from "@/lib/pricing";
+import { ignoreUnusedPrismaClient } from "./testDb";
+
+ignoreUnusedPrismaClient(prisma);
+
+const product: PricedProduct = {
+  sku: "HOYA-AR-156",
+  family: "Nulux",
+  brand: { name: "Hoya" },
+  coatings: [{ coating: { code: "AR" } }, { coating: { code: "HARD" } }],
+};
+
+const endsAt = new Date("2026-12-31T00:00:00Z");
+
+function promotion(
+  id: string,
+  kind: string,
+  value: number,
+  scope: string,
+  target: string,
+  currency: string | null = null,
+) {
+  return { id, name: id, kind, value, currency, scope, target, endsAt };
+}
+
+describe("promotionApplies", () => {
+  it("matches brand, family, coating and SKU case-insensitively", () => {
+    assert.ok(promotionApplies({ scope: "brand", target: "hoya " }, product));
+    assert.ok(promotionApplies({ scope: "family", target: "NULUX" }, product));
+    assert.ok(promotionApplies({ scope: "coating", target: "hard" }, product));
+    assert.ok(promotionApplies({ scope: "sku", target: "hoya-ar-156" }, product));
+    assert.ok(!promotionApplies({ scope: "brand", target: "Zeiss" }, product));
+    assert.ok(!promotionApplies({ scope: "store", target: "Hoya" }, product));
+  });
+});
+
+describe("effectivePrice", () => {
+  afterEach(() => {
+    delete process.env.CURRENCY_RATES;
+  });
+
+  it("applies the best promotion without stacking", () => {
+    const price = effectivePrice({ priceCents: 1_000_000, currency: "DZD" }, product, [
+      promotion("ten", "percent", 10, "brand", "Hoya"),
+      promotion("fixed", "fixed", 150_000, "family", "Nulux"),
+      promotion("other", "percent", 50, "brand", "Zeiss"),
+    ]);
+    assert.equal(price.priceCents, 850_000);
+    assert.equal(price.basePriceCents, 1_000_000);
+    assert.equal(price.promotion?.id, "fixed");
+  });
+
+  it("converts fixed discounts and never goes below zero", () => {
+    process.env.CURRENCY_RATES = "EUR=150";
+    const eur = effectivePrice({ priceCents: 10_000, currency: "EUR" }, product, [
+      promotion("dzd", "fixed", 300_000, "sku", "HOYA-AR-156"),
+    ]);
+    assert.equal(eur.priceCents, 8_000);
+
+    const free = effectivePrice({ priceCents: 500, currency: "DZD" }, product, [
+      promotion("big", "fixed", 10_000, "brand", "Hoya"),
+    ]);
+    assert.equal(free.priceCents, 0);
+  });
+
+  it("ignores a fixed discount without a conversion rate", () => {
+    const price = effectivePrice({ priceCents: 10_000, currency: "GBP" }, product, [
+      promotion("dzd", "fixed", 1_000, "brand", "Hoya"),
+    ]);
+    assert.deepEqual(price, { priceCents: 10_000, basePriceCents: 10_000, currency: "GBP", promotion: null });
+  });
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isVisualNeed, parsePrescription, recommendFromInputs } from "@/lib/recommendation";
+
+describe("parsePrescription", () => {
+  it("applies unlabeled values to both eyes", () => {
+    const rx = { sph: -2.5, cyl: -1.25, axis: 90 };
+    assert.deepEqual(parsePrescription("SPH -2.50 CYL -1.25 AXE 90"), { od: rx, os: rx });
+  });
+
+  it("reads OD/OG in the compact sph (cyl) axis notation, with a shared ADD", () => {
+    assert.deepEqual(parsePrescription("OD -2.00 (-0.50) 180 / OG -4.00 (-1.00) 90 ADD +2.00"), {
+      od: { sph: -2, cyl: -0.5, axis: 180, add: 2 },
+      os: { sph: -4, cyl: -1, axis: 90, add: 2 },
+    });
+  });
+
+  it("transposes plus cylinder to minus cylinder", () => {
+    const rx = parsePrescription("OD: SPH +1.00 CYL +0.50 AXE 30 OG: SPH +1.25");
+    assert.deepEqual(rx?.od, { sph: 1.5, cyl: -0.5, axis: 120 });
+    assert.equal(rx?.os?.sph, 1.25);
+    assert.equal(rx?.os?.cyl, undefined);
+  });
+
+  it("rounds powers to 0.25 D steps", () => {
+    const rx = parsePrescription("SPH -2.37");
+    assert.equal(rx?.od?.sph, -2.25);
+    assert.equal(rx?.os?.sph, -2.25);
+  });
+
+  it("does not read a lens index or the word « os » as a power", () => {
+    assert.equal(parsePrescription("prix OS 1.6"), undefined);
+    assert.equal(parsePrescription("OD 1.67 ou 1.74 ?"), undefined);
+    assert.equal(parsePrescription("j'ai mal aux os -2.00"), undefined);
+    assert.equal(parsePrescription("OD +1.50 OG +1.75")?.od?.sph, 1.5);
+  });
+
+  it("returns undefined without a prescription", () => {
+    assert.equal(parsePrescription("bonjour je veux des lunettes"), undefined);
+  });
+});
+
+describe("recommendFromInputs", () => {
+  it("picks the index from the strongest meridian and adds Blue Cut for screens", () => {
+    const rec = recommendFromInputs({
+      prescription: parsePrescription("SPH -2.50 CYL -1.25 AXE 90"),
+      needs: ["screen"],
+    });
+    assert.equal(rec.recommendedIndex, 1.6);
+    assert.equal(rec.design, "single-vision");
+    assert.deepEqual(rec.coatings, ["AR", "HARD", "HYDRO", "BLUECUT"]);
+    assert.equal(rec.wantBlueCut, true);
+  });
+
+  it("uses the stronger eye and flags large anisometropia", () => {
+    const rec = recommendFromInputs({ prescription: parsePrescription("OD SPH -1.00 OG SPH -6.50") });
+    assert.equal(rec.recommendedIndex, 1.67);
+    assert.equal(rec.anisometropia, 5.5);
+    assert.equal(rec.largeAnisometropia, true);
+  });
+
+  it("bumps the index for a high cylinder and adds photochromic for driving", () => {
+    const rec = recommendFromInputs({
+      prescription: parsePrescription("SPH -4.00 CYL -2.50 AXE 10"),
+      needs: ["driving"],
+    });
+    assert.equal(rec.recommendedIndex, 1.74);
+    assert.ok(rec.coatings.includes("PHOTO"));
+  });
+
+  it("suggests progressive lenses when there is an addition", () => {
+    const rec = recommendFromInputs({ prescription: parsePrescription("SPH +1.00 ADD +2.00") });
+    assert.equal(rec.recommendedIndex, 1.5);
+    assert.equal(rec.design, "progressive");
+    assert.equal(rec.add, 2);
+  });
+
+  it("gives base coatings and no index without a prescription", () => {
+    const rec = recommendFromInputs({});
+    assert.equal(rec.recommendedIndex, undefined);
+    assert.deepEqual(rec.coatings, ["AR", "HARD", "HYDRO"]);
+  });
+});
+
+describe("isVisualNeed", () => {
+  it("accepts known needs only", () => {
+    assert.deepEqual(["screen", "office", "night", 3, null].filter(isVisualNeed), ["screen", "office"]);
+  });
+});
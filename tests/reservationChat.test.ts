@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildReservationAnswer, getReservationRequest } from "@/lib/reservationChat";
+
+describe("getReservationRequest", () => {
+  it("ignores questions and the noun « réserve »", () => {
+    assert.equal(getReservationRequest("Vous l'avez en réserve ?"), null);
+    assert.equal(getReservationRequest("Do you have any in reserve?"), null);
+    assert.equal(getReservationRequest("est-ce que vous réservez les verres ?"), null);
+    assert.equal(getReservationRequest("c'est réservé ?"), null);
+  });
+
+  it("reserves one unit on an imperative or first-person request", () => {
+    for (const text of [
+      "réserve-le moi",
+      "Réservez-le svp",
+      "je veux le réserver",
+      "reserve it",
+      "can you reserve one?",
+      "احجزلي",
+    ]) {
+      assert.deepEqual(getReservationRequest(text), { quantity: 1 }, text);
+    }
+  });
+
+  it("reads the quantity, not the digits of a lens index", () => {
+    assert.deepEqual(getReservationRequest("je veux réserver 1.67 x 2"), { quantity: 2 });
+    assert.deepEqual(getReservationRequest("je veux réserver du 1,74"), { quantity: 1 });
+    assert.deepEqual(getReservationRequest("réservez-moi 2 paires"), { quantity: 2 });
+    assert.deepEqual(getReservationRequest("reserve two please"), { quantity: 2 });
+  });
+});
+
+describe("buildReservationAnswer", () => {
+  it("answers insufficient stock in Modern Standard Arabic", () => {
+    const answer = buildReservationAnswer("ar", {
+      kind: "insufficient",
+      label: "Zeiss 1.50",
+      sku: "ZEISS-AR-150",
+      quantity: 5,
+      available: 2,
+    });
+    assert.match(answer, /^لا يمكنني حجز 5/);
+  });
+
+  it("states the per-chat limit", () => {
+    const answer = buildReservationAnswer("fr", { kind: "limit", quantity: 2, held: 3, max: 4 });
+    assert.match(answer, /au plus 4 verre\(s\) par conversation \(3 déjà/);
+  });
+});
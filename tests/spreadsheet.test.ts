@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import zlib from "node:zlib";
+import { describe, it } from "node:test";
+import { parseCsv, parseXlsx } from "@/lib/spreadsheet";
+
+// Deflated zip archive with the given entries (only the fields the reader uses are filled in).
+function zip(files: Record<string, Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuf = Buffer.from(name, "utf8");
+    const data = zlib.deflateRawSync(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+
+    offset += local.length + nameBuf.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const SHEET = Buffer.from(
+  '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>sku</t></is></c><c r="B1" t="inlineStr"><is><t>indice</t></is></c></row>' +
+    '<row r="2"><c r="A2" t="inlineStr"><is><t>HOYA-AR-156</t></is></c><c r="B2"><v>1.56</v></c></row></sheetData></worksheet>',
+);
+
+describe("parseXlsx", () => {
+  it("reads the first worksheet", () => {
+    assert.deepEqual(parseXlsx(zip({ "xl/worksheets/sheet1.xml": SHEET })), [
+      { line: 1, cells: ["sku", "indice"] },
+      { line: 2, cells: ["HOYA-AR-156", "1.56"] },
+    ]);
+  });
+
+  it("rejects archives that decompress beyond the limit", () => {
+    // 1 MB of zeros deflates to about 1 kB.
+    const bomb = zip({ "xl/worksheets/sheet1.xml": SHEET, "xl/media/padding.bin": Buffer.alloc(1024 * 1024) });
+    assert.throws(() => parseXlsx(bomb, 64 * 1024), /trop volumineux une fois décompressé/);
+  });
+
+  it("counts every entry against the limit", () => {
+    const entries = { "a.xml": Buffer.alloc(40 * 1024), "b.xml": Buffer.alloc(40 * 1024) };
+    assert.throws(() => parseXlsx(zip(entries), 64 * 1024), /trop volumineux/);
+  });
+});
+
+describe("parseCsv", () => {
+  it("detects semicolon-separated files and keeps quoted fields", () => {
+    assert.deepEqual(parseCsv('sku;description\nZEISS-AR-150;"verre; antireflet"\n'), [
+      { line: 1, cells: ["sku", "description"] },
+      { line: 2, cells: ["ZEISS-AR-150", "verre; antireflet"] },
+    ]);
+  });
+});
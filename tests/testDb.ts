@@ -0,0 +1,93 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { it } from "node:test";
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+// Temporary SQLite database for the tests that go through Prisma. The committed migrations are
+// applied with the Prisma client itself (no schema engine: nothing is downloaded), then
+// prisma/seed.ts fills the catalog. Only the query engine installed by `npm install` is needed;
+// without it the database tests are skipped with the reason instead of failing.
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "prisma", "migrations");
+
+export type TestDatabase = {
+  url: string;
+  // Set by prepare() when the database cannot be used here.
+  skipReason: string | null;
+  // Migrates then seeds through `prisma` (the client of src/lib/db.ts).
+  prepare: (prisma: PrismaClient) => Promise<void>;
+  // Disconnects `prisma` (unless skipped: it would rethrow the engine error) and deletes the file.
+  close: (prisma: PrismaClient) => Promise<void>;
+};
+
+// One statement per entry: the client runs a single statement per call.
+function migrationStatements(sql: string): string[] {
+  return sql
+    .split("\n")
+    .filter((line) => !line.trimStart().startsWith("--"))
+    .join("\n")
+    .split(/;\s*(?:\n|$)/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// Points DATABASE_URL at a fresh file: call it before anything imports src/lib/db.ts.
+export function createTestDatabase(): TestDatabase {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "optilens-test-"));
+  const url = `file:${path.join(dir, "test.db")}`;
+  process.env.DATABASE_URL = url;
+
+  const db: TestDatabase = {
+    url,
+    skipReason: null,
+    prepare: async (prisma) => {
+      try {
+        await prisma.$queryRawUnsafe("SELECT 1");
+      } catch (e) {
+        if (!(e instanceof Prisma.PrismaClientInitializationError)) throw e;
+        const detail =
+          e.message
+            .split("\n")
+            .find((l) => /engine/i.test(l))
+            ?.trim() ?? e.message.trim();
+        db.skipReason = `moteur de requêtes Prisma indisponible (installé par npm install) : ${detail}`;
+        return;
+      }
+
+      const migrations = fs
+        .readdirSync(MIGRATIONS_DIR)
+        .filter((name) => fs.existsSync(path.join(MIGRATIONS_DIR, name, "migration.sql")))
+        .sort();
+      for (const name of migrations) {
+        const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, name, "migration.sql"), "utf8");
+        for (const statement of migrationStatements(sql)) await prisma.$executeRawUnsafe(statement);
+      }
+
+      execFileSync(process.execPath, ["--import", "tsx", "prisma/seed.ts"], { env: process.env, stdio: "pipe" });
+    },
+    close: async (prisma) => {
+      if (!db.skipReason) await prisma.$disconnect();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+  return db;
+}
+
+// it() skipped, with the reason, when the database could not be prepared.
+export function dbIt(db: TestDatabase, name: string, fn: () => Promise<void>): void {
+  it(name, async (t) => {
+    if (db.skipReason) {
+      t.skip(db.skipReason);
+      return;
+    }
+    await fn();
+  });
+}
+
+// For unit tests of modules that import src/lib/db.ts but never query: the client starts loading
+// its engine when constructed, and without one that load rejects with nothing awaiting it.
+export function ignoreUnusedPrismaClient(prisma: PrismaClient): void {
+  prisma.$connect().catch(() => {});
+}